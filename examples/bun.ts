@@ -4,6 +4,7 @@ import { bearerAuth } from "../packages/middleware/src/bearer-auth";
 import { cors } from "../packages/middleware/src/cors";
 import { logger } from "../packages/middleware/src/logger";
 import { rateLimit } from "../packages/middleware/src/rate-limit";
+import { validator, type InferOutput } from "../packages/middleware/src/validator";
 
 /**
  * Web Framework Usage Examples
@@ -454,15 +455,10 @@ api.use(
 	})
 );
 
-// User endpoints
-api.get("/users/:id", async (ctx) => {
+// User endpoints (IDs that don't match the constraint fall through to 404)
+api.get("/users/:id([a-zA-Z0-9-]+)", async (ctx) => {
 	const userId = ctx.params.id;
 
-	// Validate ID format
-	if (!/^[a-zA-Z0-9-]+$/.test(userId)) {
-		return ctx.json({ error: "Invalid user ID format" }, 400);
-	}
-
 	// Simulate database lookup
 	await new Promise((resolve) => setTimeout(resolve, 100)); // Simulate DB delay
 
@@ -477,31 +473,15 @@ api.get("/users/:id", async (ctx) => {
 });
 
 // Create user with validation
-api.post("/users", async (ctx) => {
-	const body = await ctx.body<{
-		name?: string;
-		email?: string;
-		age?: number;
-	}>();
-
-	// Validation
-	const errors: string[] = [];
-
-	if (!body.name || body.name.length < 2) {
-		errors.push("Name must be at least 2 characters");
-	}
-
-	if (!body.email || !body.email.includes("@")) {
-		errors.push("Valid email is required");
-	}
-
-	if (body.age !== undefined && (body.age < 0 || body.age > 150)) {
-		errors.push("Age must be between 0 and 150");
-	}
-
-	if (errors.length > 0) {
-		return ctx.json({ errors }, 400);
-	}
+const createUserSchema = {
+	name: { type: "string", min: 2, message: "Name must be at least 2 characters" },
+	email: { type: "string", pattern: /@/, message: "Valid email is required" },
+	age: { type: "number", min: 0, max: 150, optional: true, message: "Age must be between 0 and 150" },
+} as const;
+
+api.post("/users", validator("json", createUserSchema, { contextKey: "body" }), async (ctx) => {
+	// Invalid bodies were already answered with a 422 listing every issue
+	const body = ctx.get("body") as InferOutput<typeof createUserSchema>;
 
 	// Create user
 	const newUser = {
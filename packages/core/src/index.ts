@@ -1,17 +1,69 @@
 import type {
+	BeforeHandleHook,
 	BunServerInstance,
 	BunWebSocketHandler,
+	Client,
+	ClientOptions,
+	ClientRequest,
 	Context,
 	DenoServerInstance,
+	DevOptions,
+	ErrorHandler,
+	ExecutionContext,
+	ExtractHostParams,
+	ExtractParams,
+	FetchHandler,
+	HTTPExceptionOptions,
+	FinishEvent,
 	ListenOptions,
+	JsonSchema,
 	MatchResult,
 	Method,
 	Middleware,
+	MiddlewareResult,
 	MiddlewareRoute,
+	MiddlewareSecurity,
+	MountOptions,
 	Next,
 	NodeServerInstance,
+	OnFinishHook,
+	OnRequestHook,
+	OnResponseHook,
+	OpenAPIDocument,
+	OpenAPIOperation,
+	OpenAPIOptions,
+	OpenAPIParameter,
+	OpenAPISecurityRequirement,
+	OpenAPISecurityScheme,
+	Params,
+	PrefixSchema,
+	ProblemDetails,
+	ProblemDetailsInit,
+	ProblemDetailsOptions,
+	RequestInfo,
+	ResponseOutput,
 	Route,
+	RouteArgs,
+	RouteConflict,
+	RouteMatch,
+	RouteMeta,
+	RouteOptions,
+	RouteParams,
+	RouteSchema,
+	Router,
+	RouterConflict,
+	RouterFactory,
+	RouterMatch,
+	RouterName,
+	RouterOptions,
+	RouterRoute,
+	SchemaRoute,
 	Server,
+	TrailingSlashMode,
+	TypedResponse,
+	UrlOptions,
+	UrlQueryValue,
+	WebOptions,
 } from "./types";
 
 /**
@@ -33,6 +85,27 @@ const Runtime = {
 	isCloudflareWorkers: typeof (globalThis as any).navigator !== "undefined" && (globalThis as any).navigator.userAgent === "Cloudflare-Workers",
 };
 
+/**
+ * Compiled regular expression for a path segment with parameter constraints or static affixes.
+ * `groups[i]` is the index of the capture group holding the value of parameter `names[i]`.
+ * @internal
+ */
+type SegmentMatcher = { regex: RegExp; names: string[]; groups: number[] };
+
+/**
+ * A parsed route path segment.
+ * - `static`: literal segment that must match exactly (e.g., "users")
+ * - `param`: a whole-segment parameter with an optional constraint and optional flag (e.g., ":id", ":id(\\d+)", ":lang?")
+ * - `composite`: one or more parameters mixed with static text (e.g., ":name.:ext", "v:version", "@:username")
+ * - `wildcard`: catch-all for the remaining segments, optionally named (e.g., "*", "*path")
+ * @internal
+ */
+type PathSegment =
+	| { type: "static"; value: string }
+	| { type: "param"; name: string; matcher?: SegmentMatcher; optional: boolean }
+	| { type: "composite"; matcher: SegmentMatcher }
+	| { type: "wildcard"; name: string };
+
 /**
  * A node in the trie data structure used for efficient route matching.
  * Each node represents a path segment and can have static children, parameter children, or wildcard children.
@@ -42,16 +115,24 @@ const Runtime = {
 class TrieNode<T extends Record<string, unknown> = Record<string, unknown>, B extends Record<string, unknown> = Record<string, unknown>> {
 	/** Map of static path segments to their corresponding child nodes */
 	children = new Map<string, TrieNode<T, B>>();
-	/** Parameter child node with its parameter name (e.g., for ":id" routes) */
-	paramChild?: { node: TrieNode<T, B>; name: string };
-	/** Wildcard child node (for "*" routes that match remaining path segments) */
-	wildcardChild?: TrieNode<T, B>;
+	/** Constrained and composite parameter children (e.g., for ":id(\\d+)" or ":name.:ext" routes), tried in registration order, with the matcher each route passing through was registered with */
+	patternChildren?: { node: TrieNode<T, B>; matcher: SegmentMatcher; users: Map<string, SegmentMatcher> }[];
+	/** Parameter child node with its parameter name (e.g., for ":id" routes) and the name each route passing through requested */
+	paramChild?: { node: TrieNode<T, B>; name: string; users: Map<string, string> };
+	/** Wildcard child node with its parameter name (for "*" or "*name" routes that match remaining path segments) and the name each route requested */
+	wildcardChild?: { node: TrieNode<T, B>; name: string; users: Map<string, string> };
 	/** Array of middleware handlers to execute when this node represents a complete route */
 	handlers?: Middleware<T, B>[];
 	/** HTTP method this node handles (GET, POST, etc.) */
 	method?: Method;
 	/** Unique identifier for tracking this route for removal */
 	routeId?: string;
+	/** Path pattern of the route this node completes */
+	routePath?: string;
+	/** Name of the route this node completes, if any */
+	routeName?: string;
+	/** Routes replaced by later registrations at this node, most recent last; restored when the replacing route is removed */
+	shadowed?: TrieRouteEntry<T, B>[];
 
 	/**
 	 * Creates a new TrieNode
@@ -60,26 +141,764 @@ class TrieNode<T extends Record<string, unknown> = Record<string, unknown>, B ex
 	constructor(public segment?: string) {}
 }
 
+/**
+ * The route fields stored on a trie node.
+ * @internal
+ */
+type TrieRouteEntry<T extends Record<string, unknown>, B extends Record<string, unknown>> = Pick<
+	TrieNode<T, B>,
+	"handlers" | "method" | "routeId" | "routePath" | "routeName"
+>;
+
+/**
+ * A host pattern with the router of the routes registered under it.
+ * @internal
+ */
+type HostEntry<T extends Record<string, unknown>, B extends Record<string, unknown>> = {
+	/** The host pattern as registered (e.g., ":tenant.example.com") */
+	pattern: string;
+	/** Compiled pattern capturing the host parameters */
+	matcher: SegmentMatcher;
+	/** Matching priority: 0 for exact hosts, 1 for hosts with parameters, 2 for wildcard hosts */
+	rank: number;
+	/** Router of the routes registered under the host */
+	router: Router<T, B>;
+};
+
+/**
+ * A sub-application mounted with `route()` or `host()`. Its error, not-found and method-not-allowed
+ * handlers are looked up at request time for the paths under its prefix.
+ * @internal
+ */
+type MountEntry<T extends Record<string, unknown>, B extends Record<string, unknown>> = {
+	/** Full path prefix the application is mounted at */
+	prefix: string;
+	/** Host pattern the application is mounted for, if any */
+	host?: string;
+	/** Number of segments in the prefix */
+	length: number;
+	/** Matches the leading URL segments against the prefix */
+	match: (urlSegments: string[]) => MatchResult;
+	/** Nesting depth, 1 for applications mounted directly on this one */
+	depth: number;
+	/** The mounted application */
+	app: Web<T, B, any, any>;
+};
+
+/**
+ * Middleware and route handlers resolved for a request method and route.
+ * @internal
+ */
+type RouteChain<T extends Record<string, unknown>, B extends Record<string, unknown>> = {
+	/** Matching middleware followed by the route handlers */
+	handlers: Middleware<T, B>[];
+	/** Parameters captured by the middleware paths */
+	params: Record<string, string>;
+	/** Runs the handlers in order, resolving to the response of the chain */
+	run: (ctx: Context<T, B>) => Promise<Response | undefined>;
+};
+
+/**
+ * An entry of the route match cache, specific to a method, host and path.
+ * @internal
+ */
+type CachedRouteMatch<T extends Record<string, unknown>, B extends Record<string, unknown>> = {
+	/** The matched route, or null if no route matches */
+	match: RouteMatch<T, B> | null;
+	/** The middleware chain of the matched route, once resolved for the first request */
+	chain?: RouteChain<T, B>;
+	/** The methods registered for the path if no route matches, once looked up for the first request */
+	allowed?: Method[];
+};
+
+/**
+ * Cached middleware of a request method and route.
+ * @internal
+ */
+type RouteChainEntry<T extends Record<string, unknown>, B extends Record<string, unknown>> = {
+	/** Middleware filtered by method and host, in execution order */
+	candidates: MiddlewareRoute<T, B>[];
+	/** True if all candidates are global, so the chain is the same for every path */
+	pathIndependent: boolean;
+	/** The chain, once resolved for a path-independent route */
+	chain?: RouteChain<T, B>;
+};
+
+/**
+ * A handler of the middleware chain of a request, recorded for the development error page.
+ * @internal
+ */
+type DevChainEntry = { name: string; kind: "middleware" | "handler"; ran: boolean };
+
+/**
+ * A stack frame of an error, with the surrounding source lines if the file could be read.
+ * @internal
+ */
+type DevStackFrame = { fn: string; file: string; line: number; column: number; source?: { start: number; lines: string[] } };
+
+/**
+ * Everything shown on the development error page.
+ * @internal
+ */
+type DevErrorReport = {
+	/** The thrown error followed by its causes */
+	errors: { name: string; message: string; frames: DevStackFrame[] }[];
+	request: { method: string; url: string; headers: Record<string, string>; clientIp: string | null; runtime: string };
+	route: { path: string; id: string | null; name: string | null; params: Record<string, string> } | null;
+	middleware: DevChainEntry[];
+	state: unknown;
+};
+
+/** Request headers redacted on the development error page by default, the same as the logger's `excludeHeaders` */
+const DEFAULT_REDACTED_HEADERS = ["authorization", "cookie", "set-cookie"];
+
+/** Pseudo-method under which routes registered with `all()` are stored */
+const ALL_METHODS = "ALL";
+
 /** Frozen empty object used as default params to avoid object allocation */
 const EMPTY_PARAMS = Object.freeze({});
 
 /** Empty URLSearchParams instance used as default query params */
 const EMPTY_SEARCH_PARAMS = new URLSearchParams();
 
+/** `next()` passed to the last handler of a chain, which has nothing left to run */
+const NOOP_NEXT: Next = async () => {};
+
+/** Request information of `handle()` and of `fetch()` calls without bindings, shared as it never changes */
+const FETCH_INFO: RequestInfo<any> = Object.freeze({ runtime: "fetch" });
+
+/** Reason phrases of common error statuses, used as default error messages */
+const STATUS_TEXT: Record<number, string> = {
+	400: "Bad Request",
+	401: "Unauthorized",
+	402: "Payment Required",
+	403: "Forbidden",
+	404: "Not Found",
+	405: "Method Not Allowed",
+	406: "Not Acceptable",
+	408: "Request Timeout",
+	409: "Conflict",
+	410: "Gone",
+	411: "Length Required",
+	412: "Precondition Failed",
+	413: "Content Too Large",
+	414: "URI Too Long",
+	415: "Unsupported Media Type",
+	416: "Range Not Satisfiable",
+	417: "Expectation Failed",
+	418: "I'm a Teapot",
+	421: "Misdirected Request",
+	422: "Unprocessable Content",
+	423: "Locked",
+	424: "Failed Dependency",
+	425: "Too Early",
+	426: "Upgrade Required",
+	428: "Precondition Required",
+	429: "Too Many Requests",
+	431: "Request Header Fields Too Large",
+	451: "Unavailable For Legal Reasons",
+	500: "Internal Server Error",
+	501: "Not Implemented",
+	502: "Bad Gateway",
+	503: "Service Unavailable",
+	504: "Gateway Timeout",
+	505: "HTTP Version Not Supported",
+	507: "Insufficient Storage",
+	508: "Loop Detected",
+	511: "Network Authentication Required",
+};
+
+/**
+ * Error carrying an HTTP status, turned into a response by the request pipeline when thrown from
+ * middleware, handlers or hooks. Error handlers registered with `app.onError()`, globally or for
+ * `HTTPException` (or a subclass), take precedence over the automatic response from `getResponse()`.
+ *
+ * @example
+ * ```typescript
+ * app.get('/admin', (ctx) => {
+ *   if (!ctx.get('user')) {
+ *     throw new HTTPException(401, { message: 'Login required', headers: { 'WWW-Authenticate': 'Bearer' } });
+ *   }
+ *   return ctx.text('Welcome');
+ * });
+ * // GET /admin → 401 "Login required"
+ * ```
+ */
+export class HTTPException extends Error {
+	/** HTTP status of the response */
+	readonly status: number;
+	/** Headers to add to the response */
+	readonly headers?: HeadersInit;
+
+	/**
+	 * @param status - HTTP status of the response (default: 500)
+	 * @param options - Message, response headers and cause
+	 */
+	constructor(status = 500, options: HTTPExceptionOptions = {}) {
+		super(options.message ?? STATUS_TEXT[status] ?? `HTTP Error ${status}`, options.cause === undefined ? undefined : { cause: options.cause });
+		this.name = "HTTPException";
+		this.status = status;
+		this.headers = options.headers;
+	}
+
+	/**
+	 * Creates the response for this exception: the message as plain text with the status and headers.
+	 *
+	 * @returns The response to send to the client
+	 */
+	getResponse(): Response {
+		const headers = new Headers(this.headers);
+		if (!headers.has("Content-Type")) headers.set("Content-Type", "text/plain");
+		return new Response(this.message, { status: this.status, headers });
+	}
+}
+
+/**
+ * Router storing routes in a prefix tree and matching request paths segment by segment.
+ * Static segments take priority over constrained and composite parameters, then plain parameters,
+ * then wildcards; the matcher backtracks when a branch cannot complete the path.
+ *
+ * @template T - The type of the context state object
+ *
+ * @example
+ * ```typescript
+ * const app = new Web({ router: 'trie' });
+ * ```
+ */
+export class TrieRouter<T extends Record<string, unknown> = Record<string, unknown>, B extends Record<string, unknown> = Record<string, unknown>>
+	implements Router<T, B>
+{
+	readonly name = "trie";
+	/** Trie roots for each HTTP method, created lazily on first registration */
+	private roots = new Map<Method, TrieNode<T, B>>();
+	/** Added routes by ID, used for removal */
+	private routes = new Map<string, RouterRoute<T, B>>();
+	/** Whether static segments are matched case-sensitively */
+	private readonly caseSensitive: boolean;
+
+	/**
+	 * Creates a new TrieRouter
+	 * @param options - Router options
+	 */
+	constructor(options: RouterOptions = {}) {
+		this.caseSensitive = options.caseSensitive ?? true;
+	}
+
+	add(route: RouterRoute<T, B>): RouterConflict[] {
+		const { id, method, path, handlers, name, host } = route;
+		const { segments, minLength } = parsePathPattern(route.segments, this.caseSensitive);
+		const conflicts = getWildcardConflicts(route, segments);
+
+		let root = this.roots.get(method);
+		if (!root) {
+			root = new TrieNode();
+			this.roots.set(method, root);
+		}
+
+		const onNameConflict = (existing: string, incoming: string, existingId: string) => {
+			conflicts.push(createParamNameConflict(route, existing, incoming, existingId));
+		};
+
+		// Optional trailing parameters register the same handlers for every accepted length
+		for (let length = minLength; length <= segments.length; length++) {
+			const node = insertTrieNode(root, segments, length, id, onNameConflict);
+
+			if (node.handlers && node.routeId !== id) {
+				conflicts.push(createOverrideConflict(route, node.routePath!, node.routeId!, length));
+				if (!node.shadowed) node.shadowed = [];
+				node.shadowed.push(getTrieRouteEntry(node));
+			}
+
+			node.handlers = handlers;
+			node.method = method;
+			node.routeId = id;
+			node.routePath = path;
+			node.routeName = name;
+		}
+
+		this.routes.set(id, route);
+		return uniqueConflicts(conflicts);
+	}
+
+	/**
+	 * Removes a route in place. Where the route had replaced an earlier route, the earlier route
+	 * is restored; nodes left without routes or children are pruned. Parameter nodes named by the
+	 * route but shared with other routes take the name of the earliest remaining route.
+	 *
+	 * @returns Name conflicts between the remaining routes at the renamed nodes
+	 */
+	remove(id: string): RouterConflict[] {
+		const route = this.routes.get(id);
+		if (!route) return [];
+		this.routes.delete(id);
+
+		const root = this.roots.get(route.method);
+		if (!root) return [];
+
+		const { segments, minLength } = parsePathPattern(route.segments, this.caseSensitive);
+		const conflicts: RouterConflict[] = [];
+
+		const trail = findTrieTrail(root, segments, segments.length);
+		if (trail) {
+			releaseTrieNames(trail, id, (userId, existing, incoming, existingId) => {
+				conflicts.push({ ...createParamNameConflict(this.routes.get(userId)!, existing, incoming, existingId), routeId: userId });
+			});
+		}
+
+		for (let length = segments.length; length >= minLength; length--) {
+			const trail = findTrieTrail(root, segments, length);
+			if (!trail) continue;
+
+			const node = trail[trail.length - 1]!;
+			if (node.routeId === id) {
+				const previous = node.shadowed?.pop();
+				node.handlers = previous?.handlers;
+				node.method = previous?.method;
+				node.routeId = previous?.routeId;
+				node.routePath = previous?.routePath;
+				node.routeName = previous?.routeName;
+			} else if (node.shadowed) {
+				node.shadowed = node.shadowed.filter((entry) => entry.routeId !== id);
+			}
+
+			pruneTrieTrail(trail);
+		}
+
+		if (isEmptyTrieNode(root)) {
+			this.roots.delete(route.method);
+		}
+		return uniqueConflicts(conflicts);
+	}
+
+	match(method: Method, segments: string[]): RouterMatch<T, B> | null {
+		const root = this.roots.get(method);
+		if (!root) return null;
+
+		const keys = this.caseSensitive ? segments : segments.map((segment) => segment.toLowerCase());
+		const params: Record<string, string> = {};
+		const node = matchTrieNode(root, segments, keys, 0, params);
+		if (!node) return null;
+
+		return {
+			handlers: node.handlers!,
+			params: Object.keys(params).length === 0 ? EMPTY_PARAMS : params,
+			routeId: node.routeId!,
+			routePath: node.routePath!,
+			routeName: node.routeName,
+		};
+	}
+}
+
+/**
+ * Router looking up fully static paths in a hash map, with a trie for the routes that have parameters
+ * or wildcards. Since static segments always take priority, a static hit never needs the trie.
+ *
+ * @template T - The type of the context state object
+ *
+ * @example
+ * ```typescript
+ * const app = new Web({ router: 'static' });
+ * app.get('/health', handler); // hash map
+ * app.get('/users/:id', handler); // trie
+ * ```
+ */
+export class StaticRouter<T extends Record<string, unknown> = Record<string, unknown>, B extends Record<string, unknown> = Record<string, unknown>>
+	implements Router<T, B>
+{
+	readonly name = "static";
+	/** Static routes by method and joined path, the active route last */
+	private staticRoutes = new Map<Method, Map<string, RouterMatch<T, B>[]>>();
+	/** Method and joined paths of each route in the hash map, used for removal */
+	private staticKeys = new Map<string, { method: Method; keys: string[] }>();
+	/** Router for the routes with parameters or wildcards */
+	private dynamic: TrieRouter<T, B>;
+	/** Whether static segments are matched case-sensitively */
+	private readonly caseSensitive: boolean;
+
+	/**
+	 * Creates a new StaticRouter
+	 * @param options - Router options
+	 */
+	constructor(options: RouterOptions = {}) {
+		this.caseSensitive = options.caseSensitive ?? true;
+		this.dynamic = new TrieRouter(options);
+	}
+
+	add(route: RouterRoute<T, B>): RouterConflict[] {
+		const { id, method, path, handlers, name } = route;
+		const { segments, minLength } = parsePathPattern(route.segments, this.caseSensitive);
+		const conflicts: RouterConflict[] = [];
+		const keys: string[] = [];
+
+		// Routes ending in optional parameters also match their static prefix, which must take part in the lookup
+		let staticLength = 0;
+		while (staticLength < segments.length && segments[staticLength]!.type === "static") staticLength++;
+
+		let byPath = this.staticRoutes.get(method);
+		for (let length = minLength; length <= staticLength; length++) {
+			// Static values are already lowercased for case-insensitive matching
+			const key = joinSegmentKeys(segments.slice(0, length).map((segment) => (segment as { value: string }).value));
+			if (!byPath) {
+				byPath = new Map();
+				this.staticRoutes.set(method, byPath);
+			}
+			let entries = byPath.get(key);
+			if (!entries) {
+				entries = [];
+				byPath.set(key, entries);
+			}
+
+			const active = entries[entries.length - 1];
+			if (active) conflicts.push(createOverrideConflict(route, active.routePath, active.routeId, length));
+
+			entries.push({ handlers, params: EMPTY_PARAMS, routeId: id, routePath: path, routeName: name });
+			keys.push(key);
+		}
+
+		if (keys.length > 0) this.staticKeys.set(id, { method, keys });
+		if (staticLength < segments.length) conflicts.push(...this.dynamic.add(route));
+		return uniqueConflicts(conflicts);
+	}
+
+	remove(id: string): RouterConflict[] {
+		const conflicts = this.dynamic.remove(id);
+
+		const location = this.staticKeys.get(id);
+		if (!location) return conflicts;
+		this.staticKeys.delete(id);
+
+		const byPath = this.staticRoutes.get(location.method)!;
+		for (const key of location.keys) {
+			const entries = byPath.get(key)!.filter((entry) => entry.routeId !== id);
+			if (entries.length > 0) {
+				byPath.set(key, entries);
+			} else {
+				byPath.delete(key);
+			}
+		}
+		if (byPath.size === 0) this.staticRoutes.delete(location.method);
+		return conflicts;
+	}
+
+	match(method: Method, segments: string[]): RouterMatch<T, B> | null {
+		const byPath = this.staticRoutes.get(method);
+		if (byPath) {
+			const entries = byPath.get(joinSegmentKeys(this.caseSensitive ? segments : segments.map((segment) => segment.toLowerCase())));
+			if (entries) return entries[entries.length - 1]!;
+		}
+		return this.dynamic.match(method, segments);
+	}
+}
+
+/**
+ * A route variant compiled into a {@link RegExpRouter}, one per accepted path length.
+ * @internal
+ */
+type RegExpVariant<T extends Record<string, unknown>, B extends Record<string, unknown>> = {
+	/** Matched route details, shared by all variants of a route */
+	route: Omit<RouterMatch<T, B>, "params">;
+	/** Parsed segments, ending at the wildcard if there is one */
+	segments: PathSegment[];
+	/** Priority of each segment: 0 static, 1 constrained or composite, 2 parameter, 3 wildcard */
+	ranks: number[];
+	/** Regular expression source matching the joined path segments */
+	source: string;
+	/** Anchored expression for this variant alone, compiled on first use */
+	regex?: RegExp;
+};
+
+/**
+ * Routes of one method compiled into a single regular expression.
+ * @internal
+ */
+type CompiledRegExpRoutes<T extends Record<string, unknown>, B extends Record<string, unknown>> = {
+	/** Alternation of all active variants in priority order, each ending with an empty marker group */
+	regex: RegExp;
+	/** Active variants in priority order */
+	variants: RegExpVariant<T, B>[];
+	/** Variant index for each marker group index */
+	markers: number[];
+};
+
+/**
+ * Router compiling all routes of a method into a single regular expression, so a lookup is one
+ * `exec()` call. Routes are ordered with the same priorities as the trie, so both routers pick the
+ * same route. The expression is rebuilt lazily after routes are added or removed.
+ *
+ * Unlike the trie, every route keeps its own parameter names, so no `param-name` conflicts occur.
+ *
+ * @template T - The type of the context state object
+ *
+ * @example
+ * ```typescript
+ * const app = new Web({ router: 'regexp' });
+ * ```
+ */
+export class RegExpRouter<T extends Record<string, unknown> = Record<string, unknown>, B extends Record<string, unknown> = Record<string, unknown>>
+	implements Router<T, B>
+{
+	readonly name = "regexp";
+	/** Variants by method and segment key, the active variant last, in registration order */
+	private variants = new Map<Method, Map<string, RegExpVariant<T, B>[]>>();
+	/** Added routes by ID, used for removal */
+	private routes = new Map<string, { method: Method; keys: string[] }>();
+	/** Compiled expressions by method, cleared when the routes of the method change */
+	private compiled = new Map<Method, CompiledRegExpRoutes<T, B> | null>();
+	/** Whether static segments are matched case-sensitively */
+	private readonly caseSensitive: boolean;
+
+	/**
+	 * Creates a new RegExpRouter
+	 * @param options - Router options
+	 */
+	constructor(options: RouterOptions = {}) {
+		this.caseSensitive = options.caseSensitive ?? true;
+	}
+
+	add(route: RouterRoute<T, B>): RouterConflict[] {
+		const { id, method, path, handlers, name } = route;
+		const parsed = parsePathPattern(route.segments, this.caseSensitive);
+		const conflicts = getWildcardConflicts(route, parsed.segments);
+		const wildcardIndex = parsed.segments.findIndex((segment) => segment.type === "wildcard");
+		// Segments after a wildcard are never reached, as in the trie
+		const segments = wildcardIndex === -1 ? parsed.segments : parsed.segments.slice(0, wildcardIndex + 1);
+		const minLength = Math.min(parsed.minLength, segments.length);
+		const matched = { handlers, routeId: id, routePath: path, routeName: name };
+		const keys: string[] = [];
+
+		let byKey = this.variants.get(method);
+		if (!byKey) {
+			byKey = new Map();
+			this.variants.set(method, byKey);
+		}
+
+		for (let length = minLength; length <= segments.length; length++) {
+			const variantSegments = segments.slice(0, length);
+			const key = variantSegments.map(getSegmentKey).join("/");
+			let entries = byKey.get(key);
+			if (!entries) {
+				entries = [];
+				byKey.set(key, entries);
+			}
+
+			const active = entries[entries.length - 1];
+			if (active) {
+				conflicts.push(createOverrideConflict(route, active.route.routePath, active.route.routeId, length));
+			}
+
+			entries.push({
+				route: matched,
+				segments: variantSegments,
+				ranks: variantSegments.map(getSegmentRank),
+				source: variantSegments.map(getSegmentSource).join(""),
+			});
+			keys.push(key);
+		}
+
+		this.routes.set(id, { method, keys });
+		this.compiled.delete(method);
+		return uniqueConflicts(conflicts);
+	}
+
+	remove(id: string) {
+		const route = this.routes.get(id);
+		if (!route) return;
+		this.routes.delete(id);
+
+		const byKey = this.variants.get(route.method)!;
+		for (const key of route.keys) {
+			const entries = byKey.get(key)!.filter((variant) => variant.route.routeId !== id);
+			if (entries.length > 0) {
+				byKey.set(key, entries);
+			} else {
+				byKey.delete(key);
+			}
+		}
+		if (byKey.size === 0) this.variants.delete(route.method);
+		this.compiled.delete(route.method);
+	}
+
+	match(method: Method, segments: string[]): RouterMatch<T, B> | null {
+		const compiled = this.compile(method);
+		if (!compiled) return null;
+
+		const path = joinSegmentKeys(segments);
+		const match = compiled.regex.exec(path);
+		if (!match) return null;
+
+		// Parameters never capture empty strings, so the first empty group is the marker of the matched variant
+		const marker = match.indexOf("", 1);
+		const index = compiled.markers[marker]!;
+		const variant = compiled.variants[index]!;
+		const params = resolveRegExpParams(variant, match.slice(marker - countCaptures(variant), marker));
+		if (params) return { ...variant.route, params };
+
+		// The combined expression does not check constraints; continue with the variants after the rejected one
+		for (let i = index + 1; i < compiled.variants.length; i++) {
+			const next = compiled.variants[i]!;
+			if (!next.regex) next.regex = new RegExp(`^${next.source}$`, this.caseSensitive ? "" : "i");
+			const nextMatch = next.regex.exec(path);
+			if (!nextMatch) continue;
+			const nextParams = resolveRegExpParams(next, nextMatch.slice(1));
+			if (nextParams) return { ...next.route, params: nextParams };
+		}
+		return null;
+	}
+
+	/**
+	 * Compiles the active variants of a method into a single expression, ordered by segment priority.
+	 *
+	 * @param method - HTTP method
+	 * @returns The compiled routes, or null if the method has no routes
+	 * @private
+	 */
+	private compile(method: Method): CompiledRegExpRoutes<T, B> | null {
+		const cached = this.compiled.get(method);
+		if (cached !== undefined) return cached;
+
+		const byKey = this.variants.get(method);
+		if (!byKey) {
+			this.compiled.set(method, null);
+			return null;
+		}
+
+		// Array.prototype.sort is stable, so registration order decides between variants of equal priority
+		const variants = [...byKey.values()].map((entries) => entries[entries.length - 1]!).sort((a, b) => compareRanks(a.ranks, b.ranks));
+		const markers: number[] = [];
+		const sources: string[] = [];
+		let group = 1;
+
+		variants.forEach((variant, index) => {
+			group += countCaptures(variant);
+			markers[group] = index;
+			group++;
+			sources.push(`${variant.source}()`);
+		});
+
+		const compiled = { regex: new RegExp(`^(?:${sources.join("|")})$`, this.caseSensitive ? "" : "i"), variants, markers };
+		this.compiled.set(method, compiled);
+		return compiled;
+	}
+}
+
+/**
+ * Router choosing an implementation once registration has settled. Routes are added to a trie
+ * until the first lookup, which selects the router that fits the registered routes best:
+ * - only static paths: {@link StaticRouter}
+ * - mostly dynamic paths without constrained or composite parameters: {@link RegExpRouter}
+ * - a mix of static and dynamic paths: {@link StaticRouter}
+ * - otherwise the trie is kept
+ *
+ * Routes added or removed after the selection go to the selected router.
+ *
+ * @template T - The type of the context state object
+ *
+ * @example
+ * ```typescript
+ * const router = new SmartRouter();
+ * const app = new Web({ router: () => router });
+ * app.get('/health', handler);
+ * await app.handle(new Request('http://localhost/health'));
+ * router.selected; // "static"
+ * ```
+ */
+export class SmartRouter<T extends Record<string, unknown> = Record<string, unknown>, B extends Record<string, unknown> = Record<string, unknown>>
+	implements Router<T, B>
+{
+	readonly name = "smart";
+	/** The router currently holding the routes */
+	private router: Router<T, B>;
+	/** Routes added before the selection, in registration order; undefined once selected */
+	private pending?: Map<string, RouterRoute<T, B>> = new Map();
+
+	/**
+	 * Creates a new SmartRouter
+	 * @param options - Router options
+	 */
+	constructor(private readonly options: RouterOptions = {}) {
+		this.router = new TrieRouter(options);
+	}
+
+	/** Name of the router in use ("trie" until the selection) */
+	get selected(): string {
+		return this.router.name;
+	}
+
+	add(route: RouterRoute<T, B>): RouterConflict[] {
+		this.pending?.set(route.id, route);
+		return this.router.add(route);
+	}
+
+	remove(id: string): RouterConflict[] | void {
+		this.pending?.delete(id);
+		return this.router.remove(id);
+	}
+
+	match(method: Method, segments: string[]): RouterMatch<T, B> | null {
+		if (this.pending && this.pending.size > 0) this.select(this.pending);
+		return this.router.match(method, segments);
+	}
+
+	/**
+	 * Selects the router for the registered routes and moves the routes into it.
+	 *
+	 * @param routes - The registered routes
+	 * @private
+	 */
+	private select(routes: Map<string, RouterRoute<T, B>>) {
+		let dynamicCount = 0;
+		let hasPatterns = false;
+
+		for (const route of routes.values()) {
+			const { segments } = parsePathPattern(route.segments, this.options.caseSensitive ?? true);
+			if (segments.some((segment) => segment.type !== "static")) dynamicCount++;
+			if (segments.some((segment) => getSegmentRank(segment) === 1)) hasPatterns = true;
+		}
+
+		let router: Router<T, B> | undefined;
+		if (dynamicCount === 0) {
+			router = new StaticRouter(this.options);
+		} else if (!hasPatterns && dynamicCount * 2 > routes.size) {
+			router = new RegExpRouter(this.options);
+		} else if (dynamicCount < routes.size) {
+			router = new StaticRouter(this.options);
+		}
+
+		this.pending = undefined;
+		if (!router) return;
+
+		// Conflicts were already reported when the routes were added to the trie
+		for (const route of routes.values()) {
+			router.add(route);
+		}
+		this.router = router;
+	}
+}
+
+/** Factories of the built-in routers by name */
+const BUILT_IN_ROUTERS: Record<RouterName, RouterFactory> = {
+	trie: (options) => new TrieRouter(options),
+	static: (options) => new StaticRouter(options),
+	regexp: (options) => new RegExpRouter(options),
+	smart: (options) => new SmartRouter(options),
+};
+
 /**
  * High-performance web framework with trie-based routing, middleware support, and extensive caching.
  *
  * Features:
- * - Fast trie-based route matching
+ * - Fast route matching with pluggable routers (trie by default)
  * - Middleware support with method and path filtering
  * - Route scoping and sub-applications
  * - Built-in caching for improved performance
- * - Support for all standard HTTP methods
+ * - Support for all standard HTTP methods, custom extension methods and catch-all routes
  * - Parameter extraction and wildcard routes
  * - Dynamic route and middleware removal
  * - Custom error and 404 handlers
  *
  * @template T - The type of the context state object that will be shared across middleware
+ * @template P - Route parameters provided by the path prefix the application is mounted at
+ * @template S - Schema of the routes registered through chained calls, used by `createClient()`
  *
  * @example
  * ```typescript
@@ -100,11 +919,18 @@ const EMPTY_SEARCH_PARAMS = new URLSearchParams();
  * });
  * ```
  */
-export class Web<T extends Record<string, unknown> = Record<string, unknown>, B extends Record<string, unknown> = Record<string, unknown>> {
+export class Web<
+	T extends Record<string, unknown> = Record<string, unknown>,
+	B extends Record<string, unknown> = Record<string, unknown>,
+	P extends Params = {},
+	S extends RouteSchema = {},
+> {
+	/** Type-only record of the registered routes and their response types, used by `createClient()` */
+	declare readonly "~schema"?: S;
 	/** Array of all registered routes */
 	private routes: (Route<T, B> & { id: string })[] = [];
-	/** Array of all registered middleware */
-	private middlewares: (MiddlewareRoute<T, B> & { id: string })[] = [];
+	/** Array of all registered middleware, with the mount depth of the application that registered it */
+	private middlewares: (MiddlewareRoute<T, B> & { id: string; depth?: number })[] = [];
 	/** Cache for method-specific middleware to avoid filtering on each request */
 	private methodMiddlewareCache = new Map<Method, MiddlewareRoute<T, B>[]>();
 	/** Cache for parsed URLs to avoid repeated parsing */
@@ -113,29 +939,78 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 	private segmentCache = new Map<string, string[]>();
 	/** Cache for compiled route matchers */
 	private matcherCache = new Map<string, (urlSegments: string[]) => MatchResult>();
-	/** Cache for frequently matched routes */
-	private routeMatchCache = new Map<string, { handlers?: Middleware<T, B>[]; params: Record<string, string> } | null>();
+	/** Cache for frequently matched routes, with the middleware chain resolved for each */
+	private routeMatchCache = new Map<string, CachedRouteMatch<T, B>>();
+	/** Route patterns by route name for URL generation */
+	private namedRoutes = new Map<string, string>();
+	/** Conflicts detected between the currently registered routes */
+	private routeConflicts: RouteConflict[] = [];
+	/** IDs of the routes involved in each conflict, used to drop conflicts when a route is removed */
+	private conflictRouteIds = new WeakMap<RouteConflict, string[]>();
+	/** Whether static path segments are matched case-sensitively */
+	private readonly caseSensitive: boolean;
+	/** How trailing and duplicate slashes are handled */
+	private readonly trailingSlash: TrailingSlashMode;
 	/** Counter for generating unique IDs */
 	private idCounter = 0;
 	/** WebSocket handler configuration for Bun runtime */
 	private bunWebSocket?: BunWebSocketHandler;
 
-	/** Trie roots for each HTTP method for fast route matching */
-	private roots: Record<Method, TrieNode<T, B>> = {
-		GET: new TrieNode(),
-		POST: new TrieNode(),
-		PUT: new TrieNode(),
-		DELETE: new TrieNode(),
-		PATCH: new TrieNode(),
-		OPTIONS: new TrieNode(),
-		HEAD: new TrieNode(),
+	/** Creates a router instance of the configured implementation */
+	private readonly createRouter: () => Router<T, B>;
+	/** Router of the routes registered without a host */
+	private router: Router<T, B>;
+	/** Cache of the methods registered per host pattern ("" for routes without a host) */
+	private routeMethodsCache = new Map<string, Method[]>();
+	/** Middleware chains resolved per request method and route */
+	private routeChainCache = new Map<string, RouteChainEntry<T, B>>();
+	/** Handler answering OPTIONS requests for paths without an OPTIONS route */
+	private readonly autoOptionsHandler: Middleware<T, B> = async (ctx) => {
+		// CORS headers will be added by the CORS middleware
+		const allowed = this.getAllowedMethods(this.parseUrl(ctx.req.url).pathname, this.getRequestHost(ctx.req));
+		return new Response(null, { status: 204, headers: { Allow: allowed.join(", ") } });
 	};
+	/** Host patterns with their own routers, sorted by matching priority */
+	private hosts: HostEntry<T, B>[] = [];
+	/** Mounted sub-applications, most specific prefix first */
+	private mounts: MountEntry<T, B>[] = [];
+	/** True once this application has been mounted into another one */
+	private mounted = false;
+	/** Nesting depth of `batch()` calls; while positive, trie updates and cache invalidation are deferred */
+	private batchDepth = 0;
+	/** Lower-cased headers redacted on the development error page, set if development mode is enabled */
+	private readonly devRedactHeaders?: Set<string>;
 
 	/**
 	 * Creates a new Web framework instance
+	 *
+	 * @param config - Application options
+	 *
+	 * @example
+	 * ```typescript
+	 * const app = new Web();
+	 * const strictApp = new Web({ strict: true, caseSensitive: false, trailingSlash: 'redirect' });
+	 * ```
 	 */
-	constructor() {
+	constructor(private readonly config: WebOptions = {}) {
+		this.caseSensitive = config.caseSensitive ?? true;
+		this.trailingSlash = config.trailingSlash ?? "ignore";
+		const routerFactory = resolveRouterFactory(config.router);
+		this.createRouter = () => routerFactory({ caseSensitive: this.caseSensitive });
+		this.router = this.createRouter();
+		if (config.dev === true || (typeof config.dev === "object" && config.dev !== null)) {
+			const { redactHeaders = DEFAULT_REDACTED_HEADERS, allowInProduction = false } = config.dev === true ? ({} as DevOptions) : config.dev;
+			const nodeEnv = readNodeEnv();
+			if (allowInProduction === true || (nodeEnv !== undefined && nodeEnv !== "production")) {
+				this.devRedactHeaders = new Set(redactHeaders.map((name) => name.toLowerCase()));
+			} else if (nodeEnv === undefined) {
+				console.warn('Ignoring the "dev" option because NODE_ENV is not set; pass { allowInProduction: true } to enable it anyway');
+			} else {
+				console.warn('Ignoring the "dev" option because NODE_ENV is "production"');
+			}
+		}
 		this.handle = this.handle.bind(this);
+		this.fetch = this.fetch.bind(this);
 		this.handleBun = this.handleBun.bind(this);
 		this.handleCloudflare = this.handleCloudflare.bind(this);
 	}
@@ -148,85 +1023,242 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 		return `${Date.now()}-${++this.idCounter}`;
 	}
 
+	/**
+	 * Throws if this application has been mounted. Mounting copies routes and middleware into the
+	 * parent, so later changes would silently not apply there.
+	 *
+	 * @param action - Description of the refused change, used in the error message
+	 * @throws {Error} If the application has been mounted with `route()` or `host()`
+	 * @private
+	 */
+	private assertNotMounted(action: string) {
+		if (this.mounted) {
+			throw new Error(`Cannot ${action} after the application has been mounted; configure it before calling route() or host()`);
+		}
+	}
+
 	/**
 	 * Clears all internal caches. Called automatically when routes or middleware are modified.
 	 * @private
 	 */
 	private clearCaches() {
+		if (this.batchDepth > 0) return;
 		this.methodMiddlewareCache.clear();
 		this.urlCache.clear();
 		this.segmentCache.clear();
 		this.routeMatchCache.clear();
+		this.routeMethodsCache.clear();
+		this.routeChainCache.clear();
 	}
 
 	/**
-	 * Rebuilds the trie structure from scratch. Used after route removal.
+	 * Rebuilds the routers from scratch into new instances, so the previous routers stay intact
+	 * until the rebuild is complete. Used by `clear()` and `batch()`.
 	 * @private
 	 */
-	private rebuildTrie() {
-		// Clear all trie roots
-		this.roots = {
-			GET: new TrieNode(),
-			POST: new TrieNode(),
-			PUT: new TrieNode(),
-			DELETE: new TrieNode(),
-			PATCH: new TrieNode(),
-			OPTIONS: new TrieNode(),
-			HEAD: new TrieNode(),
-		};
+	private rebuildRouter() {
+		// Replace all routers, route names and conflicts
+		this.router = this.createRouter();
+		this.hosts = [];
+		this.namedRoutes = new Map();
+		this.routeConflicts = [];
 
 		// Rebuild from remaining routes
 		for (const route of this.routes) {
-			this.addRouteToTrie(route.method, route.path, route.handlers, route.id);
+			this.routeConflicts.push(...this.addRouteToRouter(route));
+			if (route.name) this.namedRoutes.set(route.name, route.path);
 		}
 	}
 
 	/**
-	 * Adds a route to the trie structure (internal method)
+	 * Gets the router for routes registered under a host pattern, or the default router
+	 * for routes without a host. Host entries are created on first use.
+	 *
+	 * @param host - Optional host pattern
+	 * @returns The router
 	 * @private
 	 */
-	private addRouteToTrie(method: Method, path: string, handlers: Middleware<T, B>[], routeId: string) {
-		const segments = this.getPathSegments(path);
-		let node = this.roots[method];
+	private getRouter(host?: string): Router<T, B> {
+		if (host === undefined) return this.router;
+
+		let entry = this.hosts.find((h) => h.pattern === host);
+		if (!entry) {
+			entry = { pattern: host, ...compileHostPattern(host), router: this.createRouter() };
+			this.hosts.push(entry);
+			// Stable sort keeps registration order among hosts of the same rank
+			this.hosts.sort((a, b) => a.rank - b.rank);
+		}
+		return entry.router;
+	}
 
-		for (const segment of segments) {
-			if (segment === "*") {
-				if (!node.wildcardChild) {
-					node.wildcardChild = new TrieNode("*");
-				}
-				node = node.wildcardChild;
-				break;
-			} else if (segment.startsWith(":")) {
-				const paramName = segment.slice(1);
-				if (!node.paramChild) {
-					node.paramChild = {
-						node: new TrieNode(segment),
-						name: paramName,
-					};
-				}
-				node = node.paramChild.node;
-			} else {
-				if (!node.children.has(segment)) {
-					node.children.set(segment, new TrieNode(segment));
-				}
-				node = node.children.get(segment)!;
+	/**
+	 * Adds a route to the router of its host.
+	 *
+	 * @param route - The route to add
+	 * @returns Conflicts between the route and the routes already registered
+	 * @private
+	 */
+	private addRouteToRouter(route: Route<T, B> & { id: string }): RouteConflict[] {
+		const { id, method, path, handlers, name, host } = route;
+		const conflicts = this.getRouter(host).add({ id, method, path, segments: this.getPathSegments(path), handlers, name, host });
+
+		return conflicts.map(({ existingId, ...conflict }) => {
+			this.conflictRouteIds.set(conflict, existingId === undefined ? [id] : [id, existingId]);
+			return conflict;
+		});
+	}
+
+	/**
+	 * Removes a route from the router of its host, dropping the host entry once it has no routes left.
+	 *
+	 * @param route - The route to remove
+	 * @returns Conflicts between the remaining routes reported by the router on removal
+	 * @private
+	 */
+	private removeRouteFromRouter(route: Route<T, B> & { id: string }): RouteConflict[] {
+		const { id, host } = route;
+		const conflicts = this.getRouter(host).remove(id) ?? [];
+
+		if (host !== undefined && !this.routes.some((r) => r.host === host && r.id !== id)) {
+			this.hosts = this.hosts.filter((entry) => entry.pattern !== host);
+		}
+
+		return conflicts.map(({ routeId, existingId, ...conflict }) => {
+			this.conflictRouteIds.set(conflict, existingId === undefined ? [routeId!] : [routeId!, existingId]);
+			return conflict;
+		});
+	}
+
+	/**
+	 * Lists the methods of the routes registered under a host pattern (or without a host).
+	 *
+	 * @param host - Optional host pattern
+	 * @returns The registered methods
+	 * @private
+	 */
+	private getRouteMethods(host?: string): Method[] {
+		const cacheKey = host ?? "";
+		let methods = this.routeMethodsCache.get(cacheKey);
+		if (!methods) {
+			methods = [...new Set(this.routes.filter((route) => route.host === host).map((route) => route.method))];
+			this.routeMethodsCache.set(cacheKey, methods);
+		}
+		return methods;
+	}
+
+	/**
+	 * Finds the highest-priority host pattern matching a request host.
+	 * The port is ignored and hosts are compared case-insensitively.
+	 *
+	 * @param host - The request host (e.g., "acme.example.com:8080")
+	 * @returns The matching host entry with the captured host parameters, or null if none matches
+	 * @private
+	 */
+	private matchHost(host: string): { entry: HostEntry<T, B>; params: Record<string, string> } | null {
+		const hostname = host.toLowerCase().replace(/:\d+$/, "");
+
+		for (const entry of this.hosts) {
+			const match = entry.matcher.regex.exec(hostname);
+			if (!match) continue;
+
+			const values = extractSegmentValues(entry.matcher, match);
+			const params: Record<string, string> = {};
+			for (let i = 0; i < values.length; i++) {
+				params[entry.matcher.names[i]!] = values[i]!;
 			}
+			return { entry, params };
+		}
+		return null;
+	}
+
+	/**
+	 * Reads the host of a request for host-based routing.
+	 *
+	 * @param req - The incoming Request object
+	 * @returns The `Host` header (or URL host), or undefined if no host-based routes are registered
+	 * @private
+	 */
+	private getRequestHost(req: Request): string | undefined {
+		if (this.hosts.length === 0) return undefined;
+		return req.headers.get("host") ?? new URL(req.url).host;
+	}
+
+	/**
+	 * Records route conflicts detected at registration, warning about them or, in strict mode,
+	 * removing the offending route from the trie again and throwing.
+	 *
+	 * @param conflicts - Conflicts detected while adding the route
+	 * @param route - The route that was added
+	 * @throws {Error} In strict mode, if there are any conflicts
+	 * @private
+	 */
+	private reportRouteConflicts(conflicts: RouteConflict[], route: Route<T, B> & { id: string }) {
+		if (conflicts.length === 0) return;
+
+		if (this.config.strict) {
+			this.removeRouteFromRouter(route);
+			throw new Error(conflicts.map((conflict) => conflict.message).join("\n"));
+		}
+
+		this.routeConflicts.push(...conflicts);
+		for (const conflict of conflicts) {
+			console.warn(conflict.message);
+		}
+	}
+
+	/**
+	 * Updates the router, route names and conflicts after a route has been removed from `this.routes`.
+	 * While a batch is open, only the route names are updated.
+	 *
+	 * @param route - The removed route
+	 * @private
+	 */
+	private detachRoute(route: Route<T, B> & { id: string }) {
+		if (route.name !== undefined && !this.routes.some((r) => r.name === route.name)) {
+			this.namedRoutes.delete(route.name);
 		}
+		if (this.batchDepth > 0) return;
 
-		node.handlers = handlers;
-		node.method = method;
-		node.routeId = routeId;
+		const conflicts = this.removeRouteFromRouter(route);
+		this.routeConflicts = this.routeConflicts.filter((conflict) => !this.conflictRouteIds.get(conflict)?.includes(route.id));
+
+		// Conflicts that moved to another earlier route are reported again, but only once
+		const known = new Set(this.routeConflicts.map((conflict) => conflict.message));
+		this.routeConflicts.push(...conflicts.filter((conflict) => !known.has(conflict.message)));
 	}
 
 	/** Error handler function for handling uncaught errors */
-	private errorHandler?: (err: Error, ctx: Context<T, B>) => Response | Promise<Response>;
+	private errorHandler?: ErrorHandler<Error, T, B>;
+
+	/** Error handlers registered for specific error classes */
+	private errorClassHandlers = new Map<Function, ErrorHandler<any, T, B>>();
 
 	/** 404 Not Found handler function */
 	private notFoundHandler?: (ctx: Context<T, B>) => Response | Promise<Response>;
 
+	/** 405 Method Not Allowed handler function */
+	private methodNotAllowedHandler?: (ctx: Context<T, B>, allowedMethods: Method[]) => Response | Promise<Response>;
+
+	/** Problem details options, set if problem details mode is enabled */
+	private problemDetailsOptions?: ProblemDetailsOptions<T, B>;
+
+	/** Lifecycle hooks in registration order */
+	private hooks: {
+		onRequest: OnRequestHook[];
+		beforeHandle: BeforeHandleHook<T, B>[];
+		onResponse: OnResponseHook[];
+		onFinish: OnFinishHook[];
+	} = { onRequest: [], beforeHandle: [], onResponse: [], onFinish: [] };
+
 	/**
-	 * Sets a global error handler for the application.
-	 * This handler will be called whenever an unhandled error occurs during request processing.
+	 * Sets a global error handler for the application, or a handler for a specific error class.
+	 * The handler is called whenever an uncaught error occurs during request processing and receives
+	 * the context of the failed request, including the state set by middleware (a fresh context if the
+	 * error occurred before one was created). Its response helpers default to the status of an
+	 * `HTTPException`, or 500 for other errors.
+	 *
+	 * For a thrown error, the handler registered for its closest class wins, then the global handler
+	 * applies. Without either, an `HTTPException` becomes its own response.
 	 *
 	 * @param handler - Function that takes an error and context, returns a Response
 	 * @returns The Web instance for method chaining
@@ -234,16 +1266,44 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 	 * @example
 	 * ```typescript
 	 * app.onError((err, ctx) => {
-	 *   console.error('Application error:', err);
-	 *   return ctx.json({ error: 'Internal Server Error' }, 500);
+	 *   console.error(`Request ${ctx.get('requestId')} failed:`, err);
+	 *   return ctx.json({ error: 'Internal Server Error' });
 	 * });
+	 *
+	 * app.onError(ValidationError, (err, ctx) => ctx.json({ error: err.message }, 400));
 	 * ```
 	 */
-	onError(handler: (err: Error, ctx: Context<T, B>) => Response | Promise<Response>): this {
-		this.errorHandler = handler;
+	onError(handler: ErrorHandler<Error, T, B>): this;
+	/**
+	 * @param errorClass - Error class whose instances (including subclasses) the handler handles
+	 * @param handler - Function that takes an error of that class and context, returns a Response
+	 */
+	onError<E extends Error>(errorClass: abstract new (...args: any[]) => E, handler: ErrorHandler<E, T, B>): this;
+	onError(classOrHandler: Function, handler?: ErrorHandler<any, T, B>): this {
+		if (handler) {
+			this.errorClassHandlers.set(classOrHandler, handler);
+		} else {
+			this.errorHandler = classOrHandler as ErrorHandler<Error, T, B>;
+		}
 		return this;
 	}
 
+	/**
+	 * Finds the handler registered for the closest class of an error.
+	 *
+	 * @param err - The thrown error
+	 * @returns The handler, or undefined if no class of the error has one
+	 * @private
+	 */
+	private findErrorClassHandler(err: unknown): ErrorHandler<any, T, B> | undefined {
+		if (this.errorClassHandlers.size === 0 || typeof err !== "object" || err === null) return undefined;
+		for (let proto = Object.getPrototypeOf(err); proto !== null; proto = Object.getPrototypeOf(proto)) {
+			const handler = this.errorClassHandlers.get(proto.constructor);
+			if (handler) return handler;
+		}
+		return undefined;
+	}
+
 	/**
 	 * Sets a custom 404 Not Found handler for the application.
 	 * This handler will be called whenever a request doesn't match any registered routes.
@@ -294,18 +1354,169 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 		return this;
 	}
 
+	/**
+	 * Sets a custom 405 Method Not Allowed handler for the application.
+	 * This handler will be called whenever the request path matches a route registered for other methods only.
+	 * The `Allow` header listing the registered methods is already set on the context's response headers.
+	 *
+	 * @param handler - Function that takes a context and the allowed methods, returns a Response
+	 * @returns The Web instance for method chaining
+	 *
+	 * @example
+	 * ```typescript
+	 * app.onMethodNotAllowed((ctx, allowedMethods) => {
+	 *   return ctx.json({
+	 *     error: 'Method Not Allowed',
+	 *     allowed: allowedMethods
+	 *   }, 405);
+	 * });
+	 * ```
+	 */
+	onMethodNotAllowed(handler: (ctx: Context<T, B>, allowedMethods: Method[]) => Response | Promise<Response>): this {
+		this.methodNotAllowedHandler = handler;
+		return this;
+	}
+
+	/**
+	 * Enables problem details mode: built-in error responses of the framework and the official
+	 * middleware (404, 405, uncaught errors, `HTTPException`, rate limiting, body limits,
+	 * authentication, IP restrictions, validation) become RFC 9457 `application/problem+json`
+	 * responses with `type`, `title`, `status`, `detail` and `instance` members plus extension members.
+	 * Custom `onError`, `onNotFound` and `onMethodNotAllowed` handlers still take precedence.
+	 *
+	 * @param options - Problem details options, such as a formatter applied to every problem
+	 * @returns The Web instance for method chaining
+	 * @throws {Error} If the application is mounted into another application
+	 *
+	 * @example
+	 * ```typescript
+	 * app.problemDetails({
+	 *   formatter: (problem, ctx) => ({ ...problem, type: `https://api.example.com/errors/${problem.status}` }),
+	 * });
+	 * // GET /missing → 404 { "type": "https://api.example.com/errors/404", "title": "Not Found", "status": 404, "instance": "/missing" }
+	 * ```
+	 */
+	problemDetails(options: ProblemDetailsOptions<T, B> = {}): this {
+		this.assertNotMounted("enable problem details");
+		this.problemDetailsOptions = options;
+		return this;
+	}
+
+	/**
+	 * Adds a hook that runs for every request before routing, including requests that match no route.
+	 * A hook can return a Request to continue with it instead (e.g., to rewrite the URL), or a Response
+	 * to answer the request without routing; `onResponse` and `onFinish` hooks still run.
+	 * Hooks run in registration order on every runtime adapter. WebSocket upgrades in `handleBun()` bypass them.
+	 *
+	 * @param hook - Function receiving the request
+	 * @returns The Web instance for method chaining
+	 * @throws {Error} If the application has been mounted with `route()` or `host()`
+	 *
+	 * @example
+	 * ```typescript
+	 * app.onRequest((req) => {
+	 *   const url = new URL(req.url);
+	 *   if (url.pathname.startsWith('/v1/')) {
+	 *     url.pathname = url.pathname.slice(3);
+	 *     return new Request(url, req);
+	 *   }
+	 * });
+	 * ```
+	 */
+	onRequest(hook: OnRequestHook): this {
+		this.assertNotMounted("add hooks");
+		this.hooks.onRequest.push(hook);
+		return this;
+	}
+
+	/**
+	 * Adds a hook that runs after a route has matched, before the route's middleware and handlers.
+	 * The context already holds the route details and parameters. Returning a Response answers the
+	 * request without running the route.
+	 *
+	 * @param hook - Function receiving the request context
+	 * @returns The Web instance for method chaining
+	 * @throws {Error} If the application has been mounted with `route()` or `host()`
+	 *
+	 * @example
+	 * ```typescript
+	 * app.beforeHandle((ctx) => {
+	 *   if (ctx.routeName?.startsWith('admin.') && !isAdmin(ctx.req)) {
+	 *     return ctx.json({ error: 'Forbidden' }, 403);
+	 *   }
+	 * });
+	 * ```
+	 */
+	beforeHandle(hook: BeforeHandleHook<T, B>): this {
+		this.assertNotMounted("add hooks");
+		this.hooks.beforeHandle.push(hook);
+		return this;
+	}
+
+	/**
+	 * Adds a hook that runs for every response before it is sent, including 404 and error responses.
+	 * Returning a Response replaces the response passed to later hooks.
+	 *
+	 * @param hook - Function receiving the response and the request
+	 * @returns The Web instance for method chaining
+	 * @throws {Error} If the application has been mounted with `route()` or `host()`
+	 *
+	 * @example
+	 * ```typescript
+	 * app.onResponse((res) => {
+	 *   const headers = new Headers(res.headers);
+	 *   headers.set('X-Powered-By', 'Web');
+	 *   return new Response(res.body, { status: res.status, statusText: res.statusText, headers });
+	 * });
+	 * ```
+	 */
+	onResponse(hook: OnResponseHook): this {
+		this.assertNotMounted("add hooks");
+		this.hooks.onResponse.push(hook);
+		return this;
+	}
+
+	/**
+	 * Adds a hook that runs once the response body has been sent (or sending it failed or was aborted).
+	 * The event holds the timing and any error thrown while handling the request, even if the error
+	 * handler turned it into a response. Errors thrown by the hook are logged and otherwise ignored.
+	 *
+	 * @param hook - Function receiving the finished request
+	 * @returns The Web instance for method chaining
+	 * @throws {Error} If the application has been mounted with `route()` or `host()`
+	 *
+	 * @example
+	 * ```typescript
+	 * app.onFinish(({ req, res, duration, error }) => {
+	 *   console.log(`${req.method} ${req.url} ${res.status} ${duration.toFixed(1)}ms`, error ?? '');
+	 * });
+	 * ```
+	 */
+	onFinish(hook: OnFinishHook): this {
+		this.assertNotMounted("add hooks");
+		this.hooks.onFinish.push(hook);
+		return this;
+	}
+
 	/**
 	 * Splits a path into segments and caches the result for performance.
+	 * Empty segments are filtered out unless trailing slashes are significant, in which case
+	 * `/users/` yields `["users", ""]` and `//users` yields `["", "users"]`.
 	 *
 	 * @param path - The URL path to split
-	 * @returns Array of path segments (empty segments filtered out)
+	 * @returns Array of path segments
 	 * @private
 	 */
 	private getPathSegments(path: string): string[] {
 		let segments = this.segmentCache.get(path);
 		if (segments) return segments;
 
-		segments = path.split("/").filter(Boolean);
+		if (this.trailingSlash === "ignore") {
+			segments = path.split("/").filter(Boolean);
+		} else {
+			const relative = path[0] === "/" ? path.slice(1) : path;
+			segments = relative ? relative.split("/") : [];
+		}
 
 		// Cache with size limit
 		if (this.segmentCache.size < 1000) {
@@ -315,6 +1526,42 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 		return segments;
 	}
 
+	/**
+	 * Returns the segments used for static trie lookups, lowercased for case-insensitive matching.
+	 *
+	 * @param segments - The URL path segments
+	 * @returns The lookup keys
+	 * @private
+	 */
+	private getMatchKeys(segments: string[]): string[] {
+		return this.caseSensitive ? segments : segments.map((segment) => segment.toLowerCase());
+	}
+
+	/**
+	 * Computes the static prefix of a middleware path, lowercased for case-insensitive matching.
+	 *
+	 * @param path - The middleware path pattern
+	 * @returns The static prefix used to skip middleware cheaply
+	 * @private
+	 */
+	private getMiddlewarePrefix(path: string): string {
+		const prefix = getStaticPrefix(path);
+		return this.caseSensitive ? prefix : prefix.toLowerCase();
+	}
+
+	/**
+	 * Normalizes a request path for comparison with middleware static prefixes,
+	 * collapsing duplicate slashes when they are ignored and lowercasing for case-insensitive matching.
+	 *
+	 * @param path - The request pathname
+	 * @returns The path to compare prefixes against
+	 * @private
+	 */
+	private getPrefixPath(path: string): string {
+		const normalized = this.trailingSlash === "ignore" && path.includes("//") ? "/" + this.getPathSegments(path).join("/") : path;
+		return this.caseSensitive ? normalized : normalized.toLowerCase();
+	}
+
 	/**
 	 * Parses a URL into pathname and search parameters with caching for performance.
 	 * Handles both absolute and relative URLs.
@@ -434,6 +1681,7 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 	 * ```
 	 */
 	removeMiddleware(id: string): boolean {
+		this.assertNotMounted("remove middleware");
 		const initialLength = this.middlewares.length;
 		this.middlewares = this.middlewares.filter((mw) => mw.id !== id);
 
@@ -463,6 +1711,7 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 	 * ```
 	 */
 	removeMiddlewareBy(criteria: { method?: Method; path?: string }): number {
+		this.assertNotMounted("remove middleware");
 		const initialLength = this.middlewares.length;
 
 		if (!criteria.method && !criteria.path) return 0;
@@ -506,6 +1755,7 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 	 * ```
 	 */
 	addMiddleware(...args: [Middleware<T, B>] | [string, Middleware<T, B>] | [Method, string, Middleware<T, B>]): string {
+		this.assertNotMounted("add middleware");
 		this.clearCaches();
 		const id = this.generateId();
 
@@ -523,7 +1773,7 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 			this.middlewares.push({
 				id,
 				path,
-				pathPrefix: getStaticPrefix(path),
+				pathPrefix: this.getMiddlewarePrefix(path),
 				match: (url) => match(this.getPathSegments(url)),
 				handler,
 			});
@@ -535,7 +1785,7 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 				id,
 				method,
 				path,
-				pathPrefix: getStaticPrefix(path),
+				pathPrefix: this.getMiddlewarePrefix(path),
 				match: (url) => match(this.getPathSegments(url)),
 				handler,
 			});
@@ -556,11 +1806,12 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 	 * });
 	 * ```
 	 */
-	getMiddlewares(): Array<{ id: string; method?: Method; path?: string }> {
+	getMiddlewares(): Array<{ id: string; method?: Method; path?: string; host?: string }> {
 		return this.middlewares.map((mw) => ({
 			id: mw.id,
 			method: mw.method,
 			path: mw.path,
+			host: mw.host,
 		}));
 	}
 
@@ -571,7 +1822,7 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 	private getCachedMatcher(path: string, segments: string[]): (urlSegments: string[]) => MatchResult {
 		let matcher = this.matcherCache.get(path);
 		if (!matcher) {
-			matcher = createPathMatcherSegments(segments);
+			matcher = createPathMatcherSegments(segments, this.caseSensitive);
 			this.matcherCache.set(path, matcher);
 		}
 		return matcher;
@@ -582,8 +1833,10 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 	 *
 	 * @param method - HTTP method (GET, POST, etc.)
 	 * @param path - URL path pattern (supports :param and * wildcards)
-	 * @param handlers - One or more middleware handlers for this route
+	 * @param args - One or more middleware handlers, optionally preceded by route options
 	 * @returns The route ID for later removal
+	 * @throws {Error} If the route name is already used by a route with a different path
+	 * @throws {Error} In strict mode, if the route conflicts with an existing route
 	 *
 	 * @example
 	 * ```typescript
@@ -591,44 +1844,46 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 	 *   return ctx.json({ id: ctx.params.id });
 	 * });
 	 *
+	 * // Named route
+	 * app.addRoute('GET', '/posts/:id', { name: 'post.show' }, showPost);
+	 *
 	 * // Remove it later
 	 * app.removeRoute(routeId);
 	 * ```
 	 */
-	addRoute(method: Method, path: string, ...handlers: Middleware<T, B>[]): string {
-		this.clearCaches();
-		const id = this.generateId();
-
-		this.addRouteToTrie(method, path, handlers, id);
-
-		// Automatically register OPTIONS route for CORS if not already present
-		const hasOptionsRoute = this.routes.some((route) => route.method === "OPTIONS" && route.path === path);
-		if (method !== "OPTIONS" && !hasOptionsRoute) {
-			const optionsId = this.generateId();
-			this.addRouteToTrie(
-				"OPTIONS",
-				path,
-				[
-					async (ctx) => {
-						const response = new Response(null, { status: 204 });
-						// CORS headers will be added by the CORS middleware
-						return response;
-					},
-				],
-				optionsId
-			);
+	addRoute<Path extends string, Host extends string = never>(method: Method, path: Path, ...args: RouteArgs<T, B, RouteParams<P, Path>, Host>): string {
+		const { options, handlers } = splitRouteArgs(args as unknown as RouteArgs<T, B>);
+		const { name, host, ...meta } = options;
+		this.assertNotMounted("add routes");
+
+		if (name !== undefined) {
+			const existing = this.namedRoutes.get(name);
+			if (existing !== undefined && existing !== path) {
+				throw new Error(`Route name "${name}" is already used by "${existing}"`);
+			}
 		}
 
+		this.clearCaches();
+
 		const matcher = this.getCachedMatcher(path, this.getPathSegments(path));
-		this.routes.push({
-			id,
+		const route = {
+			id: this.generateId(),
 			method,
 			path,
 			handlers,
-			match: (url) => matcher(this.getPathSegments(url)),
-		});
+			name,
+			host,
+			meta: Object.keys(meta).length > 0 ? meta : undefined,
+			match: (url: string) => matcher(this.getPathSegments(url)),
+		};
 
-		return id;
+		if (this.batchDepth === 0) {
+			this.reportRouteConflicts(this.addRouteToRouter(route), route);
+		}
+		if (name !== undefined) this.namedRoutes.set(name, path);
+
+		this.routes.push(route);
+		return route.id;
 	}
 
 	/**
@@ -647,15 +1902,14 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 	 * ```
 	 */
 	removeRoute(id: string): boolean {
-		const initialLength = this.routes.length;
-		this.routes = this.routes.filter((route) => route.id !== id);
+		this.assertNotMounted("remove routes");
+		const route = this.routes.find((route) => route.id === id);
+		if (!route) return false;
 
-		if (this.routes.length !== initialLength) {
-			this.clearCaches();
-			this.rebuildTrie();
-			return true;
-		}
-		return false;
+		this.routes = this.routes.filter((r) => r !== route);
+		this.clearCaches();
+		this.detachRoute(route);
+		return true;
 	}
 
 	/**
@@ -677,22 +1931,22 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 	 * ```
 	 */
 	removeRoutesBy(criteria: { method?: Method; path?: string }): number {
-		const initialLength = this.routes.length;
+		this.assertNotMounted("remove routes");
 
 		if (!criteria.method && !criteria.path) return 0;
 
-		this.routes = this.routes.filter((route) => {
-			if (criteria.method && route.method !== criteria.method) return true;
-			if (criteria.path && route.path !== criteria.path) return true;
-			return false;
+		const removed = this.routes.filter((route) => {
+			if (criteria.method && route.method !== criteria.method) return false;
+			if (criteria.path && route.path !== criteria.path) return false;
+			return true;
 		});
 
-		const removedCount = initialLength - this.routes.length;
-		if (removedCount > 0) {
+		if (removed.length > 0) {
+			this.routes = this.routes.filter((route) => !removed.includes(route));
 			this.clearCaches();
-			this.rebuildTrie();
+			for (const route of removed) this.detachRoute(route);
 		}
-		return removedCount;
+		return removed.length;
 	}
 
 	/**
@@ -704,126 +1958,391 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 	 * ```typescript
 	 * const routes = app.getRoutes();
 	 * routes.forEach(route => {
-	 *   console.log(`ID: ${route.id}, ${route.method} ${route.path}`);
+	 *   console.log(`ID: ${route.id}, ${route.method} ${route.path}`, route.meta?.summary);
 	 * });
 	 * ```
 	 */
-	getRoutes(): Array<{ id: string; method: Method; path: string }> {
+	getRoutes(): Array<{ id: string; method: Method; path: string; name?: string; host?: string; meta?: RouteMeta }> {
 		return this.routes.map((route) => ({
 			id: route.id,
 			method: route.method,
 			path: route.path,
+			name: route.name,
+			host: route.host,
+			meta: route.meta,
 		}));
 	}
 
 	/**
-	 * Removes all routes and middleware, effectively resetting the application.
+	 * Generates an OpenAPI 3.1 document from the registered routes and their metadata.
+	 * Route parameters become templated path parameters (":id" becomes "{id}"); constrained
+	 * parameters get a matching `pattern`, unnamed wildcards are named "wildcard", and routes with
+	 * optional parameters are documented once per path variant. Routes registered with `all()`,
+	 * non-standard methods and routes marked `hidden` are left out.
+	 *
+	 * Security requirements are taken from the route's `security` metadata, or detected from
+	 * authentication middleware (such as `bearerAuth` and `basicAuth`) on the route or on
+	 * middleware whose path covers it.
+	 *
+	 * @param options - Document information, servers and additional security schemes
+	 * @returns The OpenAPI document, ready to be serialized with `ctx.json()`
 	 *
 	 * @example
 	 * ```typescript
-	 * // Clear everything and start fresh
-	 * app.clear();
+	 * app.use('/admin/*', bearerAuth({ validate }));
+	 * app.get('/admin/users/:id', { summary: 'Get a user', tags: ['users'] }, getUser);
 	 *
-	 * // Now add new routes
-	 * app.get('/', handler);
+	 * const spec = app.openapi({ info: { title: 'My API', version: '1.0.0' } });
+	 * // spec.paths['/admin/users/{id}'].get.security => [{ bearerAuth: [] }]
+	 *
+	 * app.get('/openapi.json', { hidden: true }, (ctx) => ctx.json(spec));
 	 * ```
 	 */
-	clear(): void {
-		this.routes = [];
-		this.middlewares = [];
-		this.clearCaches();
-		this.rebuildTrie();
+	openapi(options: OpenAPIOptions): OpenAPIDocument {
+		const paths: OpenAPIDocument["paths"] = {};
+		const securitySchemes: Record<string, OpenAPISecurityScheme> = { ...options.securitySchemes };
+
+		for (const route of this.routes) {
+			const method = route.method.toLowerCase();
+			const meta = route.meta ?? {};
+			if (!OPENAPI_METHODS.has(method) || meta.hidden || route.host !== options.host) continue;
+
+			// Authentication middleware on the route itself or on middleware covering its path
+			const detected: Record<string, string[]> = {};
+			const middlewares = this.middlewares
+				.filter((mw) => (!mw.method || mw.method === "ALL" || mw.method === route.method) && mw.host === route.host && mw.match(route.path).matched)
+				.map((mw) => mw.handler);
+
+			for (const handler of [...middlewares, ...route.handlers]) {
+				const security = (handler as Middleware<T, B> & { security?: MiddlewareSecurity }).security;
+				if (!security) continue;
+				detected[security.name] = [];
+				securitySchemes[security.name] ??= security.scheme;
+			}
+
+			const variants = toOpenAPIPaths(route.path);
+			for (let i = 0; i < variants.length; i++) {
+				const variant = variants[i]!;
+				const operation: OpenAPIOperation = {};
+
+				// Operation IDs must be unique, so only the full path variant gets one
+				const operationId = meta.operationId ?? route.name;
+				if (operationId !== undefined && i === variants.length - 1) operation.operationId = operationId;
+				if (meta.summary !== undefined) operation.summary = meta.summary;
+				if (meta.description !== undefined) operation.description = meta.description;
+				if (meta.tags !== undefined) operation.tags = meta.tags;
+				if (meta.deprecated) operation.deprecated = true;
+
+				const parameters: OpenAPIParameter[] = [];
+				const pathSchemas = (meta.params?.properties ?? {}) as Record<string, JsonSchema>;
+				for (const param of variant.params) {
+					const schema = pathSchemas[param.name] ?? { type: "string", ...(param.constraint !== undefined && { pattern: `^(?:${param.constraint})$` }) };
+					parameters.push({ name: param.name, in: "path", required: true, schema });
+				}
+
+				const querySchemas = (meta.query?.properties ?? {}) as Record<string, JsonSchema>;
+				const requiredQuery = (meta.query?.required ?? []) as string[];
+				for (const [name, schema] of Object.entries(querySchemas)) {
+					parameters.push({ name, in: "query", required: requiredQuery.includes(name), schema });
+				}
+				if (parameters.length > 0) operation.parameters = parameters;
+
+				if (meta.body) {
+					operation.requestBody = {
+						...(meta.body.description !== undefined && { description: meta.body.description }),
+						required: meta.body.required ?? true,
+						content: { [meta.body.contentType ?? "application/json"]: { schema: meta.body.schema } },
+					};
+				}
+
+				if (meta.responses) {
+					operation.responses = {};
+					for (const [status, response] of Object.entries(meta.responses)) {
+						operation.responses[status] = {
+							description: response.description,
+							...(response.schema && { content: { [response.contentType ?? "application/json"]: { schema: response.schema } } }),
+						};
+					}
+				}
+
+				const security: OpenAPISecurityRequirement[] | undefined = meta.security ?? (Object.keys(detected).length > 0 ? [detected] : undefined);
+				if (security !== undefined) operation.security = security;
+
+				paths[variant.path] ??= {};
+				paths[variant.path]![method] = operation;
+			}
+		}
+
+		const document: OpenAPIDocument = { openapi: "3.1.0", info: options.info, ...(options.servers && { servers: options.servers }), paths };
+		if (Object.keys(securitySchemes).length > 0) document.components = { securitySchemes };
+		return document;
 	}
 
 	/**
-	 * Matches a method and path against the trie structure to find handlers and extract parameters.
+	 * Reports conflicts between the registered routes: duplicate registrations, parameters
+	 * with different names at the same position, and routes that can never be matched.
+	 * The same conflicts are logged as warnings at registration (or thrown in strict mode).
 	 *
-	 * @param method - HTTP method to match
-	 * @param path - URL path to match
-	 * @returns Object with handlers and params if matched, null otherwise
+	 * @returns Array of detected conflicts, empty if the routes are consistent
 	 *
 	 * @example
 	 * ```typescript
-	 * const match = app.match('GET', '/users/123');
-	 * if (match) {
-	 *   console.log(match.params.id); // "123"
-	 * }
+	 * app.get('/users/:id', getUser);
+	 * app.get('/users/:userId/posts', getPosts);
+	 *
+	 * // In a CI test
+	 * expect(app.validateRoutes()).toEqual([]);
 	 * ```
 	 */
-	match(method: Method, path: string): { handlers?: Middleware<T, B>[]; params: Record<string, string> } | null {
-		// Check route match cache first
-		const cacheKey = `${method}:${path}`;
-		const cached = this.routeMatchCache.get(cacheKey);
-		if (cached !== undefined) return cached;
+	validateRoutes(): RouteConflict[] {
+		return [...this.routeConflicts];
+	}
 
-		const root = this.roots[method];
-		if (!root) {
-			this.routeMatchCache.set(cacheKey, null);
-			return null;
+	/**
+	 * Builds the URL path for a named route, filling in its parameters.
+	 * Parameter values are percent-encoded; wildcard values keep their "/" separators.
+	 * Constrained parameters are checked against their constraint.
+	 *
+	 * @param name - The route name given at registration
+	 * @param params - Values for the route parameters
+	 * @param options - Additional URL options such as query parameters
+	 * @returns The URL path (with query string if given)
+	 * @throws {Error} If no route has the given name, a required parameter is missing or a value violates its constraint
+	 *
+	 * @example
+	 * ```typescript
+	 * app.get('/users/:id', { name: 'user.show' }, showUser);
+	 * app.get('/files/*path', { name: 'file' }, serveFile);
+	 *
+	 * app.url('user.show', { id: 5 }); // "/users/5"
+	 * app.url('user.show', { id: 'a b' }, { query: { tab: 'posts' } }); // "/users/a%20b?tab=posts"
+	 * app.url('file', { path: 'docs/read me.txt' }); // "/files/docs/read%20me.txt"
+	 * ```
+	 */
+	url(name: string, params: Record<string, string | number> = {}, options: UrlOptions = {}): string {
+		const path = this.namedRoutes.get(name);
+		if (path === undefined) {
+			throw new Error(`No route named "${name}"`);
 		}
 
-		const segments = this.getPathSegments(path);
-		if (segments.length === 0) {
-			// Root path "/"
-			const result = root.handlers ? { handlers: root.handlers, params: EMPTY_PARAMS } : null;
-			if (this.routeMatchCache.size < 500) {
-				this.routeMatchCache.set(cacheKey, result);
-			}
-			return result;
-		}
+		return buildPath(path, params, name) + buildQueryString(options.query);
+	}
 
-		const params: Record<string, string> = {};
-		let node = root;
-		let i = 0;
+	/**
+	 * Removes all routes and middleware, effectively resetting the application.
+	 *
+	 * @example
+	 * ```typescript
+	 * // Clear everything and start fresh
+	 * app.clear();
+	 *
+	 * // Now add new routes
+	 * app.get('/', handler);
+	 * ```
+	 */
+	clear(): void {
+		this.assertNotMounted("clear the application");
+		this.routes = [];
+		this.middlewares = [];
+		this.mounts = [];
+		this.clearCaches();
+		this.rebuildRouter();
+	}
 
-		while (node && i < segments.length) {
-			const segment = segments[i];
+	/**
+	 * Applies many route and middleware changes as one transaction. Inside the callback, changes are
+	 * recorded without touching the live routing table; when it returns, the trie is rebuilt once,
+	 * swapped in and the caches are invalidated once. Conflicts are reported at that point. If the
+	 * callback throws (or, in strict mode, the changes conflict), every change made in the batch is
+	 * rolled back. The callback must be synchronous, so no request can observe a half-applied batch.
+	 * Nested calls join the outer batch.
+	 *
+	 * @param callback - Function making the changes; receives this application
+	 * @returns The Web instance for method chaining
+	 * @throws {Error} Rethrows errors from the callback, and in strict mode throws on route conflicts
+	 * @throws {Error} If the callback returns a promise
+	 *
+	 * @example
+	 * ```typescript
+	 * app.batch(() => {
+	 *   app.removeRoutesBy({ path: '/plugins/old' });
+	 *   for (const plugin of plugins) {
+	 *     app.get(`/plugins/${plugin.name}`, plugin.handler);
+	 *   }
+	 * });
+	 * ```
+	 */
+	batch(callback: (app: this) => void): this {
+		if (this.batchDepth > 0) {
+			callback(this);
+			return this;
+		}
 
-			// Try static child first (most common case)
-			const staticChild = node.children.get(segment!);
-			if (staticChild) {
-				node = staticChild;
-				i++;
-				continue;
-			}
+		const snapshot = {
+			routes: this.routes,
+			middlewares: this.middlewares,
+			mounts: this.mounts,
+			namedRoutes: new Map(this.namedRoutes),
+			router: this.router,
+			hosts: this.hosts,
+			routeConflicts: this.routeConflicts,
+			bunWebSocket: this.bunWebSocket,
+		};
+		// Work on copies so the arrays of the live table are never modified in place
+		this.routes = [...this.routes];
+		this.middlewares = [...this.middlewares];
+		this.mounts = [...this.mounts];
 
-			// Try param child
-			if (node.paramChild) {
-				params[node.paramChild.name] = decodeURIComponent(segment!);
-				node = node.paramChild.node;
-				i++;
-				continue;
+		this.batchDepth++;
+		try {
+			const result: unknown = callback(this);
+			if (result instanceof Promise) {
+				throw new Error("batch() callbacks must be synchronous");
 			}
 
-			// Try wildcard child
-			if (node.wildcardChild) {
-				params["*"] = segments.slice(i).join("/");
-				node = node.wildcardChild;
-				break;
-			}
+			this.batchDepth--;
+			this.rebuildRouter();
 
-			if (this.routeMatchCache.size < 500) {
-				this.routeMatchCache.set(cacheKey, null);
+			const previous = new Set(snapshot.routeConflicts.map((conflict) => conflict.message));
+			const conflicts = this.routeConflicts.filter((conflict) => !previous.has(conflict.message));
+			if (conflicts.length > 0 && this.config.strict) {
+				throw new Error(conflicts.map((conflict) => conflict.message).join("\n"));
 			}
-			return null;
+			for (const conflict of conflicts) {
+				console.warn(conflict.message);
+			}
+		} catch (err) {
+			this.batchDepth = 0;
+			Object.assign(this, snapshot);
+			throw err;
+		} finally {
+			this.clearCaches();
 		}
+		return this;
+	}
+
+	/**
+	 * Matches a method and path against the trie structure to find handlers and extract parameters.
+	 * Static segments take priority over parameters, and parameters over wildcards. When a
+	 * higher-priority branch cannot complete the path, the matcher backtracks and tries the next one.
+	 * Routes registered for the exact method are tried before catch-all routes registered with `all()`.
+	 * HEAD requests without a HEAD route are served by the GET route with the response body stripped.
+	 * If the host matches a host pattern, only the routes registered under that host are considered
+	 * and the host parameters are included in the params; otherwise the routes without a host are used.
+	 *
+	 * @param method - HTTP method to match
+	 * @param path - URL path to match
+	 * @param host - Optional request host (e.g., the `Host` header) for host-based routes
+	 * @returns Object with handlers, params and the matched route's pattern, ID and name, or null if no route matches
+	 *
+	 * @example
+	 * ```typescript
+	 * const match = app.match('GET', '/users/123');
+	 * if (match) {
+	 *   console.log(match.params.id); // "123"
+	 *   console.log(match.routePath); // "/users/:id"
+	 * }
+	 *
+	 * app.match('GET', '/', 'acme.example.com'); // params: { tenant: "acme" } for host ":tenant.example.com"
+	 * ```
+	 */
+	match(method: Method, path: string, host?: string): RouteMatch<T, B> | null {
+		return this.matchCached(method, path, host).match;
+	}
+
+	/**
+	 * Matches a route like {@link match}, through the route match cache whose entries also hold the
+	 * middleware chain resolved for the method and path, or the allowed methods if no route matches.
+	 *
+	 * @param method - HTTP method to match
+	 * @param path - URL path to match
+	 * @param host - Optional request host for host-based routes
+	 * @returns The cache entry of the method and path
+	 * @private
+	 */
+	private matchCached(method: Method, path: string, host?: string): CachedRouteMatch<T, B> {
+		const hosted = host !== undefined && this.hosts.length > 0;
+
+		// Check route match cache first
+		const cacheKey = hosted ? `${method}:${host}:${path}` : `${method}:${path}`;
+		const cached = this.routeMatchCache.get(cacheKey);
+		if (cached !== undefined) return cached;
+
+		const hostMatch = hosted ? this.matchHost(host) : null;
+		const router = hostMatch ? hostMatch.entry.router : this.router;
+		const segments = this.getPathSegments(path);
+		let result: RouteMatch<T, B> | null = router.match(method, segments);
 
-		// Check if we've consumed all segments or hit a wildcard
-		if (i === segments.length || node.segment === "*") {
-			if (node.handlers) {
-				const result = Object.keys(params).length === 0 ? { handlers: node.handlers, params: EMPTY_PARAMS } : { handlers: node.handlers, params };
+		// Serve HEAD requests from GET handlers with the body stripped
+		if (!result && method === "HEAD") {
+			const getResult = router.match("GET", segments);
+			if (getResult) {
+				result = { ...getResult, handlers: getResult.handlers.map(stripResponseBody) };
+			}
+		}
 
-				if (this.routeMatchCache.size < 500) {
-					this.routeMatchCache.set(cacheKey, result);
+		// Answer OPTIONS requests for paths that have routes with the allowed methods
+		if (!result && method === "OPTIONS") {
+			for (const routeMethod of this.getRouteMethods(hostMatch?.entry.pattern)) {
+				if (routeMethod === "OPTIONS" || routeMethod === ALL_METHODS) continue;
+				const found = router.match(routeMethod, segments);
+				if (found) {
+					result = { handlers: [this.autoOptionsHandler], params: found.params, routePath: found.routePath };
+					break;
 				}
-				return result;
 			}
 		}
 
+		if (!result) {
+			result = router.match(ALL_METHODS, segments);
+		}
+
+		if (result && hostMatch) {
+			const params = Object.keys(hostMatch.params).length > 0 ? { ...hostMatch.params, ...result.params } : result.params;
+			result = { ...result, params, host: hostMatch.entry.pattern };
+		}
+
+		const entry: CachedRouteMatch<T, B> = { match: result };
 		if (this.routeMatchCache.size < 500) {
-			this.routeMatchCache.set(cacheKey, null);
+			this.routeMatchCache.set(cacheKey, entry);
 		}
-		return null;
+		return entry;
+	}
+
+	/**
+	 * Lists the methods that have a route registered for the given path, sorted alphabetically.
+	 * HEAD is included whenever GET is, since HEAD requests are served by GET routes.
+	 *
+	 * @param path - URL path to check
+	 * @param host - Optional request host for host-based routes
+	 * @returns Array of allowed methods, empty if no route matches the path
+	 *
+	 * @example
+	 * ```typescript
+	 * app.get('/users', listUsers).post('/users', createUser);
+	 * app.getAllowedMethods('/users'); // ['GET', 'HEAD', 'OPTIONS', 'POST']
+	 * ```
+	 */
+	getAllowedMethods(path: string, host?: string): Method[] {
+		const hostMatch = host !== undefined && this.hosts.length > 0 ? this.matchHost(host) : null;
+		const router = hostMatch ? hostMatch.entry.router : this.router;
+		const segments = this.getPathSegments(path);
+		const allowed: Method[] = [];
+
+		for (const method of this.getRouteMethods(hostMatch?.entry.pattern)) {
+			if (method === ALL_METHODS || !router.match(method, segments)) continue;
+			allowed.push(method);
+		}
+
+		if (allowed.includes("GET") && !allowed.includes("HEAD")) {
+			allowed.push("HEAD");
+		}
+		// OPTIONS requests are answered automatically for every path that has a route
+		if (allowed.length > 0 && !allowed.includes("OPTIONS")) {
+			allowed.push("OPTIONS");
+		}
+
+		return allowed.sort();
 	}
 
 	/**
@@ -839,14 +2358,85 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 		}
 
 		const result = this.middlewares.filter((mw) => {
-			if (mw.method && mw.method !== method) return false;
+			if (mw.method && mw.method !== method && mw.method !== ALL_METHODS) return false;
 			return true;
 		});
+		// Outer applications run first; the sort is stable, so registration order is kept within each application
+		result.sort((a, b) => (a.depth ?? 0) - (b.depth ?? 0));
 
 		this.methodMiddlewareCache.set(method, result);
 		return result;
 	}
 
+	/**
+	 * Gets the middleware chain for a matched route by method and route. The middleware that can apply
+	 * to the route is filtered by method and host once per method and route. The complete chain is
+	 * resolved once as well when it cannot depend on the request path: when all middleware is global,
+	 * or when the route matched without parameters, so every matching path has the same segments.
+	 *
+	 * @param method - HTTP method of the request
+	 * @param matched - The matched route
+	 * @param path - URL path of the request
+	 * @returns The resolved chain
+	 * @private
+	 */
+	private getRouteChain(method: Method, matched: RouteMatch<T, B>, path: string): RouteChain<T, B> {
+		// Automatic OPTIONS responses have no route ID and are identified by their pattern
+		const cacheKey = `${method}:${matched.routeId ?? `${matched.host ?? ""}${matched.routePath}`}`;
+		let entry = this.routeChainCache.get(cacheKey);
+		if (!entry) {
+			const candidates = this.getMethodMiddlewares(method).filter((mw) => mw.host === undefined || mw.host === matched.host);
+			entry = { candidates, pathIndependent: candidates.every((mw) => mw.path === undefined) };
+			// Catch-all routes can be requested with any method, so the cache is bounded like the route match cache
+			if (this.routeChainCache.size < 1000) {
+				this.routeChainCache.set(cacheKey, entry);
+			}
+		}
+
+		if (entry.pathIndependent || matched.params === EMPTY_PARAMS) {
+			if (!entry.chain) entry.chain = this.resolveRouteChain(entry.candidates, matched.handlers, path);
+			return entry.chain;
+		}
+		return this.resolveRouteChain(entry.candidates, matched.handlers, path);
+	}
+
+	/**
+	 * Matches middleware against a request path and composes the matching middleware with the route handlers.
+	 *
+	 * @param candidates - Middleware that can apply to the route, in execution order
+	 * @param handlers - The route handlers
+	 * @param path - URL path of the request
+	 * @returns The resolved chain
+	 * @private
+	 */
+	private resolveRouteChain(candidates: MiddlewareRoute<T, B>[], handlers: Middleware<T, B>[] | undefined, path: string): RouteChain<T, B> {
+		const prefixPath = this.getPrefixPath(path);
+		const chainHandlers: Middleware<T, B>[] = [];
+		let params: Record<string, string> = EMPTY_PARAMS;
+
+		for (const mw of candidates) {
+			// Skip expensive match() call if path doesn't start with middleware's static prefix
+			if (mw.pathPrefix && !prefixPath.startsWith(mw.pathPrefix)) {
+				continue;
+			}
+
+			const matchResult = mw.match(path);
+			if (!matchResult.matched) continue;
+
+			for (const name in matchResult.params) {
+				if (params === EMPTY_PARAMS) params = {};
+				params[name] = matchResult.params[name]!;
+			}
+			chainHandlers.push(mw.handler);
+		}
+
+		if (handlers) {
+			chainHandlers.push(...handlers);
+		}
+
+		return { handlers: chainHandlers, params, run: composeMiddleware(chainHandlers) };
+	}
+
 	/**
 	 * Creates a scoped sub-application that inherits middleware and routes with a path prefix.
 	 * Useful for organizing routes and creating modular applications.
@@ -870,21 +2460,31 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 	 * // Routes will be available at /api/v1/users
 	 * ```
 	 */
-	scope(path: string, callback: (scopeApp: this) => void): this {
-		const scopedApp = new (this.constructor as any)() as this;
+	scope<Path extends string, Sub extends RouteSchema = {}>(
+		path: Path,
+		callback: (scopeApp: Web<T, B, P & ExtractParams<Path>>) => Web<T, B, P & ExtractParams<Path>, Sub> | void
+	): Web<T, B, P, S & PrefixSchema<Path, Sub>> {
+		const scopedApp = new (this.constructor as any)(this.config) as Web<T, B, P & ExtractParams<Path>>;
 		callback(scopedApp);
 
 		this.route(path, scopedApp);
-		return this;
+		return this.withRoutes<PrefixSchema<Path, Sub>>();
 	}
 
 	/**
 	 * Mounts a sub-application at the specified path prefix.
 	 * All routes from the sub-application will be prefixed with the given path.
 	 *
+	 * The sub-application's error, not-found and method-not-allowed handlers apply to the paths under
+	 * the prefix; the most specific mounted application with a handler wins, falling back to this one.
+	 * This application's middleware always runs before the sub-application's, each in registration order.
+	 * Routes and middleware are copied, so the sub-application throws on further route or middleware changes.
+	 *
 	 * @param prefix - Path prefix to mount the sub-application at
 	 * @param subApp - Web instance to mount
 	 * @returns The Web instance for method chaining
+	 * @throws {Error} If this application has itself been mounted already
+	 * @throws {Error} If both applications have different WebSocket handlers
 	 *
 	 * @example
 	 * ```typescript
@@ -895,8 +2495,14 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 	 * // Dashboard will be available at /admin/dashboard
 	 * ```
 	 */
-	route(prefix: string, subApp: this): this {
+	route<Prefix extends string, Sub extends RouteSchema = {}>(
+		prefix: Prefix,
+		subApp: Web<T, B, P & ExtractParams<Prefix>, Sub>
+	): Web<T, B, P, S & PrefixSchema<Prefix, Sub>> {
+		this.assertNotMounted("mount applications");
+		this.clearCaches();
 		const baseSegments = this.getPathSegments(prefix);
+		const baseKeys = this.getMatchKeys(baseSegments);
 
 		for (const mw of subApp.middlewares) {
 			const originalMatch = mw.match;
@@ -907,8 +2513,9 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 					return { matched: false, params: {} };
 				}
 
-				for (let i = 0; i < baseSegments.length; i++) {
-					if (baseSegments[i] !== urlSegments[i]) {
+				const urlKeys = this.getMatchKeys(urlSegments);
+				for (let i = 0; i < baseKeys.length; i++) {
+					if (baseKeys[i] !== urlKeys[i]) {
 						return { matched: false, params: {} };
 					}
 				}
@@ -922,24 +2529,200 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 			this.middlewares.push({
 				...mw,
 				id: this.generateId(), // Generate new ID for the parent app
+				depth: (mw.depth ?? 0) + 1,
 				match: prefixedMatch,
 				path: prefix + (mw.path ?? ""),
-				pathPrefix: getStaticPrefix(prefix + (mw.path ?? "")),
+				pathPrefix: this.getMiddlewarePrefix(prefix + (mw.path ?? "")),
 			});
 		}
 
 		for (const route of subApp.routes) {
 			const newPath = joinPaths(prefix, route.path);
-			this.addRoute(route.method, newPath, ...route.handlers);
+			this.addRoute(route.method, newPath, { ...route.meta, name: route.name, host: route.host }, ...(route.handlers as Middleware<T, B, any>[]));
+		}
+
+		this.addMount(subApp, prefix);
+		return this.withRoutes<PrefixSchema<Prefix, Sub>>();
+	}
+
+	/**
+	 * Mounts a sub-application for requests whose `Host` matches the given pattern.
+	 * Like `route()`, the sub-application's routes and middleware are copied into this application,
+	 * but they only apply to matching hosts. Host labels starting with ":" are captured into
+	 * `ctx.params`, and a leading "*" label matches any number of subdomains ("*" alone matches any host).
+	 * Exact hosts take priority over hosts with parameters, which take priority over wildcard hosts.
+	 * Requests for hosts that match no pattern are handled by the routes registered without a host,
+	 * so those act as the fallback application. Ports are ignored. Handlers and middleware order
+	 * follow the same rules as `route()`.
+	 *
+	 * @param pattern - Host pattern (e.g., "api.example.com", ":tenant.example.com", "*.example.com", "*")
+	 * @param subApp - Web instance to mount
+	 * @returns The Web instance for method chaining
+	 *
+	 * @example
+	 * ```typescript
+	 * const api = new Web();
+	 * api.get('/users', listUsers);
+	 *
+	 * const tenant = new Web();
+	 * tenant.use(loadTenant);
+	 * tenant.get('/', (ctx) => ctx.text(`Welcome to ${ctx.params.tenant}`));
+	 *
+	 * app.host('api.example.com', api);
+	 * app.host(':tenant.example.com', tenant);
+	 * app.get('/', landingPage); // Any other host
+	 * ```
+	 */
+	host<Pattern extends string, Sub extends RouteSchema = {}>(pattern: Pattern, subApp: Web<T, B, P & ExtractHostParams<Pattern>, Sub>): Web<T, B, P, S & Sub> {
+		this.assertNotMounted("mount applications");
+		this.clearCaches();
+
+		for (const mw of subApp.middlewares) {
+			this.middlewares.push({
+				...mw,
+				id: this.generateId(), // Generate new ID for the parent app
+				depth: (mw.depth ?? 0) + 1,
+				host: pattern,
+			});
+		}
+
+		for (const route of subApp.routes) {
+			this.addRoute(route.method, route.path, { ...route.meta, name: route.name, host: pattern }, ...(route.handlers as Middleware<T, B, any>[]));
+		}
+
+		this.addMount(subApp, "/", pattern);
+		return this.withRoutes<Sub>();
+	}
+
+	/**
+	 * Forwards all requests under a path prefix to a fetch-compatible handler, such as another
+	 * framework's application. The handler receives the request (with the prefix removed from the URL
+	 * unless `stripPrefix` is false), `ctx.env` and the execution context from `ctx.info`. This application's matching middleware runs
+	 * before the handler, like for any other route.
+	 *
+	 * @param prefix - Path prefix to mount the handler at
+	 * @param handler - The fetch handler to forward requests to
+	 * @param options - Mount options
+	 * @returns The Web instance for method chaining
+	 *
+	 * @example
+	 * ```typescript
+	 * app.use(cors());
+	 * app.mount('/legacy', legacyApp.fetch);
+	 * // GET /legacy/users is forwarded as GET /users
+	 * ```
+	 */
+	mount(prefix: string, handler: FetchHandler, options: MountOptions = {}): this {
+		const { stripPrefix = true } = options;
+
+		const forward: Middleware<T, B> = (ctx) => {
+			if (!stripPrefix) return handler(ctx.req, ctx.env, ctx.info.executionCtx);
+
+			// The wildcard holds the decoded path below the prefix, wherever this application ends up being mounted
+			const url = new URL(ctx.req.url);
+			const rest = ctx.params["*"]?.split("/").map(encodeURIComponent).join("/");
+			url.pathname = rest === undefined ? "/" : url.pathname.endsWith("/") && !rest.endsWith("/") ? `/${rest}/` : `/${rest}`;
+			return handler(new Request(url, ctx.req), ctx.env, ctx.info.executionCtx);
+		};
+
+		this.all(prefix, forward);
+		// Significant trailing slashes make "/prefix/" a path of its own, which the wildcard does not match
+		const base = joinPaths(prefix, "");
+		if (this.trailingSlash === "strict" && base !== "/") this.all(`${base}/`, forward);
+		this.all(joinPaths(prefix, "*"), forward);
+		return this;
+	}
+
+	/**
+	 * Records a mounted sub-application (and the applications mounted on it) so that its error,
+	 * not-found and method-not-allowed handlers apply under its prefix, adopts its WebSocket
+	 * handlers and marks it as mounted.
+	 *
+	 * @param subApp - The mounted application
+	 * @param prefix - Path prefix the application is mounted at
+	 * @param host - Host pattern the application is mounted for, if any
+	 * @throws {Error} If both applications have different WebSocket handlers
+	 * @private
+	 */
+	private addMount(subApp: Web<T, B, any, any>, prefix: string, host?: string) {
+		if (Object.values(subApp.hooks).some((hooks) => hooks.length > 0)) {
+			throw new Error("Cannot mount an application with lifecycle hooks; register the hooks on the application handling the requests");
+		}
+
+		if (subApp.problemDetailsOptions) {
+			throw new Error("Cannot mount an application with problem details enabled; enable them on the application handling the requests");
+		}
+
+		if (subApp.bunWebSocket) {
+			if (this.bunWebSocket && this.bunWebSocket !== subApp.bunWebSocket) {
+				throw new Error("Cannot mount an application with its own WebSocket handlers into an application with different WebSocket handlers");
+			}
+			this.bunWebSocket = subApp.bunWebSocket;
+		}
+
+		const entries = [
+			{ prefix: "/", host: undefined as string | undefined, depth: 0, app: subApp },
+			...subApp.mounts.map((mount) => ({ prefix: mount.prefix, host: mount.host, depth: mount.depth, app: mount.app })),
+		];
+		for (const entry of entries) {
+			const fullPrefix = joinPaths(prefix, entry.prefix);
+			const segments = this.getPathSegments(fullPrefix);
+			this.mounts.push({
+				prefix: fullPrefix,
+				host: host ?? entry.host,
+				length: segments.length,
+				match: this.getCachedMatcher(fullPrefix, segments),
+				depth: entry.depth + 1,
+				app: entry.app,
+			});
+		}
+		// Most specific first: longer prefixes, then deeper nesting
+		this.mounts.sort((a, b) => b.length - a.length || b.depth - a.depth);
+
+		subApp.mounted = true;
+	}
+
+	/**
+	 * Finds the application whose handler applies to a request: the most specific mounted
+	 * application covering the request path (and host) that has the handler, or this application.
+	 *
+	 * @param req - The incoming Request object
+	 * @param path - The request pathname
+	 * @param hasHandler - Checks whether an application has the wanted handler
+	 * @returns The application to take the handler from
+	 * @private
+	 */
+	private findHandlerApp(req: Request, path: string, hasHandler: (app: Web<T, B, any, any>) => boolean): Web<T, B, any, any> {
+		if (this.mounts.length === 0) return this;
+
+		const requestHost = this.getRequestHost(req);
+		const host = requestHost === undefined ? undefined : this.matchHost(requestHost)?.entry.pattern;
+		const segments = this.getPathSegments(path);
+
+		for (const mount of this.mounts) {
+			if (mount.host !== host || segments.length < mount.length || !hasHandler(mount.app)) continue;
+			if (mount.match(segments.slice(0, mount.length)).matched) return mount.app;
 		}
 		return this;
 	}
 
+	/**
+	 * Returns this application with the routes added by a registration method recorded in its type,
+	 * so that chained calls and `createClient()` know about them.
+	 *
+	 * @template Added - Schema of the added routes
+	 * @returns This Web instance
+	 * @private
+	 */
+	private withRoutes<Added extends RouteSchema>(): Web<T, B, P, S & Added> {
+		return this as unknown as Web<T, B, P, S & Added>;
+	}
+
 	/**
 	 * Registers a GET route handler.
 	 *
 	 * @param path - URL path pattern (supports :param and * wildcards)
-	 * @param handlers - One or more middleware handlers
+	 * @param args - One or more middleware handlers, optionally preceded by route options
 	 * @returns The Web instance for method chaining
 	 *
 	 * @example
@@ -950,16 +2733,19 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 	 * });
 	 * ```
 	 */
-	get(path: string, ...handlers: Middleware<T, B>[]): this {
-		this.addRoute("GET", path, ...handlers);
-		return this;
+	get<Path extends string, Host extends string = never, R extends MiddlewareResult = MiddlewareResult>(
+		path: Path,
+		...args: RouteArgs<T, B, RouteParams<P, Path>, Host, R>
+	): Web<T, B, P, S & SchemaRoute<"GET", Path, ResponseOutput<R>>> {
+		this.addRoute("GET", path, ...args);
+		return this.withRoutes<SchemaRoute<"GET", Path, ResponseOutput<R>>>();
 	}
 
 	/**
 	 * Registers a POST route handler.
 	 *
 	 * @param path - URL path pattern
-	 * @param handlers - One or more middleware handlers
+	 * @param args - One or more middleware handlers, optionally preceded by route options
 	 * @returns The Web instance for method chaining
 	 *
 	 * @example
@@ -971,9 +2757,12 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 	 * });
 	 * ```
 	 */
-	post(path: string, ...handlers: Middleware<T, B>[]): this {
-		this.addRoute("POST", path, ...handlers);
-		return this;
+	post<Path extends string, Host extends string = never, R extends MiddlewareResult = MiddlewareResult>(
+		path: Path,
+		...args: RouteArgs<T, B, RouteParams<P, Path>, Host, R>
+	): Web<T, B, P, S & SchemaRoute<"POST", Path, ResponseOutput<R>>> {
+		this.addRoute("POST", path, ...args);
+		return this.withRoutes<SchemaRoute<"POST", Path, ResponseOutput<R>>>();
 	}
 
 	/**
@@ -981,7 +2770,7 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 	 * PUT is typically used when you want to replace an entire resource.
 	 *
 	 * @param path - URL path pattern
-	 * @param handlers - One or more middleware handlers
+	 * @param args - One or more middleware handlers, optionally preceded by route options
 	 * @returns The Web instance for method chaining
 	 *
 	 * @example
@@ -1006,16 +2795,19 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 	 * );
 	 * ```
 	 */
-	put(path: string, ...handlers: Middleware<T, B>[]): this {
-		this.addRoute("PUT", path, ...handlers);
-		return this;
+	put<Path extends string, Host extends string = never, R extends MiddlewareResult = MiddlewareResult>(
+		path: Path,
+		...args: RouteArgs<T, B, RouteParams<P, Path>, Host, R>
+	): Web<T, B, P, S & SchemaRoute<"PUT", Path, ResponseOutput<R>>> {
+		this.addRoute("PUT", path, ...args);
+		return this.withRoutes<SchemaRoute<"PUT", Path, ResponseOutput<R>>>();
 	}
 
 	/**
 	 * Registers a DELETE route handler.
 	 *
 	 * @param path - URL path pattern
-	 * @param handlers - One or more middleware handlers
+	 * @param args - One or more middleware handlers, optionally preceded by route options
 	 * @returns The Web instance for method chaining
 	 *
 	 * @example
@@ -1026,9 +2818,12 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 	 * });
 	 * ```
 	 */
-	delete(path: string, ...handlers: Middleware<T, B>[]): this {
-		this.addRoute("DELETE", path, ...handlers);
-		return this;
+	delete<Path extends string, Host extends string = never, R extends MiddlewareResult = MiddlewareResult>(
+		path: Path,
+		...args: RouteArgs<T, B, RouteParams<P, Path>, Host, R>
+	): Web<T, B, P, S & SchemaRoute<"DELETE", Path, ResponseOutput<R>>> {
+		this.addRoute("DELETE", path, ...args);
+		return this.withRoutes<SchemaRoute<"DELETE", Path, ResponseOutput<R>>>();
 	}
 
 	/**
@@ -1036,7 +2831,7 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 	 * PATCH is typically used when you want to update only specific fields of a resource.
 	 *
 	 * @param path - URL path pattern (supports :param and * wildcards)
-	 * @param handlers - One or more middleware handlers
+	 * @param args - One or more middleware handlers, optionally preceded by route options
 	 * @returns The Web instance for method chaining
 	 *
 	 * @example
@@ -1059,9 +2854,12 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 	 * );
 	 * ```
 	 */
-	patch(path: string, ...handlers: Middleware<T, B>[]): this {
-		this.addRoute("PATCH", path, ...handlers);
-		return this;
+	patch<Path extends string, Host extends string = never, R extends MiddlewareResult = MiddlewareResult>(
+		path: Path,
+		...args: RouteArgs<T, B, RouteParams<P, Path>, Host, R>
+	): Web<T, B, P, S & SchemaRoute<"PATCH", Path, ResponseOutput<R>>> {
+		this.addRoute("PATCH", path, ...args);
+		return this.withRoutes<SchemaRoute<"PATCH", Path, ResponseOutput<R>>>();
 	}
 
 	/**
@@ -1070,7 +2868,7 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 	 * are supported for a given endpoint.
 	 *
 	 * @param path - URL path pattern
-	 * @param handlers - One or more middleware handlers
+	 * @param args - One or more middleware handlers, optionally preceded by route options
 	 * @returns The Web instance for method chaining
 	 *
 	 * @example
@@ -1098,17 +2896,21 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 	 * });
 	 * ```
 	 */
-	options(path: string, ...handlers: Middleware<T, B>[]): this {
-		this.addRoute("OPTIONS", path, ...handlers);
-		return this;
+	options<Path extends string, Host extends string = never, R extends MiddlewareResult = MiddlewareResult>(
+		path: Path,
+		...args: RouteArgs<T, B, RouteParams<P, Path>, Host, R>
+	): Web<T, B, P, S & SchemaRoute<"OPTIONS", Path, ResponseOutput<R>>> {
+		this.addRoute("OPTIONS", path, ...args);
+		return this.withRoutes<SchemaRoute<"OPTIONS", Path, ResponseOutput<R>>>();
 	}
 
 	/**
 	 * Registers a HEAD route handler.
 	 * HEAD responses automatically strip the response body while preserving headers and status.
+	 * Registering HEAD routes is optional: GET routes answer HEAD requests automatically.
 	 *
 	 * @param path - URL path pattern
-	 * @param handlers - One or more middleware handlers
+	 * @param args - One or more middleware handlers, optionally preceded by route options
 	 * @returns The Web instance for method chaining
 	 *
 	 * @example
@@ -1119,33 +2921,73 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 	 * });
 	 * ```
 	 */
-	head(path: string, ...handlers: Middleware<T, B>[]): this {
-		this.addRoute(
-			"HEAD",
-			path,
-			...handlers.map((handler) => async (ctx: Context<T, B>, next: Next) => {
-				const res = await handler(ctx, next);
-				if (res instanceof Response) {
-					// Strip the body for HEAD requests
-					return new Response(null, {
-						status: res.status,
-						headers: res.headers,
-					});
-				}
-				return res;
-			})
-		);
+	head<Path extends string, Host extends string = never, R extends MiddlewareResult = MiddlewareResult>(
+		path: Path,
+		...args: RouteArgs<T, B, RouteParams<P, Path>, Host, R>
+	): Web<T, B, P, S & SchemaRoute<"HEAD", Path, ResponseOutput<R>>> {
+		const { options, handlers } = splitRouteArgs(args as unknown as RouteArgs<T, B>);
+		this.addRoute("HEAD", path, options, ...(handlers.map(stripResponseBody) as Middleware<T, B, any>[]));
+		return this.withRoutes<SchemaRoute<"HEAD", Path, ResponseOutput<R>>>();
+	}
+
+	/**
+	 * Registers a route handler that matches every HTTP method, including custom extension methods.
+	 * Routes registered for a specific method take priority over catch-all routes on the same path.
+	 *
+	 * @param path - URL path pattern
+	 * @param args - One or more middleware handlers, optionally preceded by route options
+	 * @returns The Web instance for method chaining
+	 *
+	 * @example
+	 * ```typescript
+	 * app.all('/proxy/*', async (ctx) => {
+	 *   return fetch(`https://upstream.example.com/${ctx.params['*']}`, ctx.req);
+	 * });
+	 * ```
+	 */
+	all<Path extends string, Host extends string = never>(path: Path, ...args: RouteArgs<T, B, RouteParams<P, Path>, Host>): this {
+		this.addRoute(ALL_METHODS, path, ...args);
 		return this;
 	}
 
+	/**
+	 * Registers a route handler for one or more HTTP methods.
+	 * Accepts standard methods as well as extension methods such as `QUERY`, `PROPFIND` or `PURGE`.
+	 *
+	 * @param methods - A method or an array of methods to register the route for
+	 * @param path - URL path pattern
+	 * @param args - One or more middleware handlers, optionally preceded by route options
+	 * @returns The Web instance for method chaining
+	 *
+	 * @example
+	 * ```typescript
+	 * app.on(['GET', 'POST'], '/search', searchHandler);
+	 *
+	 * app.on('PURGE', '/cache/*', async (ctx) => {
+	 *   await purgeCache(ctx.params['*']);
+	 *   return ctx.text('Purged');
+	 * });
+	 * ```
+	 */
+	on<M extends Method, Path extends string, Host extends string = never, R extends MiddlewareResult = MiddlewareResult>(
+		methods: M | M[],
+		path: Path,
+		...args: RouteArgs<T, B, RouteParams<P, Path>, Host, R>
+	): Web<T, B, P, S & SchemaRoute<M, Path, ResponseOutput<R>>> {
+		for (const method of Array.isArray(methods) ? methods : [methods]) {
+			this.addRoute(method, path, ...args);
+		}
+		return this.withRoutes<SchemaRoute<M, Path, ResponseOutput<R>>>();
+	}
+
 	/**
 	 * Creates a context object for the current request with helper methods.
 	 *
 	 * @param req - The incoming Request object
 	 * @param params - URL parameters extracted from the path
 	 * @param parsedUrl - Pre-parsed URL components
-	 * @param clientIp - Optional client IP address
-	 * @param env - Optional environment-specific bindings or variables (e.g., Cloudflare environment)
+	 * @param info - Runtime information from the adapter that received the request
+	 * @param route - Optional matched route whose pattern, ID and name are exposed on the context
 	 * @returns Context object with request data and helper methods
 	 * @private
 	 */
@@ -1153,8 +2995,8 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 		req: Request,
 		params: Record<string, string>,
 		parsedUrl: { pathname: string; searchParams?: URLSearchParams },
-		clientIp?: string,
-		env?: B
+		info: RequestInfo<B>,
+		route?: RouteMatch<T, B>
 	): Context<T, B> {
 		// Initialize response headers storage
 		const responseHeaders = new Headers();
@@ -1166,10 +3008,15 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 			req,
 			params,
 			state,
-			env: {} as B,
-			clientIp,
+			env: info.env ?? ({} as B),
+			clientIp: info.clientIp,
+			info,
+			routePath: route?.routePath,
+			routeId: route?.routeId,
+			routeName: route?.routeName,
 			header: (name: string, value: string) => {
 				responseHeaders.set(name, value);
+				if (ctx.res) setResponseHeader(ctx, name, value);
 			},
 			set: (key: keyof T, value: T[keyof T]) => {
 				state[key] = value;
@@ -1191,7 +3038,7 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 				}
 				return type.includes("application/json") ? (req.json() as Promise<U>) : ({} as U);
 			},
-			json: (data: unknown, status = 200, headers?: Record<string, string>) => {
+			json: <D>(data: D, status = 200, headers?: Record<string, string>) => {
 				const allHeaders = headers ? new Headers(responseHeaders) : responseHeaders;
 				allHeaders.set("Content-Type", "application/json");
 				if (headers) {
@@ -1202,7 +3049,7 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 				return new Response(JSON.stringify(data), {
 					status,
 					headers: allHeaders,
-				});
+				}) as TypedResponse<D>;
 			},
 			text: (data: string | null | undefined, status = 200, headers?: Record<string, string>) => {
 				const allHeaders = headers ? new Headers(responseHeaders) : responseHeaders;
@@ -1231,24 +3078,122 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 				});
 			},
 			query: () => parsedUrl.searchParams || EMPTY_SEARCH_PARAMS,
-		};
-
-		return ctx;
-	}
+			problemDetails: this.problemDetailsOptions !== undefined,
+			problem: (status: number, details?: ProblemDetailsInit, headers?: Record<string, string>) => {
+				let problem: ProblemDetails = {
+					type: "about:blank",
+					title: STATUS_TEXT[status] ?? "Error",
+					status,
+					instance: parsedUrl.pathname,
+					...details,
+				};
+				const formatter = this.problemDetailsOptions?.formatter;
+				if (formatter) problem = formatter(problem, ctx);
 
-	/**
-	 * Creates a 404 Not Found response using the custom handler if set.
+				const allHeaders = headers ? new Headers(responseHeaders) : responseHeaders;
+				allHeaders.set("Content-Type", "application/problem+json");
+				if (headers) {
+					Object.entries(headers).forEach(([name, value]) => {
+						allHeaders.set(name, value);
+					});
+				}
+				return new Response(JSON.stringify(problem), {
+					status,
+					headers: allHeaders,
+				});
+			},
+		};
+
+		return ctx;
+	}
+
+	/**
+	 * Creates the response for a request that matched no route: a redirect to the canonical URL in
+	 * `trailingSlash: "redirect"` mode, 405 Method Not Allowed with an `Allow` header if the path is
+	 * registered under other methods, 404 Not Found otherwise.
+	 * @private
+	 */
+	private async createUnmatchedResponse(
+		req: Request,
+		parsedUrl: { pathname: string; searchParams?: URLSearchParams },
+		info: RequestInfo<B>,
+		cached: CachedRouteMatch<T, B>
+	): Promise<Response> {
+		if (this.trailingSlash === "redirect") {
+			const redirect = this.createCanonicalRedirect(req, parsedUrl.pathname);
+			if (redirect) return redirect;
+		}
+
+		const allowed = (cached.allowed ??= this.getAllowedMethods(parsedUrl.pathname, this.getRequestHost(req)));
+		if (allowed.length === 0) {
+			return this.createNotFoundResponse(req, parsedUrl, info);
+		}
+
+		const allow = allowed.join(", ");
+		const { methodNotAllowedHandler } = this.findHandlerApp(req, parsedUrl.pathname, (app) => app.methodNotAllowedHandler !== undefined);
+		if (methodNotAllowedHandler) {
+			const ctx = this.createContext(req, EMPTY_PARAMS, parsedUrl, info);
+			ctx.header("Allow", allow);
+			return methodNotAllowedHandler(ctx, [...allowed]);
+		}
+		if (this.problemDetailsOptions) {
+			return this.createContext(req, EMPTY_PARAMS, parsedUrl, info).problem(405, undefined, { Allow: allow });
+		}
+		return new Response("Method Not Allowed", { status: 405, headers: { Allow: allow } });
+	}
+
+	/**
+	 * Creates a redirect to the canonical form of a path that only matches a route after collapsing
+	 * duplicate slashes and/or adding or removing the trailing slash. The query string is preserved.
+	 *
+	 * @param req - The incoming Request object
+	 * @param pathname - The request pathname that matched no route
+	 * @returns A 301 (GET/HEAD) or 308 redirect response, or null if no canonical form matches
+	 * @private
+	 */
+	private createCanonicalRedirect(req: Request, pathname: string): Response | null {
+		const method = req.method as Method;
+		const collapsed = pathname.replace(/\/{2,}/g, "/");
+		const toggled = collapsed === "/" ? collapsed : collapsed.endsWith("/") ? collapsed.slice(0, -1) : collapsed + "/";
+
+		for (const candidate of [collapsed, toggled]) {
+			if (candidate === pathname || !this.match(method, candidate, this.getRequestHost(req))) continue;
+
+			const queryStart = req.url.indexOf("?");
+			const location = queryStart === -1 ? candidate : candidate + req.url.slice(queryStart);
+			const status = method === "GET" || method === "HEAD" ? 301 : 308;
+			return new Response(null, { status, headers: { Location: location } });
+		}
+
+		return null;
+	}
+
+	/**
+	 * Creates a 404 Not Found response using the custom handler if set.
 	 * @private
 	 */
-	private async createNotFoundResponse(req: Request, parsedUrl: { pathname: string; searchParams?: URLSearchParams }, clientIp?: string): Promise<Response> {
-		if (this.notFoundHandler) {
+	private async createNotFoundResponse(req: Request, parsedUrl: { pathname: string; searchParams?: URLSearchParams }, info: RequestInfo<B>): Promise<Response> {
+		const { notFoundHandler } = this.findHandlerApp(req, parsedUrl.pathname, (app) => app.notFoundHandler !== undefined);
+		if (notFoundHandler) {
 			// Create a minimal context for the 404 handler
-			const ctx = this.createContext(req, EMPTY_PARAMS, parsedUrl, clientIp);
-			return this.notFoundHandler(ctx);
+			const ctx = this.createContext(req, EMPTY_PARAMS, parsedUrl, info);
+			return notFoundHandler(ctx);
+		}
+		if (this.problemDetailsOptions) {
+			return this.createContext(req, EMPTY_PARAMS, parsedUrl, info).problem(404);
 		}
 		return new Response("Not Found", { status: 404 });
 	}
 
+	/**
+	 * Creates the 500 response for a request whose route handlers returned no response.
+	 * @private
+	 */
+	private createNoResponseError(ctx: Context<T, B>): Response {
+		const detail = "No response returned by handler";
+		return this.problemDetailsOptions ? ctx.problem(500, { detail }) : new Response(detail, { status: 500 });
+	}
+
 	/**
 	 * Main request handler that processes incoming requests through the middleware chain and route handlers.
 	 * This method implements several optimization paths for different scenarios:
@@ -1273,341 +3218,321 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 	 * });
 	 * ```
 	 */
-	async handle(req: Request): Promise<Response> {
-		const method = req.method as Method;
-		const parsedUrl = this.parseUrl(req.url);
-		const path = parsedUrl.pathname;
+	handle(req: Request): Promise<Response> {
+		return this.handleRequest(req, FETCH_INFO);
+	}
 
-		try {
-			// Match route first
-			const matched = this.match(method, path);
-			if (!matched) {
-				return this.createNotFoundResponse(req, parsedUrl);
-			}
+	/**
+	 * Fetch-compatible request handler, usable as the default export of a Cloudflare Worker, with
+	 * `Bun.serve()`, `Deno.serve()` or any other runtime following the fetch handler convention.
+	 * The environment bindings and execution context are available as `ctx.env` and `ctx.info.executionCtx`.
+	 * Use the runtime-specific handlers to also get the client IP.
+	 *
+	 * @param req - The incoming Request object
+	 * @param env - Optional environment bindings (e.g., Cloudflare Workers bindings)
+	 * @param executionCtx - Optional execution context (e.g., for `waitUntil()`)
+	 * @returns Promise that resolves to a Response object
+	 *
+	 * @example
+	 * ```typescript
+	 * // Cloudflare Workers
+	 * export default app;
+	 *
+	 * // Any runtime or test
+	 * const res = await app.fetch(new Request('http://localhost/health'));
+	 * ```
+	 */
+	fetch(req: Request, env?: B, executionCtx?: ExecutionContext): Promise<Response> {
+		return this.handleRequest(req, env === undefined && executionCtx === undefined ? FETCH_INFO : { runtime: "fetch", env, executionCtx });
+	}
 
-			// Ultra-fast path: no middlewares, no parameters, single handler
-			if (this.middlewares.length === 0 && matched.params === EMPTY_PARAMS && matched.handlers?.length === 1) {
-				const ctx = this.createContext(req, EMPTY_PARAMS, parsedUrl);
-				const result = await matched.handlers[0](ctx, async () => {});
-				return result instanceof Response ? result : new Response("No response returned by handler", { status: 500 });
-			}
+	/**
+	 * The request pipeline shared by `fetch()`, `handle()` and all runtime adapters: runs the lifecycle
+	 * hooks around routing, middleware and handlers. Adapters only translate their runtime's request
+	 * and details into a Request and a {@link RequestInfo}.
+	 *
+	 * @param req - The incoming Request object
+	 * @param info - Runtime information from the adapter that received the request
+	 * @returns Promise that resolves to a Response object
+	 *
+	 * @internal
+	 */
+	private handleRequest(req: Request, info: RequestInfo<B>): Promise<Response> {
+		const { onRequest, onResponse, onFinish } = this.hooks;
+		if (onRequest.length === 0 && onResponse.length === 0 && onFinish.length === 0) {
+			return this.dispatchRequest(req, info);
+		}
+		return this.handleRequestWithHooks(req, info);
+	}
 
-			// Fast path: no middlewares, might have parameters
-			if (this.middlewares.length === 0) {
-				const ctx = this.createContext(req, matched.params, parsedUrl);
+	/**
+	 * Runs the lifecycle hooks around {@link dispatchRequest}, for applications that registered any.
+	 *
+	 * @param req - The incoming Request object
+	 * @param info - Runtime information from the adapter that received the request
+	 * @returns Promise that resolves to a Response object
+	 * @private
+	 */
+	private async handleRequestWithHooks(req: Request, info: RequestInfo<B>): Promise<Response> {
+		const { onRequest, onResponse, onFinish } = this.hooks;
+		const startTime = Date.now();
+		const start = performance.now();
+		// Receives the error thrown by a handler, even if the error handler answered the request
+		const outcome: { error?: unknown } = {};
+		let request = req;
+		let response: Response | undefined;
 
-				// Optimized handler execution without allocation
-				const handlers = matched.handlers;
-				if (handlers) {
-					for (let i = 0; i < handlers.length; i++) {
-						const result = await handlers[i](ctx, async () => {});
-						if (result instanceof Response) {
-							return result;
-						}
-					}
+		try {
+			for (const hook of onRequest) {
+				const result = await hook(request);
+				if (result instanceof Response) {
+					response = result;
+					break;
 				}
-
-				return new Response("No response returned by handler", { status: 500 });
-			}
-
-			// Full path with middleware processing
-			const methodMiddlewares = this.getMethodMiddlewares(method);
-			let finalParams = matched.params;
-
-			// Pre-allocate middleware array with estimated size
-			const middlewares: Middleware<T, B>[] = new Array(methodMiddlewares.length);
-			let middlewareCount = 0;
-
-			// Only process middlewares if there are any
-			if (methodMiddlewares.length > 0) {
-				// Pre-filter middlewares by path prefix before expensive matching
-				for (let i = 0; i < methodMiddlewares.length; i++) {
-					const mw = methodMiddlewares[i];
-
-					// Skip expensive match() call if path doesn't start with middleware's static prefix
-					if (mw.pathPrefix && !path.startsWith(mw.pathPrefix)) {
-						continue;
-					}
-
-					const matchResult = mw.match(path);
-					if (matchResult.matched) {
-						// Only create new params object if we have parameters to merge
-						if (Object.keys(matchResult.params).length > 0) {
-							if (finalParams === EMPTY_PARAMS) {
-								finalParams = { ...matchResult.params };
-							} else {
-								finalParams = { ...finalParams, ...matchResult.params };
-							}
-						}
-						middlewares[middlewareCount++] = mw.handler;
-					}
+				if (result instanceof Request) {
+					request = result;
 				}
 			}
 
-			// Create context once
-			const ctx = this.createContext(req, finalParams, parsedUrl);
-
-			// Execute middleware and handlers
-			const handlers = matched.handlers;
-
-			// Build the complete middleware chain
-			const allMiddleware: Middleware<T, B>[] = [];
-
-			// Add middlewares first
-			for (let i = 0; i < middlewareCount; i++) {
-				allMiddleware.push(middlewares[i]);
-			}
-
-			// Add route handlers
-			if (handlers) {
-				allMiddleware.push(...handlers);
-			}
-
-			// If there are no handlers at all (neither middleware nor route handlers)
-			if (allMiddleware.length === 0) {
-				return this.createNotFoundResponse(req, parsedUrl);
+			if (!response) {
+				response = await this.dispatchRequest(request, info, outcome);
 			}
 
-			// Create the composed middleware chain
-			let currentIndex = 0;
-			let response: any = undefined;
-
-			const dispatch = async (): Promise<Response | void> => {
-				if (currentIndex >= allMiddleware.length) {
-					return;
-				}
-
-				const middleware = allMiddleware[currentIndex++];
-				const result = await middleware(ctx, dispatch);
-
-				// Store the response if one was returned
+			for (const hook of onResponse) {
+				const result = await hook(response, request);
 				if (result instanceof Response) {
 					response = result;
 				}
-
-				return result;
-			};
-
-			// Start the middleware chain
-			await dispatch();
-
-			if (response instanceof Response) {
-				return response;
 			}
+		} catch (err) {
+			outcome.error = err;
+			response = await this.createErrorResponse(err, request, this.parseUrl(request.url), info);
+		}
 
-			// If no response was returned, check if we had actual route handlers
-			// If we only had middleware (no route handlers), this is a 404
-			if (!handlers || handlers.length === 0) {
-				return this.createNotFoundResponse(req, parsedUrl);
-			}
+		if (onFinish.length === 0) {
+			return response;
+		}
 
-			// If we had route handlers but they didn't return a response, that's a 500
-			return new Response("No response returned by handler", { status: 500 });
-		} catch (err) {
-			if (this.errorHandler) {
-				// We need to create a minimal context for error handling
-				const errorCtx: Context<T, B> = {
-					req,
-					params: EMPTY_PARAMS,
-					state: {} as T,
-					env: {} as B,
-					// Minimal implementations for error handling
-					text: (data, status = 500) => new Response(data, { status }),
-					json: (data, status = 500) =>
-						new Response(JSON.stringify(data), {
-							status,
-							headers: new Headers({ "Content-Type": "application/json" }),
-						}),
-					html: (html, status = 500) =>
-						new Response(html, {
-							status,
-							headers: new Headers({ "Content-Type": "text/html; charset=utf-8" }),
-						}),
-					query: () => parsedUrl.searchParams || EMPTY_SEARCH_PARAMS,
-					body: async () => ({} as any),
-					header: () => {},
-					set: () => {},
-					get: () => undefined as any,
-					redirect: () => new Response(null, { status: 302 }),
-				};
-				return this.errorHandler(err as Error, errorCtx);
+		const finalRequest = request;
+		const finalResponse = response;
+		return trackResponseBody(response, (bodyError) => {
+			const event: FinishEvent = {
+				req: finalRequest,
+				res: finalResponse,
+				error: outcome.error ?? bodyError,
+				startTime,
+				duration: performance.now() - start,
+			};
+			for (const hook of onFinish) {
+				Promise.resolve()
+					.then(() => hook(event))
+					.catch((err) => console.error("onFinish hook failed:", err));
 			}
-			return new Response("Internal Server Error", { status: 500 });
-		}
+		});
 	}
 
 	/**
-	 * Internal handler that processes requests with a known client IP.
-	 * This is the common implementation used by both runtime-specific handlers.
+	 * Routes a request and runs the matched middleware and handlers.
 	 *
 	 * @param req - The incoming Request object
-	 * @param clientIp - The client IP address (optional)
+	 * @param info - Runtime information from the adapter that received the request
+	 * @param outcome - Receives the error thrown while handling the request, if any
 	 * @returns Promise that resolves to a Response object
-	 *
-	 * @internal
+	 * @private
 	 */
-	private async handleWithIp(req: Request, clientIp?: string, env?: B): Promise<Response> {
+	private async dispatchRequest(req: Request, info: RequestInfo<B>, outcome?: { error?: unknown }): Promise<Response> {
 		const method = req.method as Method;
 		const parsedUrl = this.parseUrl(req.url);
 		const path = parsedUrl.pathname;
+		let ctx: Context<T, B> | undefined;
+		let devChain: DevChainEntry[] | undefined;
 
 		try {
 			// Match route first
-			const matched = this.match(method, path);
+			const cached = this.matchCached(method, path, this.getRequestHost(req));
+			const matched = cached.match;
 			if (!matched) {
-				return this.createNotFoundResponse(req, parsedUrl, clientIp);
+				return await this.createUnmatchedResponse(req, parsedUrl, info, cached);
 			}
 
+			// Route-level work beyond the handlers: middleware, beforeHandle hooks or development mode tracing
+			const hasRouteHooks = this.middlewares.length > 0 || this.hooks.beforeHandle.length > 0 || this.devRedactHeaders !== undefined;
+
 			// Ultra-fast path: no middlewares, no parameters, single handler
-			if (this.middlewares.length === 0 && matched.params === EMPTY_PARAMS && matched.handlers?.length === 1) {
-				const ctx = this.createContext(req, EMPTY_PARAMS, parsedUrl, clientIp, env);
-				const result = await matched.handlers[0](ctx, async () => {});
-				return result instanceof Response ? result : new Response("No response returned by handler", { status: 500 });
+			if (!hasRouteHooks && matched.params === EMPTY_PARAMS && matched.handlers?.length === 1) {
+				ctx = this.createContext(req, EMPTY_PARAMS, parsedUrl, info, matched);
+				const result = await matched.handlers[0](ctx, NOOP_NEXT);
+				return result instanceof Response ? result : ctx.res ?? this.createNoResponseError(ctx);
 			}
 
 			// Fast path: no middlewares, might have parameters
-			if (this.middlewares.length === 0) {
-				const ctx = this.createContext(req, matched.params, parsedUrl, clientIp, env);
+			if (!hasRouteHooks) {
+				ctx = this.createContext(req, matched.params, parsedUrl, info, matched);
 
 				// Optimized handler execution without allocation
 				const handlers = matched.handlers;
 				if (handlers) {
 					for (let i = 0; i < handlers.length; i++) {
-						const result = await handlers[i](ctx, async () => {});
+						const result = await handlers[i](ctx, NOOP_NEXT);
 						if (result instanceof Response) {
 							return result;
 						}
+						if (ctx.res) {
+							return ctx.res;
+						}
 					}
 				}
 
-				return new Response("No response returned by handler", { status: 500 });
+				return this.createNoResponseError(ctx);
 			}
 
-			// Full path with middleware processing
-			const methodMiddlewares = this.getMethodMiddlewares(method);
-			let finalParams = matched.params;
-
-			// Pre-allocate middleware array with estimated size
-			const middlewares: Middleware<T, B>[] = new Array(methodMiddlewares.length);
-			let middlewareCount = 0;
+			// Full path with middleware processing, using the chain resolved for the route
+			// Cache entries are specific to the method and path, so they keep the chain resolved for the first request
+			const chain = (cached.chain ??= this.getRouteChain(method, matched, path));
+			const params = chain.params === EMPTY_PARAMS ? matched.params : { ...matched.params, ...chain.params };
+			ctx = this.createContext(req, params, parsedUrl, info, matched);
 
-			// Only process middlewares if there are any
-			if (methodMiddlewares.length > 0) {
-				// Pre-filter middlewares by path prefix before expensive matching
-				for (let i = 0; i < methodMiddlewares.length; i++) {
-					const mw = methodMiddlewares[i];
-
-					// Skip expensive match() call if path doesn't start with middleware's static prefix
-					if (mw.pathPrefix && !path.startsWith(mw.pathPrefix)) {
-						continue;
-					}
-
-					const matchResult = mw.match(path);
-					if (matchResult.matched) {
-						// Only create new params object if we have parameters to merge
-						if (Object.keys(matchResult.params).length > 0) {
-							if (finalParams === EMPTY_PARAMS) {
-								finalParams = { ...matchResult.params };
-							} else {
-								finalParams = { ...finalParams, ...matchResult.params };
-							}
-						}
-						middlewares[middlewareCount++] = mw.handler;
-					}
+			for (const hook of this.hooks.beforeHandle) {
+				const result = await hook(ctx);
+				if (result instanceof Response) {
+					return result;
 				}
 			}
 
-			// Create context once
-			const ctx = this.createContext(req, finalParams, parsedUrl, clientIp, env);
-
-			// Execute middleware and handlers
-			const handlers = matched.handlers;
-
-			// Build the complete middleware chain
-			const allMiddleware: Middleware<T, B>[] = [];
-
-			// Add middlewares first
-			for (let i = 0; i < middlewareCount; i++) {
-				allMiddleware.push(middlewares[i]);
-			}
-
-			// Add route handlers
-			if (handlers) {
-				allMiddleware.push(...handlers);
-			}
-
 			// If there are no handlers at all (neither middleware nor route handlers)
-			if (allMiddleware.length === 0) {
-				return this.createNotFoundResponse(req, parsedUrl, clientIp);
+			if (chain.handlers.length === 0) {
+				return await this.createNotFoundResponse(req, parsedUrl, info);
 			}
 
-			// Create the composed middleware chain
-			let currentIndex = 0;
-			let response: any = undefined;
-
-			const dispatch = async (): Promise<Response | void> => {
-				if (currentIndex >= allMiddleware.length) {
-					return;
-				}
-
-				const middleware = allMiddleware[currentIndex++];
-				const result = await middleware(ctx, dispatch);
-
-				// Store the response if one was returned
-				if (result instanceof Response) {
-					response = result;
-				}
-
-				return result;
-			};
-
-			// Start the middleware chain
-			await dispatch();
-
-			if (response instanceof Response) {
+			let response: Response | undefined;
+			if (this.devRedactHeaders) {
+				// Record which handlers of the chain ran, for the development error page
+				const entries = chain.handlers.map((handler): DevChainEntry => ({
+					name: handler.name || "anonymous",
+					kind: matched.handlers?.includes(handler) ? "handler" : "middleware",
+					ran: false,
+				}));
+				devChain = entries;
+				response = await composeMiddleware(
+					chain.handlers.map((handler, i): Middleware<T, B> => (c, next) => {
+						entries[i]!.ran = true;
+						return handler(c, next);
+					})
+				)(ctx);
+			} else {
+				response = await chain.run(ctx);
+			}
+			if (response) {
 				return response;
 			}
 
 			// If no response was returned, check if we had actual route handlers
 			// If we only had middleware (no route handlers), this is a 404
-			if (!handlers || handlers.length === 0) {
-				return this.createNotFoundResponse(req, parsedUrl, clientIp);
+			if (!matched.handlers || matched.handlers.length === 0) {
+				return await this.createNotFoundResponse(req, parsedUrl, info);
 			}
 
 			// If we had route handlers but they didn't return a response, that's a 500
-			return new Response("No response returned by handler", { status: 500 });
+			return this.createNoResponseError(ctx);
 		} catch (err) {
-			if (this.errorHandler) {
-				// We need to create a minimal context for error handling
-				const errorCtx: Context<T, B> = {
-					req,
-					params: EMPTY_PARAMS,
-					state: {} as T,
-					env: env || ({} as B),
-					clientIp,
-					// Minimal implementations for error handling
-					text: (data, status = 500) => new Response(data, { status }),
-					json: (data, status = 500) =>
-						new Response(JSON.stringify(data), {
-							status,
-							headers: new Headers({ "Content-Type": "application/json" }),
-						}),
-					html: (html, status = 500) =>
-						new Response(html, {
-							status,
-							headers: new Headers({ "Content-Type": "text/html; charset=utf-8" }),
-						}),
-					query: () => parsedUrl.searchParams || EMPTY_SEARCH_PARAMS,
-					body: async () => ({} as any),
-					header: () => {},
-					set: () => {},
-					get: () => undefined as any,
-					redirect: () => new Response(null, { status: 302 }),
-				};
-				return this.errorHandler(err as Error, errorCtx);
+			if (outcome) outcome.error = err;
+			return this.createErrorResponse(err, req, parsedUrl, info, ctx, devChain);
+		}
+	}
+
+	/**
+	 * Creates the response for an uncaught error: the handler registered for the error's class, the
+	 * global error handler, the response of an `HTTPException` or a plain 500 response, in that order.
+	 *
+	 * @param err - The thrown error
+	 * @param req - The request that failed
+	 * @param parsedUrl - Pre-parsed URL components
+	 * @param info - Runtime information from the adapter that received the request
+	 * @param ctx - Context of the failed request, if one was created
+	 * @param devChain - Middleware chain of the failed request, recorded in development mode
+	 * @returns Promise that resolves to the error response
+	 * @private
+	 */
+	private async createErrorResponse(
+		err: unknown,
+		req: Request,
+		parsedUrl: { pathname: string; searchParams?: URLSearchParams },
+		info: RequestInfo<B>,
+		ctx?: Context<T, B>,
+		devChain?: DevChainEntry[]
+	): Promise<Response> {
+		const classHandlerApp = this.findHandlerApp(req, parsedUrl.pathname, (app) => app.findErrorClassHandler(err) !== undefined);
+		const handler: ErrorHandler<any, T, B> | undefined =
+			classHandlerApp.findErrorClassHandler(err) ?? this.findHandlerApp(req, parsedUrl.pathname, (app) => app.errorHandler !== undefined).errorHandler;
+		if (!handler) {
+			if (err instanceof HTTPException) {
+				if (!this.problemDetailsOptions) return err.getResponse();
+
+				const detail = err.message === STATUS_TEXT[err.status] ? undefined : err.message;
+				const res = (ctx ?? this.createContext(req, EMPTY_PARAMS, parsedUrl, info)).problem(err.status, { detail });
+				new Headers(err.headers).forEach((value, name) => res.headers.set(name, value));
+				return res;
 			}
-			return new Response("Internal Server Error", { status: 500 });
+			if (this.devRedactHeaders) return this.createDevErrorResponse(err, req, info, ctx, devChain);
+			if (!this.problemDetailsOptions) return new Response("Internal Server Error", { status: 500 });
+			return (ctx ?? this.createContext(req, EMPTY_PARAMS, parsedUrl, info)).problem(500);
+		}
+
+		const errorCtx = ctx ?? this.createContext(req, EMPTY_PARAMS, parsedUrl, info);
+		// Response helpers default to the status of an HTTPException, or 500, in error handlers
+		const errorStatus = err instanceof HTTPException ? err.status : 500;
+		return handler(err, {
+			...errorCtx,
+			json: (data, status = errorStatus, headers) => errorCtx.json(data, status, headers),
+			text: (data, status = errorStatus, headers) => errorCtx.text(data, status, headers),
+			html: (html, status = errorStatus, headers) => errorCtx.html(html, status, headers),
+		});
+	}
+
+	/**
+	 * Creates the development error page for an uncaught error: HTML if the client accepts it, JSON otherwise.
+	 *
+	 * @param err - The thrown error
+	 * @param req - The request that failed
+	 * @param info - Runtime information from the adapter that received the request
+	 * @param ctx - Context of the failed request, if one was created
+	 * @param devChain - Middleware chain of the failed request, if it was reached
+	 * @returns Promise that resolves to a 500 response describing the error
+	 * @private
+	 */
+	private async createDevErrorResponse(err: unknown, req: Request, info: RequestInfo<B>, ctx?: Context<T, B>, devChain?: DevChainEntry[]): Promise<Response> {
+		const redact = this.devRedactHeaders!;
+		const headers: Record<string, string> = {};
+		req.headers.forEach((value, name) => {
+			headers[name] = redact.has(name.toLowerCase()) ? "[REDACTED]" : value;
+		});
+
+		const sources = new Map<string, Promise<string[] | null>>();
+		const errors: DevErrorReport["errors"] = [];
+		// Follow the cause chain, guarding against cycles
+		for (let current: unknown = err, depth = 0; current !== undefined && depth < 5; depth++) {
+			const error = current instanceof Error ? current : new Error(String(current));
+			const frames = await Promise.all(
+				parseStackFrames(error.stack ?? "").map(async (frame) => ({ ...frame, source: await readSourceSnippet(frame, sources) }))
+			);
+			errors.push({ name: error.name, message: error.message, frames });
+			if (!(current instanceof Error) || current.cause === current) break;
+			current = current.cause;
+		}
+
+		const report: DevErrorReport = {
+			errors,
+			request: { method: req.method, url: req.url, headers, clientIp: info.clientIp ?? null, runtime: info.runtime },
+			route: ctx?.routePath ? { path: ctx.routePath, id: ctx.routeId ?? null, name: ctx.routeName ?? null, params: ctx.params } : null,
+			middleware: devChain ?? [],
+			state: toSerializable(ctx?.state ?? {}),
+		};
+
+		const responseHeaders = { "Cache-Control": "no-store" };
+		if (req.headers.get("accept")?.includes("text/html")) {
+			return new Response(renderDevErrorPage(report), { status: 500, headers: { ...responseHeaders, "Content-Type": "text/html; charset=utf-8" } });
 		}
+		return new Response(JSON.stringify(report, null, 2), { status: 500, headers: { ...responseHeaders, "Content-Type": "application/json" } });
 	}
 
 	/**
@@ -1641,7 +3566,7 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 			}
 		}
 
-		return this.handleWithIp(req, clientIp);
+		return this.handleRequest(req, { runtime: "bun", clientIp, server });
 	}
 
 	/**
@@ -1664,7 +3589,7 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 	async handleDeno(req: Request, info: unknown): Promise<Response> {
 		// Extract client IP from Deno's ServeHandlerInfo
 		const clientIp = (info as any)?.remoteAddr?.hostname;
-		return this.handleWithIp(req, clientIp);
+		return this.handleRequest(req, { runtime: "deno", clientIp, denoInfo: info });
 	}
 
 	/**
@@ -1685,7 +3610,7 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 	 */
 	async handleCloudflare(req: Request, env?: unknown, ctx?: unknown): Promise<Response> {
 		const clientIp = req.headers.get("CF-Connecting-IP") || undefined;
-		return this.handleWithIp(req, clientIp, env as B);
+		return this.handleRequest(req, { runtime: "cloudflare", clientIp, env: env as B, executionCtx: ctx as ExecutionContext | undefined });
 	}
 
 	/**
@@ -1754,7 +3679,7 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 			});
 
 			// Handle the request with extracted IP
-			const response = await this.handleWithIp(webRequest, clientIp);
+			const response = await this.handleRequest(webRequest, { runtime: "node", clientIp, nodeReq, nodeRes });
 
 			// Convert Web Response to Node.js response
 			const responseHeaders: Record<string, string> = {};
@@ -1952,178 +3877,1431 @@ export class Web<T extends Record<string, unknown> = Record<string, unknown>, B
 				});
 			}
 
-			return server;
-		} else if (Runtime.isCloudflareWorkers) {
-			const server: Server = {
-				port,
-				hostname,
-				runtime: "cloudflare-workers",
-				instance: null as any, // No actual server instance in Workers
+			return server;
+		} else if (Runtime.isCloudflareWorkers) {
+			const server: Server = {
+				port,
+				hostname,
+				runtime: "cloudflare-workers",
+				instance: null as any, // No actual server instance in Workers
+
+				publish: (topic: string, data: string | Bun.ArrayBufferView | ArrayBuffer | SharedArrayBuffer, compress?: boolean): number => {
+					return 0;
+				},
+
+				get pendingRequests(): number {
+					return 0;
+				},
+
+				get pendingWebSockets(): number {
+					return 0;
+				},
+
+				subscriberCount: (topic: string): number => {
+					return 0;
+				},
+
+				stop: async (): Promise<void> => {
+					// Not for Cloudflare Workers
+				},
+			};
+
+			if (onListen) {
+				onListen({
+					port: server.port,
+					hostname: server.hostname,
+					runtime: server.runtime,
+				});
+			}
+
+			return server;
+		} else if (Runtime.isNode) {
+			// Node.js runtime
+			const module: "http" | "https" = nodeOptions.https ? "https" : "http";
+			const { createServer } = await import(module);
+
+			let nodeServer: NodeServerInstance;
+
+			const requestHandler = (req: any, res: any): void => {
+				this.handleNode(req, res).catch((err: Error) => {
+					if (!res.headersSent) {
+						res.writeHead(500, { "Content-Type": "text/plain" });
+						res.end("Internal Server Error");
+					}
+				});
+			};
+
+			if (nodeOptions.https) {
+				// HTTPS server
+				const httpsOptions: Record<string, any> = {
+					key: nodeOptions.key,
+					cert: nodeOptions.cert,
+				};
+				nodeServer = (createServer as any)(httpsOptions, requestHandler) as NodeServerInstance;
+			} else {
+				// HTTP server
+				nodeServer = createServer(requestHandler) as NodeServerInstance;
+			}
+
+			// Start listening
+			await new Promise<void>((resolve, reject) => {
+				const errorHandler = (err: Error): void => {
+					reject(err);
+				};
+
+				nodeServer.on("error", errorHandler);
+
+				nodeServer.listen(port, hostname, () => {
+					nodeServer.off("error", errorHandler);
+					resolve();
+				});
+			});
+
+			const server: Server = {
+				port,
+				hostname,
+				runtime: "node",
+				instance: nodeServer,
+
+				publish: (topic: string, data: string | Bun.ArrayBufferView | ArrayBuffer | SharedArrayBuffer, compress?: boolean): number => {
+					return 0;
+				},
+
+				get pendingRequests(): number {
+					return 0;
+				},
+
+				get pendingWebSockets(): number {
+					return 0;
+				},
+
+				subscriberCount: (topic: string): number => {
+					return 0;
+				},
+
+				stop: async (): Promise<void> => {
+					return new Promise<void>((resolve, reject) => {
+						nodeServer.close((err?: Error) => {
+							if (err) {
+								reject(err);
+							} else {
+								resolve();
+							}
+						});
+					});
+				},
+			};
+
+			if (onListen) {
+				onListen({
+					port: server.port,
+					hostname: server.hostname,
+					runtime: server.runtime,
+				});
+			}
+
+			return server;
+		} else {
+			throw new Error(`Unsupported runtime. This framework supports Bun, Deno, Node.js and Cloudflare Workers.`);
+		}
+	}
+
+	/**
+	 * Sets up WebSocket handlers for Bun runtime.
+	 * This method must be called before starting the server with listen().
+	 *
+	 * @param handlers - WebSocket handler configuration
+	 * @returns The Web instance for method chaining
+	 *
+	 * @example
+	 * ```typescript
+	 * app.websocket({
+	 *   idleTimeout: 120,
+	 *   maxPayloadLength: 1024 * 1024,
+	 *   open(ws) {
+	 *     console.log('WebSocket connected');
+	 *     ws.subscribe('prices');
+	 *   },
+	 *   message(ws, message) {
+	 *     console.log('Received:', message);
+	 *   },
+	 *   close(ws) {
+	 *     ws.unsubscribe('prices');
+	 *   }
+	 * });
+	 *
+	 * // Then use in a route
+	 * app.get('/ws', (ctx) => {
+	 *   if (ctx.req.headers.get('upgrade') === 'websocket') {
+	 *     // The upgrade will be handled automatically by the framework
+	 *     return new Response(null, { status: 101 });
+	 *   }
+	 *   return ctx.text('WebSocket endpoint');
+	 * });
+	 * ```
+	 */
+	websocket(handlers: BunWebSocketHandler): this {
+		this.assertNotMounted("set WebSocket handlers");
+		this.bunWebSocket = handlers;
+		return this;
+	}
+}
+
+/** Route schema of an application type */
+type SchemaOf<App> = App extends Web<any, any, any, infer S> ? S : never;
+
+/**
+ * Creates a typed RPC client for an application. Route types are taken from the application's
+ * type, so routes must be registered through chained calls (`new Web().get(...).post(...)`) or
+ * mounted with `route()`/`scope()`. Path segments become properties and methods are called with
+ * `$get()`, `$post()`, ...; the response type of `json()` is inferred from the handler's `ctx.json()`.
+ *
+ * @param baseUrl - Base URL of the application (e.g., "https://api.example.com")
+ * @param options - Fetch implementation and headers sent with every request
+ * @returns The RPC client
+ *
+ * @example
+ * ```typescript
+ * // server.ts
+ * export const app = new Web()
+ *   .get('/users/:id', (ctx) => ctx.json({ id: ctx.params.id, name: 'Ann' }))
+ *   .post('/users', async (ctx) => ctx.json(await createUser(await ctx.body()), 201));
+ *
+ * // client.ts
+ * const client = createClient<typeof app>('https://api.example.com', { headers: { Authorization: `Bearer ${token}` } });
+ * const res = await client.users[':id'].$get({ param: { id: '1' } });
+ * const user = await res.json(); // { id: string; name: string }
+ *
+ * // In tests, requests can go straight to the application without a network
+ * const local = createClient(app);
+ * ```
+ */
+export function createClient<App extends Web<any, any, any, any>>(baseUrl: string, options?: ClientOptions): Client<SchemaOf<App>>;
+/**
+ * Creates a typed RPC client that sends requests directly to `app.handle()`, without a network.
+ *
+ * @param app - The application to call
+ * @param options - Fetch implementation and headers sent with every request
+ * @returns The RPC client
+ */
+export function createClient<App extends Web<any, any, any, any>>(app: App, options?: ClientOptions): Client<SchemaOf<App>>;
+export function createClient(target: string | Web<any, any, any, any>, options: ClientOptions = {}): unknown {
+	const baseUrl = typeof target === "string" ? target.replace(/\/+$/, "") : "http://localhost";
+	const send = options.fetch ?? (typeof target === "string" ? (request: Request) => fetch(request) : target.handle);
+
+	const request = (method: string, segments: string[], data: ClientRequest<Params> = {}, init: RequestInit = {}) => {
+		const pattern = segments.length === 1 && segments[0] === "index" ? "/" : "/" + segments.join("/");
+		const url = baseUrl + buildPath(pattern, (data.param ?? {}) as Record<string, string>, pattern) + buildQueryString(data.query);
+
+		const headers = new Headers(options.headers);
+		for (const [name, value] of Object.entries(data.headers ?? {})) headers.set(name, value);
+
+		let body: BodyInit | undefined;
+		if (data.json !== undefined) {
+			body = JSON.stringify(data.json);
+			headers.set("Content-Type", "application/json");
+		} else if (data.form) {
+			const entries = Object.entries(data.form);
+			if (entries.some(([, value]) => typeof value !== "string")) {
+				const form = new FormData();
+				for (const [name, value] of entries) form.append(name, value);
+				body = form;
+			} else {
+				body = new URLSearchParams(entries as [string, string][]);
+			}
+		}
+
+		return send(new Request(url, { ...init, method, headers, body }));
+	};
+
+	const createProxy = (segments: string[]): unknown =>
+		new Proxy(
+			{},
+			{
+				get: (_, key) => {
+					// Path proxies must not look like promises when returned from async functions
+					if (typeof key !== "string" || key === "then") return undefined;
+					if (key[0] === "$") {
+						return (data?: ClientRequest<Params>, init?: RequestInit) => request(key.slice(1).toUpperCase(), segments, data, init);
+					}
+					return createProxy([...segments, key]);
+				},
+			}
+		);
+
+	return createProxy([]);
+}
+
+/** Characters allowed in parameter names */
+const WORD_CHAR = /\w/;
+
+/** Characters that must be escaped to be matched literally in a regular expression */
+const REGEXP_SPECIAL_CHARS = /[.*+?^${}()|[\]\\]/g;
+
+/**
+ * Finds the parenthesis closing the constraint group that starts at `open`.
+ * Escaped characters and character classes are skipped.
+ * @internal
+ */
+function findClosingParen(source: string, open: number): number {
+	let depth = 0;
+	let inClass = false;
+
+	for (let i = open; i < source.length; i++) {
+		const char = source[i];
+		if (char === "\\") {
+			i++;
+		} else if (inClass) {
+			if (char === "]") inClass = false;
+		} else if (char === "[") {
+			inClass = true;
+		} else if (char === "(") {
+			depth++;
+		} else if (char === ")" && --depth === 0) {
+			return i;
+		}
+	}
+
+	return -1;
+}
+
+/**
+ * A piece of a single path segment: static text or a parameter with an optional constraint.
+ * @internal
+ */
+type SegmentToken = { type: "text"; value: string } | { type: "param"; name: string; constraint?: string };
+
+/**
+ * Splits a single path segment into static text and parameter tokens.
+ *
+ * @param segment - The raw path segment without an optional marker (e.g., ":name.:ext", "v:version(\\d+)")
+ * @returns The tokens in order of appearance
+ * @throws {Error} If a constraint is not terminated
+ *
+ * @example
+ * ```typescript
+ * tokenizeSegment("v:version(\\d+)");
+ * // [{ type: "text", value: "v" }, { type: "param", name: "version", constraint: "\\d+" }]
+ * ```
+ */
+function tokenizeSegment(segment: string): SegmentToken[] {
+	const tokens: SegmentToken[] = [];
+	let text = "";
+	let i = 0;
+
+	while (i < segment.length) {
+		if (segment[i] === ":" && WORD_CHAR.test(segment[i + 1] ?? "")) {
+			let end = i + 1;
+			while (end < segment.length && WORD_CHAR.test(segment[end]!)) end++;
+			const name = segment.slice(i + 1, end);
+
+			let constraint: string | undefined;
+			if (segment[end] === "(") {
+				const close = findClosingParen(segment, end);
+				if (close === -1) {
+					throw new Error(`Unterminated constraint for route parameter ":${name}" in "${segment}"`);
+				}
+				constraint = segment.slice(end + 1, close);
+				end = close + 1;
+			}
+
+			if (text) {
+				tokens.push({ type: "text", value: text });
+				text = "";
+			}
+			tokens.push({ type: "param", name, constraint });
+			i = end;
+		} else {
+			text += segment[i];
+			i++;
+		}
+	}
+
+	if (text) tokens.push({ type: "text", value: text });
+	return tokens;
+}
+
+/**
+ * Compiles the parameters and static text of a single path segment into a regular expression.
+ * Parameters without a constraint match lazily, so in ":name.:ext" the name stops at the first dot.
+ *
+ * @param segment - The raw path segment without an optional marker (e.g., ":name.:ext", "v:version(\\d+)")
+ * @param caseSensitive - Whether static text and constraints are matched case-sensitively
+ * @returns The compiled matcher and whether the segment is a single parameter with no static text
+ * @throws {Error} If a constraint is not terminated
+ * @internal
+ */
+function compileSegmentMatcher(segment: string, caseSensitive = true): { matcher: SegmentMatcher; single: boolean; constrained: boolean } {
+	const tokens = tokenizeSegment(segment);
+	const names: string[] = [];
+	const groups: number[] = [];
+	let source = "";
+	let group = 1;
+	let constrained = false;
+
+	for (const token of tokens) {
+		if (token.type === "text") {
+			source += token.value.replace(REGEXP_SPECIAL_CHARS, "\\$&");
+			continue;
+		}
+
+		const constraint = token.constraint ?? ".+?";
+		if (token.constraint !== undefined) constrained = true;
+
+		names.push(token.name);
+		groups.push(group);
+		source += `(${constraint})`;
+		// Skip over any capture groups inside the constraint itself
+		group += 1 + (new RegExp(`${constraint}|`).exec("")!.length - 1);
+	}
+
+	return {
+		matcher: { regex: new RegExp(`^${source}$`, caseSensitive ? "" : "i"), names, groups },
+		single: tokens.length === 1 && names.length === 1,
+		constrained,
+	};
+}
+
+/**
+ * Compiles a host pattern into a case-insensitive matcher. Labels are separated by dots and may contain
+ * parameters (":tenant", "api-:region"); a leading "*" label matches one or more labels.
+ *
+ * @param pattern - The host pattern (e.g., "api.example.com", ":tenant.example.com", "*.example.com", "*")
+ * @returns The compiled matcher and the pattern's priority rank (0 exact, 1 with parameters, 2 wildcard)
+ * @throws {Error} If "*" is used anywhere but as the first label
+ *
+ * @example
+ * ```typescript
+ * compileHostPattern(":tenant.example.com");
+ * // { matcher: { regex: /^([^.]+)\.example\.com$/i, names: ["tenant"], groups: [1] }, rank: 1 }
+ * ```
+ */
+function compileHostPattern(pattern: string): { matcher: SegmentMatcher; rank: number } {
+	const labels = pattern.split(".");
+	const names: string[] = [];
+	const groups: number[] = [];
+	const sources: string[] = [];
+	let group = 1;
+	let rank = 0;
+
+	for (let i = 0; i < labels.length; i++) {
+		const label = labels[i]!;
+
+		if (label === "*") {
+			if (i !== 0) {
+				throw new Error(`Wildcard is only supported as the first label of a host pattern: "${pattern}"`);
+			}
+			sources.push(".+");
+			rank = 2;
+			continue;
+		}
+
+		let source = "";
+		for (const token of tokenizeSegment(label)) {
+			if (token.type === "text") {
+				source += token.value.replace(REGEXP_SPECIAL_CHARS, "\\$&");
+				continue;
+			}
+
+			const constraint = token.constraint ?? "[^.]+";
+			names.push(token.name);
+			groups.push(group);
+			source += `(${constraint})`;
+			group += 1 + (new RegExp(`${constraint}|`).exec("")!.length - 1);
+			rank = Math.max(rank, 1);
+		}
+		sources.push(source);
+	}
+
+	return { matcher: { regex: new RegExp(`^${sources.join("\\.")}$`, "i"), names, groups }, rank };
+}
+
+/**
+ * Parses a single route path segment into its static, parameter, composite or wildcard form.
+ *
+ * @param segment - The raw path segment (e.g., "users", ":id(\\d+)", ":lang?", ":name.:ext", "*path")
+ * @param caseSensitive - Whether the segment is matched case-sensitively; static values are lowercased otherwise
+ * @returns The parsed segment
+ * @throws {Error} If a constraint is malformed or an optional marker is used in a composite segment
+ *
+ * @example
+ * ```typescript
+ * parsePathSegment(":id(\\d+)"); // { type: "param", name: "id", matcher: {...}, optional: false }
+ * parsePathSegment("v:version"); // { type: "composite", matcher: { regex: /^v(.+?)$/, names: ["version"], groups: [1] } }
+ * parsePathSegment("*path"); // { type: "wildcard", name: "path" }
+ * ```
+ */
+function parsePathSegment(segment: string, caseSensitive = true): PathSegment {
+	if (segment[0] === "*") {
+		return { type: "wildcard", name: segment.length > 1 ? segment.slice(1) : "*" };
+	}
+
+	if (!segment.includes(":")) {
+		return { type: "static", value: caseSensitive ? segment : segment.toLowerCase() };
+	}
+
+	const optional = segment[segment.length - 1] === "?";
+	const { matcher, single, constrained } = compileSegmentMatcher(optional ? segment.slice(0, -1) : segment, caseSensitive);
+
+	if (matcher.names.length === 0) {
+		return { type: "static", value: caseSensitive ? segment : segment.toLowerCase() };
+	}
+
+	if (single) {
+		return { type: "param", name: matcher.names[0]!, matcher: constrained ? matcher : undefined, optional };
+	}
+
+	if (optional) {
+		throw new Error(`Optional marker is only supported on whole-segment parameters: "${segment}"`);
+	}
+
+	return { type: "composite", matcher };
+}
+
+/**
+ * Parses route path segments and determines how many of them must be present for a match.
+ * Optional parameters are only allowed at the end of a path.
+ *
+ * @param rawSegments - The route pattern segments (e.g., ["docs", ":lang?"])
+ * @param caseSensitive - Whether the pattern is matched case-sensitively
+ * @returns The parsed segments and the minimum number of URL segments required
+ * @throws {Error} If an optional parameter is followed by a required segment
+ *
+ * @example
+ * ```typescript
+ * parsePathPattern(["docs", ":lang?"]); // { segments: [...], minLength: 1 }
+ * ```
+ */
+function parsePathPattern(rawSegments: string[], caseSensitive = true): { segments: PathSegment[]; minLength: number } {
+	const segments = rawSegments.map((segment) => parsePathSegment(segment, caseSensitive));
+
+	let minLength = segments.length;
+	while (minLength > 0) {
+		const segment = segments[minLength - 1]!;
+		if (segment.type !== "param" || !segment.optional) break;
+		minLength--;
+	}
+
+	for (let i = 0; i < minLength; i++) {
+		const segment = segments[i]!;
+		if (segment.type === "param" && segment.optional) {
+			throw new Error(`Optional parameter ":${segment.name}?" must be at the end of the path "/${rawSegments.join("/")}"`);
+		}
+	}
+
+	return { segments, minLength };
+}
+
+/**
+ * Inserts the first `length` parsed segments into the trie, creating nodes as needed.
+ * Constrained and composite segments that compile to the same pattern reuse the same node.
+ * A reused parameter node keeps the parameter names it was created with, and records the names
+ * each route asked for so they can be handed over when routes are removed.
+ *
+ * @param root - The trie root for the route's method
+ * @param segments - The parsed route segments
+ * @param length - Number of segments to insert
+ * @param routeId - ID of the route being inserted
+ * @param onNameConflict - Called when a reused parameter node has different parameter names than the segment,
+ *   with the ID of the route the names in use belong to
+ * @returns The node representing the inserted path
+ */
+function insertTrieNode<T extends Record<string, unknown>, B extends Record<string, unknown>>(
+	root: TrieNode<T, B>,
+	segments: PathSegment[],
+	length: number,
+	routeId: string,
+	onNameConflict?: (existing: string, incoming: string, existingId: string) => void
+): TrieNode<T, B> {
+	let node = root;
+
+	for (let i = 0; i < length; i++) {
+		const segment = segments[i]!;
+
+		if (segment.type === "wildcard") {
+			if (!node.wildcardChild) {
+				node.wildcardChild = { node: new TrieNode("*"), name: segment.name, users: new Map() };
+			} else if (node.wildcardChild.name !== segment.name) {
+				const { name, users } = node.wildcardChild;
+				onNameConflict?.(formatWildcardName(name), formatWildcardName(segment.name), findTrieNameOwner(users, name, formatWildcardName));
+			}
+			node.wildcardChild.users.set(routeId, segment.name);
+			return node.wildcardChild.node;
+		}
+
+		if (segment.type === "composite" || (segment.type === "param" && segment.matcher)) {
+			const matcher = segment.matcher!;
+			if (!node.patternChildren) node.patternChildren = [];
+			let child = node.patternChildren.find((c) => c.matcher.regex.source === matcher.regex.source);
+			if (!child) {
+				child = { node: new TrieNode(matcher.regex.source), matcher, users: new Map() };
+				node.patternChildren.push(child);
+			} else if (child.matcher.names.join() !== matcher.names.join()) {
+				const owner = findTrieNameOwner(child.users, child.matcher, formatMatcherNames);
+				onNameConflict?.(formatParamNames(child.matcher.names), formatParamNames(matcher.names), owner);
+			}
+			child.users.set(routeId, matcher);
+			node = child.node;
+			continue;
+		}
+
+		if (segment.type === "param") {
+			if (!node.paramChild) {
+				node.paramChild = { node: new TrieNode(`:${segment.name}`), name: segment.name, users: new Map() };
+			} else if (node.paramChild.name !== segment.name) {
+				const { name, users } = node.paramChild;
+				onNameConflict?.(`:${name}`, `:${segment.name}`, findTrieNameOwner(users, name, formatParamName));
+			}
+			node.paramChild.users.set(routeId, segment.name);
+			node = node.paramChild.node;
+			continue;
+		}
+
+		let child = node.children.get(segment.value);
+		if (!child) {
+			child = new TrieNode(segment.value);
+			node.children.set(segment.value, child);
+		}
+		node = child;
+	}
+
+	return node;
+}
+
+/**
+ * Finds the route a shared parameter node takes its names from: the earliest route passing through it
+ * that asked for the names in use.
+ *
+ * @param users - The names each route passing through the node asked for, in registration order
+ * @param current - The names in use
+ * @param format - Formats names for comparison
+ * @returns The ID of the route
+ */
+function findTrieNameOwner<V>(users: Map<string, V>, current: V, format: (names: V) => string): string {
+	const label = format(current);
+	for (const [id, names] of users) {
+		if (format(names) === label) return id;
+	}
+	return users.keys().next().value!;
+}
+
+/**
+ * Releases a route from the parameter nodes on its path. A node whose names came from the route and
+ * is still used by other routes takes the names of the earliest remaining route asking for the same
+ * names, or else of the earliest remaining route.
+ *
+ * @param trail - The nodes from the root along the full path of the route
+ * @param routeId - ID of the route being removed
+ * @param onNameConflict - Called for each remaining route whose names differ from a renamed node,
+ *   with the ID of the route the node now takes its names from
+ */
+function releaseTrieNames<T extends Record<string, unknown>, B extends Record<string, unknown>>(
+	trail: TrieNode<T, B>[],
+	routeId: string,
+	onNameConflict: (userId: string, existing: string, incoming: string, existingId: string) => void
+) {
+	const release = <V>(users: Map<string, V>, current: V, format: (names: V) => string): V | undefined => {
+		const owner = findTrieNameOwner(users, current, format);
+		users.delete(routeId);
+		if (owner !== routeId || users.size === 0) return undefined;
+
+		const next = findTrieNameOwner(users, current, format);
+		const names = users.get(next)!;
+		for (const [id, requested] of users) {
+			if (format(requested) !== format(names)) onNameConflict(id, format(names), format(requested), next);
+		}
+		return names;
+	};
+
+	for (let i = 1; i < trail.length; i++) {
+		const parent = trail[i - 1]!;
+		const node = trail[i]!;
+
+		if (parent.wildcardChild?.node === node) {
+			const child = parent.wildcardChild;
+			child.name = release(child.users, child.name, formatWildcardName) ?? child.name;
+		} else if (parent.paramChild?.node === node) {
+			const child = parent.paramChild;
+			child.name = release(child.users, child.name, formatParamName) ?? child.name;
+		} else {
+			const child = parent.patternChildren?.find((c) => c.node === node);
+			if (child) child.matcher = release(child.users, child.matcher, formatMatcherNames) ?? child.matcher;
+		}
+	}
+}
+
+/**
+ * Finds the node for the first `length` parsed segments without creating nodes.
+ *
+ * @param root - The trie root for the route's method
+ * @param segments - The parsed route segments
+ * @param length - Number of segments to follow
+ * @returns The nodes from the root to the found node, or undefined if the path is not in the trie
+ */
+function findTrieTrail<T extends Record<string, unknown>, B extends Record<string, unknown>>(
+	root: TrieNode<T, B>,
+	segments: PathSegment[],
+	length: number
+): TrieNode<T, B>[] | undefined {
+	const trail = [root];
+	let node: TrieNode<T, B> | undefined = root;
+
+	for (let i = 0; i < length && node; i++) {
+		const segment = segments[i]!;
+
+		if (segment.type === "wildcard") {
+			node = node.wildcardChild?.node;
+		} else if (segment.type === "composite" || (segment.type === "param" && segment.matcher)) {
+			const source = segment.matcher!.regex.source;
+			node = node.patternChildren?.find((child) => child.matcher.regex.source === source)?.node;
+		} else if (segment.type === "param") {
+			node = node.paramChild?.node;
+		} else {
+			node = node.children.get(segment.value);
+		}
+
+		if (node) trail.push(node);
+		if (segment.type === "wildcard") break;
+	}
+
+	return node ? trail : undefined;
+}
+
+/**
+ * Checks whether a trie node has no route and no children.
+ *
+ * @param node - The node to check
+ * @returns True if the node can be pruned
+ */
+function isEmptyTrieNode<T extends Record<string, unknown>, B extends Record<string, unknown>>(node: TrieNode<T, B>): boolean {
+	return (
+		!node.handlers &&
+		!node.shadowed?.length &&
+		node.children.size === 0 &&
+		!node.patternChildren?.length &&
+		!node.paramChild &&
+		!node.wildcardChild
+	);
+}
+
+/**
+ * Detaches empty nodes from the end of a trail, walking up until a node is still in use.
+ * The root (first node) is never detached.
+ *
+ * @param trail - The nodes from the root to a node whose route was removed
+ */
+function pruneTrieTrail<T extends Record<string, unknown>, B extends Record<string, unknown>>(trail: TrieNode<T, B>[]) {
+	for (let i = trail.length - 1; i > 0; i--) {
+		const node = trail[i]!;
+		if (!isEmptyTrieNode(node)) return;
+
+		const parent = trail[i - 1]!;
+		if (parent.wildcardChild?.node === node) {
+			parent.wildcardChild = undefined;
+		} else if (parent.paramChild?.node === node) {
+			parent.paramChild = undefined;
+		} else if (parent.patternChildren?.some((child) => child.node === node)) {
+			parent.patternChildren = parent.patternChildren.filter((child) => child.node !== node);
+		} else {
+			parent.children.delete(node.segment!);
+		}
+	}
+}
+
+/**
+ * Copies the route fields of a trie node.
+ *
+ * @param node - The node holding a route
+ * @returns The route fields
+ */
+function getTrieRouteEntry<T extends Record<string, unknown>, B extends Record<string, unknown>>(node: TrieNode<T, B>): TrieRouteEntry<T, B> {
+	const { handlers, method, routeId, routePath, routeName } = node;
+	return { handlers, method, routeId, routePath, routeName };
+}
+
+/**
+ * Resolves the `router` option to a router factory.
+ *
+ * @param router - Name of a built-in router or a router factory
+ * @returns The router factory
+ * @throws {Error} If the name is not a built-in router
+ */
+function resolveRouterFactory(router: RouterName | RouterFactory = "trie"): RouterFactory {
+	if (typeof router === "function") return router;
+
+	const factory = BUILT_IN_ROUTERS[router];
+	if (!factory) {
+		throw new Error(`Unknown router "${router}"; expected one of ${Object.keys(BUILT_IN_ROUTERS).join(", ")} or a router factory`);
+	}
+	return factory;
+}
+
+/**
+ * Reports segments following a wildcard, which can never be matched.
+ *
+ * @param route - The route being added
+ * @param segments - The parsed route segments
+ * @returns The conflict, if any
+ */
+function getWildcardConflicts(route: RouterRoute<any, any>, segments: PathSegment[]): RouterConflict[] {
+	const { method, path, host } = route;
+	const wildcardIndex = segments.findIndex((segment) => segment.type === "wildcard");
+	if (wildcardIndex === -1 || wildcardIndex === segments.length - 1) return [];
+
+	return [
+		{
+			type: "unreachable",
+			method,
+			path,
+			host,
+			message: `Segments after the wildcard in "${method} ${host ?? ""}${path}" can never be matched`,
+		},
+	];
+}
+
+/**
+ * Describes a route replacing an earlier route for the same method and pattern (or the same
+ * path length of a pattern with optional parameters).
+ *
+ * @param route - The route being added
+ * @param existingPath - Pattern of the replaced route
+ * @param existingId - ID of the replaced route
+ * @param length - Number of path segments the routes overlap on
+ * @returns A `duplicate` conflict for identical patterns, an `unreachable` conflict otherwise
+ */
+function createOverrideConflict(route: RouterRoute<any, any>, existingPath: string, existingId: string, length: number): RouterConflict {
+	const { method, path, host } = route;
+	const target = `${method} ${host ?? ""}${path}`;
+
+	if (existingPath === path) {
+		return { type: "duplicate", method, path, host, existingPath, existingId, message: `Duplicate route "${target}": the new handlers replace the existing ones` };
+	}
+	return {
+		type: "unreachable",
+		method,
+		path,
+		host,
+		existingPath,
+		existingId,
+		message: `Route "${method} ${host ?? ""}${existingPath}" is unreachable for "/${route.segments
+			.slice(0, length)
+			.join("/")}": it is overridden by "${target}"`,
+	};
+}
+
+/**
+ * Describes a route whose parameter names differ from the names of a parameter node it shares with an earlier route.
+ *
+ * @param route - The route whose names are not used
+ * @param existing - The formatted names in use
+ * @param incoming - The formatted names the route asked for
+ * @param existingId - ID of the route the names in use belong to
+ * @returns A `param-name` conflict
+ */
+function createParamNameConflict(route: RouterRoute<any, any>, existing: string, incoming: string, existingId: string): RouterConflict {
+	const { method, path, host } = route;
+	return {
+		type: "param-name",
+		method,
+		path,
+		host,
+		existingId,
+		message: `Parameter "${incoming}" in "${method} ${host ?? ""}${path}" conflicts with "${existing}" registered at the same position; the value will be available under the existing name`,
+	};
+}
+
+/**
+ * Removes repeated conflicts, which occur when a path with optional parameters is added for several lengths.
+ *
+ * @param conflicts - The detected conflicts
+ * @returns The conflicts with distinct messages
+ */
+function uniqueConflicts(conflicts: RouterConflict[]): RouterConflict[] {
+	return conflicts.filter((conflict, index) => conflicts.findIndex((c) => c.message === conflict.message) === index);
+}
+
+/**
+ * Joins path segments into a lookup key (e.g., ["users", "42"] -> "/users/42", [] -> "").
+ *
+ * @param segments - The path segments
+ * @returns The joined key
+ */
+function joinSegmentKeys(segments: string[]): string {
+	let key = "";
+	for (const segment of segments) {
+		key += "/" + segment;
+	}
+	return key;
+}
+
+/**
+ * Gets the key identifying the position of a parsed segment among routes of the same method.
+ * Segments with the same key match exactly the same values.
+ * @internal
+ */
+function getSegmentKey(segment: PathSegment): string {
+	if (segment.type === "static") return `=${segment.value}`;
+	if (segment.type === "wildcard") return "*";
+	return segment.type === "param" && !segment.matcher ? ":" : `~${segment.matcher!.regex.source}`;
+}
+
+/**
+ * Gets the matching priority of a parsed segment: 0 static, 1 constrained or composite, 2 parameter, 3 wildcard.
+ * @internal
+ */
+function getSegmentRank(segment: PathSegment): number {
+	if (segment.type === "static") return 0;
+	if (segment.type === "wildcard") return 3;
+	return segment.type === "param" && !segment.matcher ? 2 : 1;
+}
+
+/**
+ * Gets the regular expression source matching a parsed segment including its leading slash.
+ * Constrained and composite segments match any value here and are checked after the match.
+ * @internal
+ */
+function getSegmentSource(segment: PathSegment): string {
+	if (segment.type === "static") return "/" + segment.value.replace(REGEXP_SPECIAL_CHARS, "\\$&");
+	return segment.type === "wildcard" ? "/(.+)" : "/([^/]+)";
+}
+
+/**
+ * Counts the capture groups of a {@link RegExpRouter} variant, one per non-static segment.
+ * @internal
+ */
+function countCaptures(variant: RegExpVariant<any, any>): number {
+	let count = 0;
+	for (const rank of variant.ranks) {
+		if (rank !== 0) count++;
+	}
+	return count;
+}
+
+/**
+ * Compares segment priorities lexicographically, so variants are tried in the order the trie would visit them.
+ * @internal
+ */
+function compareRanks(a: number[], b: number[]): number {
+	const length = Math.min(a.length, b.length);
+	for (let i = 0; i < length; i++) {
+		if (a[i] !== b[i]) return a[i]! - b[i]!;
+	}
+	return 0;
+}
+
+/**
+ * Builds the parameters of a {@link RegExpRouter} variant from its captured values, checking
+ * parameter constraints and composite segments.
+ *
+ * @param variant - The matched variant
+ * @param values - The captured values, one per non-static segment
+ * @returns The parameters, or null if a constraint rejects its value
+ */
+function resolveRegExpParams<T extends Record<string, unknown>, B extends Record<string, unknown>>(
+	variant: RegExpVariant<T, B>,
+	values: (string | undefined)[]
+): Record<string, string> | null {
+	const params: Record<string, string> = {};
+	let index = 0;
+
+	for (const segment of variant.segments) {
+		if (segment.type === "static") continue;
+
+		const decoded = decodePathSegment(values[index++]!);
+		if (decoded === null) return null;
+		if (segment.type === "wildcard" || (segment.type === "param" && !segment.matcher)) {
+			params[segment.name] = decoded;
+			continue;
+		}
+
+		const matcher = segment.matcher!;
+		const match = matcher.regex.exec(decoded);
+		if (!match) return null;
+		const captured = extractSegmentValues(matcher, match);
+		for (let i = 0; i < matcher.names.length; i++) {
+			params[matcher.names[i]!] = captured[i]!;
+		}
+	}
+
+	return Object.keys(params).length === 0 ? EMPTY_PARAMS : params;
+}
+
+/**
+ * Decodes a percent-encoded path segment, or the slash-separated segments captured by a wildcard.
+ *
+ * @param segment - The raw path segment
+ * @returns The decoded segment, or null if it contains a malformed escape sequence (never matches a parameter)
+ */
+function decodePathSegment(segment: string): string | null {
+	try {
+		return decodeURIComponent(segment);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Formats parameter names for diagnostics (e.g., ["name", "ext"] -> ":name, :ext").
+ *
+ * @param names - Parameter names
+ * @returns The formatted names
+ */
+function formatParamNames(names: string[]): string {
+	return names.map((name) => `:${name}`).join(", ");
+}
+
+/**
+ * Formats a parameter name for diagnostics (e.g., "id" -> ":id").
+ *
+ * @param name - Parameter name
+ * @returns The formatted name
+ */
+function formatParamName(name: string): string {
+	return `:${name}`;
+}
+
+/**
+ * Formats the parameter names captured by a segment matcher for diagnostics.
+ *
+ * @param matcher - The segment matcher
+ * @returns The formatted names
+ */
+function formatMatcherNames(matcher: SegmentMatcher): string {
+	return formatParamNames(matcher.names);
+}
+
+/**
+ * Formats a wildcard parameter name for diagnostics ("*" for unnamed wildcards, "*name" otherwise).
+ *
+ * @param name - Wildcard parameter name
+ * @returns The formatted name
+ */
+function formatWildcardName(name: string): string {
+	return name === "*" ? "*" : `*${name}`;
+}
+
+/**
+ * Calls a function once the body of a response has been read to the end, failed or been cancelled.
+ * Responses without a body call it right away; others are rewrapped with a body that reports completion.
+ *
+ * @param res - The response to observe
+ * @param onDone - Called once, with the stream error if reading the body failed or was cancelled
+ * @returns The response to send instead of `res`
+ */
+function trackResponseBody(res: Response, onDone: (error?: unknown) => void): Response {
+	if (!res.body) {
+		onDone();
+		return res;
+	}
+
+	const reader = res.body.getReader();
+	let done = false;
+	const finish = (error?: unknown) => {
+		if (done) return;
+		done = true;
+		onDone(error);
+	};
+
+	const body = new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			try {
+				const chunk = await reader.read();
+				if (chunk.done) {
+					controller.close();
+					finish();
+				} else {
+					controller.enqueue(chunk.value);
+				}
+			} catch (err) {
+				controller.error(err);
+				finish(err);
+			}
+		},
+		cancel(reason) {
+			finish(reason ?? new Error("Response body was cancelled"));
+			return reader.cancel(reason);
+		},
+	});
+
+	return new Response(body, { status: res.status, statusText: res.statusText, headers: res.headers });
+}
+
+/**
+ * Composes middleware and route handlers into a function running them in order, each continuing
+ * the chain by calling `next()`. The chain is composed once per route and cached with it; running a
+ * chain of several handlers allocates one `next()` function bound to the request (`next()` takes no
+ * arguments, so it has to close over the context), a chain with a single handler allocates nothing.
+ * A Response returned by a handler becomes `ctx.res`, so outer handlers see it after `next()` and
+ * can replace it or change its headers; returning the Response `next()` resolved to keeps `ctx.res`.
+ *
+ * @param handlers - The handlers in execution order
+ * @returns Function running the chain for a context and resolving to the final `ctx.res`, if any
+ */
+function composeMiddleware<T extends Record<string, unknown>, B extends Record<string, unknown>>(
+	handlers: Middleware<T, B>[]
+): (ctx: Context<T, B>) => Promise<Response | undefined> {
+	if (handlers.length === 1) {
+		const handler = handlers[0]!;
+		return async (ctx) => {
+			const result = await handler(ctx, NOOP_NEXT);
+			if (result instanceof Response) ctx.res = result;
+			return ctx.res;
+		};
+	}
+
+	const count = handlers.length;
+	return async (ctx) => {
+		let index = 0;
+		// What the last completed next() resolved to. Handlers further down only run through that call,
+		// so when a handler returns this is what its own next() resolved to (undefined if not called).
+		let downstream: Response | undefined;
+
+		const dispatch = async (): Promise<Response | undefined> => {
+			if (index >= count) return;
+
+			const level = index++;
+			const result = await handlers[level]!(ctx, index < count ? dispatch : NOOP_NEXT);
+			// Passing on the downstream response must not undo a replacement of ctx.res
+			if (result instanceof Response && result !== downstream) {
+				ctx.res = result;
+			}
+			downstream = ctx.res;
+			return ctx.res;
+		};
+
+		return dispatch();
+	};
+}
+
+/**
+ * Sets a header on `ctx.res`, replacing it with a copy first if its headers are immutable
+ * (e.g., responses from `fetch()` or `Response.redirect()`).
+ *
+ * @param ctx - The request context with a response
+ * @param name - Header name
+ * @param value - Header value
+ */
+function setResponseHeader<T extends Record<string, unknown>, B extends Record<string, unknown>>(ctx: Context<T, B>, name: string, value: string) {
+	try {
+		ctx.res!.headers.set(name, value);
+	} catch {
+		ctx.res = new Response(ctx.res!.body, ctx.res);
+		ctx.res.headers.set(name, value);
+	}
+}
+
+/**
+ * Wraps a handler so that any response it returns has its body stripped, as required for HEAD requests.
+ * Status and headers are preserved.
+ *
+ * @param handler - The handler to wrap
+ * @returns A handler returning body-less responses
+ */
+function stripResponseBody<T extends Record<string, unknown>, B extends Record<string, unknown>>(handler: Middleware<T, B>): Middleware<T, B> {
+	return async (ctx: Context<T, B>, next: Next) => {
+		const result = await handler(ctx, next);
+		const res = result instanceof Response ? result : ctx.res;
+		if (res) {
+			// Strip the body for HEAD requests
+			return new Response(null, {
+				status: res.status,
+				headers: res.headers,
+			});
+		}
+		return result;
+	};
+}
+
+/**
+ * Walks the trie depth-first to find the node that handles the given path segments.
+ * Alternatives are tried in a fixed priority order, backtracking whenever a branch dead-ends:
+ * 1. Static child (exact segment match)
+ * 2. Constrained and composite parameter children (":name(regex)", ":name.:ext", in registration order)
+ * 3. Parameter child (":name", captures a single segment)
+ * 4. Wildcard child ("*" or "*name", captures all remaining segments)
+ *
+ * This lets `/users/new` and `/users/:id/posts` coexist: `/users/new/posts` first tries the
+ * static `new` branch, finds no `posts` child there, and falls back to the `:id` branch.
+ *
+ * @param node - The node to match from
+ * @param segments - The URL path segments
+ * @param keys - The segments used for static lookups (lowercased for case-insensitive matching)
+ * @param index - Index of the segment to match next
+ * @param params - Parameter object filled in while matching (restored on backtrack)
+ * @returns The node holding the route handlers, or null if no route matches
+ *
+ * @example
+ * ```typescript
+ * const params: Record<string, string> = {};
+ * const segments = ["users", "new", "posts"];
+ * const node = matchTrieNode(root, segments, segments, 0, params);
+ * // node -> handlers for "/users/:id/posts", params -> { id: "new" }
+ * ```
+ */
+function matchTrieNode<T extends Record<string, unknown>, B extends Record<string, unknown>>(
+	node: TrieNode<T, B>,
+	segments: string[],
+	keys: string[],
+	index: number,
+	params: Record<string, string>
+): TrieNode<T, B> | null {
+	if (index === segments.length) {
+		return node.handlers ? node : null;
+	}
+
+	const segment = segments[index]!;
+
+	// Try static child first (most common case)
+	const staticChild = node.children.get(keys[index]!);
+	if (staticChild) {
+		const found = matchTrieNode(staticChild, segments, keys, index + 1, params);
+		if (found) return found;
+	}
+
+	// Parameters never match empty segments, which only occur with significant trailing or duplicate slashes,
+	// nor segments with malformed escape sequences
+	const decoded = (node.patternChildren || node.paramChild) && segment !== "" ? decodePathSegment(segment) : null;
+	if (decoded !== null) {
+		// Try constrained and composite param children, then the unconstrained one
+		if (node.patternChildren) {
+			for (const child of node.patternChildren) {
+				const match = child.matcher.regex.exec(decoded);
+				if (!match) continue;
+				const found = matchParamChild(child.node, child.matcher.names, extractSegmentValues(child.matcher, match), segments, keys, index, params);
+				if (found) return found;
+			}
+		}
+
+		if (node.paramChild) {
+			const found = matchParamChild(node.paramChild.node, [node.paramChild.name], [decoded], segments, keys, index, params);
+			if (found) return found;
+		}
+	}
 
-				publish: (topic: string, data: string | Bun.ArrayBufferView | ArrayBuffer | SharedArrayBuffer, compress?: boolean): number => {
-					return 0;
-				},
+	// Try wildcard child, which consumes all remaining segments
+	if (node.wildcardChild?.node.handlers) {
+		const value = segments.slice(index).join("/");
+		const decoded = value ? decodePathSegment(value) : null;
+		if (decoded !== null) {
+			params[node.wildcardChild.name] = decoded;
+			return node.wildcardChild.node;
+		}
+	}
 
-				get pendingRequests(): number {
-					return 0;
-				},
+	return null;
+}
 
-				get pendingWebSockets(): number {
-					return 0;
-				},
+/**
+ * Captures parameter values and continues matching below the given child node.
+ * Restores any previous values of the parameters if the branch dead-ends.
+ * @internal
+ */
+function matchParamChild<T extends Record<string, unknown>, B extends Record<string, unknown>>(
+	child: TrieNode<T, B>,
+	names: string[],
+	values: string[],
+	segments: string[],
+	keys: string[],
+	index: number,
+	params: Record<string, string>
+): TrieNode<T, B> | null {
+	const previous = names.map((name) => params[name]);
+	for (let i = 0; i < names.length; i++) {
+		params[names[i]!] = values[i]!;
+	}
 
-				subscriberCount: (topic: string): number => {
-					return 0;
-				},
+	const found = matchTrieNode(child, segments, keys, index + 1, params);
+	if (found) return found;
 
-				stop: async (): Promise<void> => {
-					// Not for Cloudflare Workers
-				},
-			};
+	for (let i = 0; i < names.length; i++) {
+		if (previous[i] === undefined) {
+			delete params[names[i]!];
+		} else {
+			params[names[i]!] = previous[i]!;
+		}
+	}
+	return null;
+}
 
-			if (onListen) {
-				onListen({
-					port: server.port,
-					hostname: server.hostname,
-					runtime: server.runtime,
-				});
-			}
+/**
+ * Reads the parameter values captured by a segment matcher, in the order of `matcher.names`.
+ * @internal
+ */
+function extractSegmentValues(matcher: SegmentMatcher, match: RegExpExecArray): string[] {
+	const values = new Array<string>(matcher.groups.length);
+	for (let i = 0; i < matcher.groups.length; i++) {
+		values[i] = match[matcher.groups[i]!]!;
+	}
+	return values;
+}
 
-			return server;
-		} else if (Runtime.isNode) {
-			// Node.js runtime
-			const module: "http" | "https" = nodeOptions.https ? "https" : "http";
-			const { createServer } = await import(module);
+/**
+ * Separates optional route options from the handlers passed to a route registration method.
+ *
+ * @param args - Handlers, optionally preceded by a route options object
+ * @returns The route options (empty if none were given) and the handlers
+ */
+function splitRouteArgs<T extends Record<string, unknown>, B extends Record<string, unknown>>(
+	args: RouteArgs<T, B>
+): { options: RouteOptions; handlers: Middleware<T, B>[] } {
+	if (args.length > 0 && typeof args[0] !== "function") {
+		const [options, ...handlers] = args as [RouteOptions, ...Middleware<T, B>[]];
+		return { options, handlers };
+	}
+	return { options: {}, handlers: args as Middleware<T, B>[] };
+}
 
-			let nodeServer: NodeServerInstance;
+/**
+ * Builds a URL path from a route pattern by substituting parameter values.
+ * Values are percent-encoded per segment; wildcard values keep their "/" separators.
+ * Missing optional trailing parameters are omitted.
+ *
+ * @param pattern - The route path pattern (e.g., "/users/:id", "/files/*path")
+ * @param params - Values for the route parameters
+ * @param name - Route name used in error messages
+ * @returns The URL path
+ * @throws {Error} If a required parameter is missing or a value violates its constraint
+ *
+ * @example
+ * ```typescript
+ * buildPath("/users/:id/:tab?", { id: 5 }, "user"); // "/users/5"
+ * buildPath("/files/:name.:ext", { name: "a b", ext: "txt" }, "file"); // "/files/a%20b.txt"
+ * ```
+ */
+function buildPath(pattern: string, params: Record<string, string | number>, name: string): string {
+	const parts: string[] = [];
 
-			const requestHandler = (req: any, res: any): void => {
-				this.handleNode(req, res).catch((err: Error) => {
-					if (!res.headersSent) {
-						res.writeHead(500, { "Content-Type": "text/plain" });
-						res.end("Internal Server Error");
-					}
-				});
-			};
+	for (const segment of pattern.split("/")) {
+		if (!segment) continue;
 
-			if (nodeOptions.https) {
-				// HTTPS server
-				const httpsOptions: Record<string, any> = {
-					key: nodeOptions.key,
-					cert: nodeOptions.cert,
-				};
-				nodeServer = (createServer as any)(httpsOptions, requestHandler) as NodeServerInstance;
-			} else {
-				// HTTP server
-				nodeServer = createServer(requestHandler) as NodeServerInstance;
+		if (segment[0] === "*") {
+			const paramName = segment.length > 1 ? segment.slice(1) : "*";
+			const value = params[paramName];
+			if (value === undefined || value === "") {
+				throw new Error(`Missing parameter "${paramName}" for route "${name}"`);
 			}
+			parts.push(String(value).split("/").map(encodeURIComponent).join("/"));
+			continue;
+		}
 
-			// Start listening
-			await new Promise<void>((resolve, reject) => {
-				const errorHandler = (err: Error): void => {
-					reject(err);
-				};
+		if (!segment.includes(":")) {
+			parts.push(segment);
+			continue;
+		}
 
-				nodeServer.on("error", errorHandler);
+		const optional = segment[segment.length - 1] === "?";
+		const tokens = tokenizeSegment(optional ? segment.slice(0, -1) : segment);
 
-				nodeServer.listen(port, hostname, () => {
-					nodeServer.off("error", errorHandler);
-					resolve();
-				});
-			});
+		// Optional parameters are always trailing, so the path ends at the first missing one
+		if (optional && tokens.length === 1 && tokens[0]!.type === "param" && params[tokens[0]!.name] === undefined) {
+			break;
+		}
 
-			const server: Server = {
-				port,
-				hostname,
-				runtime: "node",
-				instance: nodeServer,
+		let part = "";
+		for (const token of tokens) {
+			if (token.type === "text") {
+				part += token.value;
+				continue;
+			}
 
-				publish: (topic: string, data: string | Bun.ArrayBufferView | ArrayBuffer | SharedArrayBuffer, compress?: boolean): number => {
-					return 0;
-				},
+			const value = params[token.name];
+			if (value === undefined) {
+				throw new Error(`Missing parameter "${token.name}" for route "${name}"`);
+			}
+			if (token.constraint !== undefined && !new RegExp(`^(?:${token.constraint})$`).test(String(value))) {
+				throw new Error(`Parameter "${token.name}" for route "${name}" does not match constraint "${token.constraint}"`);
+			}
+			part += encodeURIComponent(String(value));
+		}
+		parts.push(part);
+	}
 
-				get pendingRequests(): number {
-					return 0;
-				},
+	// Keep the pattern's trailing slash, which is significant unless trailing slashes are ignored
+	const trailing = pattern.length > 1 && pattern[pattern.length - 1] === "/" && parts.length > 0;
+	return "/" + parts.join("/") + (trailing ? "/" : "");
+}
 
-				get pendingWebSockets(): number {
-					return 0;
-				},
+/** Lowercase HTTP methods that can be described by an OpenAPI path item */
+const OPENAPI_METHODS = new Set(["get", "put", "post", "delete", "options", "head", "patch", "trace"]);
 
-				subscriberCount: (topic: string): number => {
-					return 0;
-				},
+/**
+ * Converts a route path pattern into OpenAPI templated paths and their path parameters.
+ * OpenAPI path parameters are always required, so a pattern with optional trailing parameters
+ * yields one path per variant, shortest first. Unnamed wildcards are named "wildcard".
+ *
+ * @param pattern - The route path pattern (e.g., "/users/:id(\\d+)", "/docs/:lang?")
+ * @returns The templated paths with the parameters (and constraints) they contain
+ *
+ * @example
+ * ```typescript
+ * toOpenAPIPaths("/files/:name.:ext"); // [{ path: "/files/{name}.{ext}", params: [{ name: "name" }, { name: "ext" }] }]
+ * toOpenAPIPaths("/docs/:lang?"); // [{ path: "/docs", params: [] }, { path: "/docs/{lang}", params: [{ name: "lang" }] }]
+ * ```
+ */
+function toOpenAPIPaths(pattern: string): Array<{ path: string; params: Array<{ name: string; constraint?: string }> }> {
+	const variants: Array<{ path: string; params: Array<{ name: string; constraint?: string }> }> = [];
+	const parts: string[] = [];
+	const params: Array<{ name: string; constraint?: string }> = [];
+
+	for (const segment of pattern.split("/")) {
+		if (!segment) continue;
+
+		if (segment[0] === "*") {
+			const name = segment.length > 1 ? segment.slice(1) : "wildcard";
+			parts.push(`{${name}}`);
+			params.push({ name });
+			continue;
+		}
 
-				stop: async (): Promise<void> => {
-					return new Promise<void>((resolve, reject) => {
-						nodeServer.close((err?: Error) => {
-							if (err) {
-								reject(err);
-							} else {
-								resolve();
-							}
-						});
-					});
-				},
-			};
+		const optional = segment.includes(":") && segment[segment.length - 1] === "?";
+		if (optional) variants.push({ path: "/" + parts.join("/"), params: [...params] });
 
-			if (onListen) {
-				onListen({
-					port: server.port,
-					hostname: server.hostname,
-					runtime: server.runtime,
-				});
+		let part = "";
+		for (const token of tokenizeSegment(optional ? segment.slice(0, -1) : segment)) {
+			if (token.type === "text") {
+				part += token.value;
+				continue;
 			}
-
-			return server;
-		} else {
-			throw new Error(`Unsupported runtime. This framework supports Bun, Deno, Node.js and Cloudflare Workers.`);
+			part += `{${token.name}}`;
+			params.push(token.constraint !== undefined ? { name: token.name, constraint: token.constraint } : { name: token.name });
 		}
+		parts.push(part);
 	}
 
-	/**
-	 * Sets up WebSocket handlers for Bun runtime.
-	 * This method must be called before starting the server with listen().
-	 *
-	 * @param handlers - WebSocket handler configuration
-	 * @returns The Web instance for method chaining
-	 *
-	 * @example
-	 * ```typescript
-	 * app.websocket({
-	 *   idleTimeout: 120,
-	 *   maxPayloadLength: 1024 * 1024,
-	 *   open(ws) {
-	 *     console.log('WebSocket connected');
-	 *     ws.subscribe('prices');
-	 *   },
-	 *   message(ws, message) {
-	 *     console.log('Received:', message);
-	 *   },
-	 *   close(ws) {
-	 *     ws.unsubscribe('prices');
-	 *   }
-	 * });
-	 *
-	 * // Then use in a route
-	 * app.get('/ws', (ctx) => {
-	 *   if (ctx.req.headers.get('upgrade') === 'websocket') {
-	 *     // The upgrade will be handled automatically by the framework
-	 *     return new Response(null, { status: 101 });
-	 *   }
-	 *   return ctx.text('WebSocket endpoint');
-	 * });
-	 * ```
-	 */
-	websocket(handlers: BunWebSocketHandler): this {
-		this.bunWebSocket = handlers;
-		return this;
+	const trailing = pattern.length > 1 && pattern[pattern.length - 1] === "/" && parts.length > 0;
+	variants.push({ path: "/" + parts.join("/") + (trailing ? "/" : ""), params });
+	return variants;
+}
+
+/**
+ * Builds a query string from query parameters. Arrays produce repeated keys;
+ * `null` and `undefined` values are omitted.
+ *
+ * @param query - The query parameters
+ * @returns The query string including the leading "?", or an empty string if there are no parameters
+ *
+ * @example
+ * ```typescript
+ * buildQueryString({ page: 2, tag: ["a", "b"], draft: undefined }); // "?page=2&tag=a&tag=b"
+ * ```
+ */
+function buildQueryString(query?: Record<string, UrlQueryValue | UrlQueryValue[]>): string {
+	if (!query) return "";
+
+	const search = new URLSearchParams();
+	for (const [key, value] of Object.entries(query)) {
+		for (const item of Array.isArray(value) ? value : [value]) {
+			if (item !== null && item !== undefined) search.append(key, String(item));
+		}
 	}
+
+	const queryString = search.toString();
+	return queryString ? `?${queryString}` : "";
 }
 
 /**
- * Extracts the static prefix from a path pattern by finding the longest initial segment
- * that doesn't contain parameters (:) or wildcards (*). Used for quick middleware filtering.
+ * Extracts the static prefix from a path pattern by finding the longest initial run of segments
+ * that don't contain parameters (:) or wildcards (*). Used for quick middleware filtering.
  *
  * @param path - The path pattern to analyze (e.g., "/users/:id/profile")
  * @returns The static prefix (e.g., "/users") or "/" if no static prefix exists
@@ -2142,7 +5320,7 @@ function getStaticPrefix(path: string): string {
 	const staticSegments: string[] = [];
 
 	for (const segment of segments) {
-		if (segment.startsWith(":") || segment === "*") {
+		if (segment[0] === "*" || segment.includes(":")) {
 			break;
 		}
 		staticSegments.push(segment);
@@ -2153,35 +5331,31 @@ function getStaticPrefix(path: string): string {
 
 /**
  * Creates a path matching function that checks if URL segments match a route pattern.
- * The matcher handles parameters (:) and wildcards (*) and extracts parameter values.
+ * The matcher handles parameters (:), constrained parameters (:name(regex)), optional trailing
+ * parameters (:name?), parameters with static affixes (:name.:ext, v:version) and wildcards
+ * (* or *name) and extracts parameter values.
  *
  * @param segments - The route pattern segments to match against (e.g., ["users", ":id"])
+ * @param caseSensitive - Whether static segments are compared case-sensitively
  * @returns A function that takes URL segments and returns a match result with parameters
  *
  * @example
  * ```typescript
- * const matcher = createPathMatcherSegments(["users", ":id"]);
- * const result = matcher(["users", "123"]);
- * // Returns { matched: true, params: { id: "123" } }
+ * const matcher = createPathMatcherSegments(["users", ":id(\\d+)"]);
+ * matcher(["users", "123"]); // { matched: true, params: { id: "123" } }
+ * matcher(["users", "abc"]); // { matched: false, params: {} }
  * ```
  */
-function createPathMatcherSegments(segments: string[]): (urlSegments: string[]) => MatchResult {
-	const segmentCount = segments.length;
-	const hasWildcard = segments[segmentCount - 1] === "*";
-
-	// Pre-calculate parameter positions and names for faster matching
-	const paramPositions: Array<{ index: number; name: string }> = [];
-	for (let i = 0; i < segmentCount; i++) {
-		if (segments[i].startsWith(":")) {
-			paramPositions.push({ index: i, name: segments[i].slice(1) });
-		}
-	}
-
-	const hasParams = paramPositions.length > 0;
+function createPathMatcherSegments(segments: string[], caseSensitive = true): (urlSegments: string[]) => MatchResult {
+	const { segments: pattern, minLength } = parsePathPattern(segments, caseSensitive);
+	const normalize = (part: string | undefined) => (caseSensitive || part === undefined ? part : part.toLowerCase());
+	const segmentCount = pattern.length;
+	const hasWildcard = segmentCount > 0 && pattern[segmentCount - 1]!.type === "wildcard";
+	const hasParams = pattern.some((segment) => segment.type !== "static");
 
 	return (urlSegments: string[]): MatchResult => {
 		// Quick length check for non-wildcard routes
-		if (!hasWildcard && urlSegments.length !== segmentCount) {
+		if (!hasWildcard && (urlSegments.length < minLength || urlSegments.length > segmentCount)) {
 			return { matched: false, params: {} };
 		}
 
@@ -2191,9 +5365,9 @@ function createPathMatcherSegments(segments: string[]): (urlSegments: string[])
 		}
 
 		// Fast path for routes without parameters
-		if (!hasParams && !hasWildcard) {
+		if (!hasParams) {
 			for (let i = 0; i < segmentCount; i++) {
-				if (segments[i] !== urlSegments[i]) {
+				if ((pattern[i] as { value: string }).value !== normalize(urlSegments[i])) {
 					return { matched: false, params: {} };
 				}
 			}
@@ -2204,40 +5378,52 @@ function createPathMatcherSegments(segments: string[]): (urlSegments: string[])
 		const params: Record<string, string> = {};
 
 		for (let i = 0; i < segmentCount; i++) {
-			const seg = segments[i];
+			const seg = pattern[i]!;
 			const part = urlSegments[i];
 
-			if (seg === "*") {
-				params["*"] = urlSegments.slice(i).join("/");
+			if (seg.type === "wildcard") {
+				const value = decodePathSegment(urlSegments.slice(i).join("/"));
+				if (value === null) return { matched: false, params: {} };
+				params[seg.name] = value;
 				return { matched: true, params };
 			}
 
-			if (seg.startsWith(":")) {
-				if (!part) return { matched: false, params: {} };
-				params[seg.slice(1)] = decodeURIComponent(part);
-			} else if (seg !== part) {
+			// Missing segments can only be optional trailing parameters at this point
+			if (part === undefined) break;
+
+			if (seg.type === "param") {
+				const value = decodePathSegment(part);
+				if (!value || (seg.matcher && !seg.matcher.regex.test(value))) return { matched: false, params: {} };
+				params[seg.name] = value;
+			} else if (seg.type === "composite") {
+				const decoded = decodePathSegment(part);
+				const match = decoded === null ? null : seg.matcher.regex.exec(decoded);
+				if (!match) return { matched: false, params: {} };
+				const values = extractSegmentValues(seg.matcher, match);
+				for (let j = 0; j < values.length; j++) {
+					params[seg.matcher.names[j]!] = values[j]!;
+				}
+			} else if (seg.value !== normalize(part)) {
 				return { matched: false, params: {} };
 			}
 		}
 
-		const matched = urlSegments.length === segmentCount;
-		return {
-			matched,
-			params: matched ? params : {},
-		};
+		return { matched: true, params };
 	};
 }
 
 /**
  * Joins multiple path segments into a single path, ensuring proper slashes between them.
- * Removes leading/trailing slashes from individual segments before joining.
+ * Removes leading/trailing slashes from individual segments before joining, but keeps a
+ * trailing slash on the last segment so routes with significant trailing slashes can be mounted.
  *
  * @param paths - Path segments to join (e.g., ["api", "v1", "users"])
  * @returns Joined path with single slashes (e.g., "/api/v1/users")
  *
  * @example
  * ```typescript
- * joinPaths("/api/", "/v1", "users/"); // "/api/v1/users"
+ * joinPaths("/api/", "/v1", "users"); // "/api/v1/users"
+ * joinPaths("/api", "/users/"); // "/api/users/"
  * joinPaths("", "users", ":id"); // "/users/:id"
  * ```
  */
@@ -2258,7 +5444,208 @@ function joinPaths(...paths: string[]) {
 			}
 		}
 	}
+
+	const last = paths[paths.length - 1];
+	if (last && last.length > 1 && last[last.length - 1] === "/" && result !== "/") {
+		result += "/";
+	}
+	return result;
+}
+
+/**
+ * Reads `NODE_ENV` in Node.js, Bun or Deno.
+ *
+ * @returns The value, or undefined when it is not set or the runtime does not expose it (e.g., Cloudflare Workers)
+ */
+function readNodeEnv(): string | undefined {
+	const processEnv = (globalThis as any).process?.env?.NODE_ENV;
+	if (processEnv !== undefined) return processEnv;
+	try {
+		return (globalThis as any).Deno?.env?.get("NODE_ENV");
+	} catch {
+		// Reading the environment needs permission in Deno
+		return undefined;
+	}
+}
+
+/** V8 stack frame: "at fn (file:line:column)" or "at file:line:column" */
+const STACK_FRAME = /^\s*at (?:(.+?) \((.+):(\d+):(\d+)\)|(.+):(\d+):(\d+))$/;
+
+/**
+ * Parses the frames of a V8-style stack trace (Node.js, Bun, Deno, Workers).
+ *
+ * @param stack - The error stack
+ * @returns The parsed frames, at most 20
+ */
+function parseStackFrames(stack: string): DevStackFrame[] {
+	const frames: DevStackFrame[] = [];
+	for (const line of stack.split("\n")) {
+		const match = STACK_FRAME.exec(line);
+		if (!match) continue;
+		const file = match[2] ?? match[5]!;
+		frames.push({
+			fn: match[1] ?? "<anonymous>",
+			file,
+			line: Number(match[3] ?? match[6]),
+			column: Number(match[4] ?? match[7]),
+		});
+		if (frames.length === 20) break;
+	}
+	return frames;
+}
+
+/**
+ * Reads the source lines around a stack frame. Files outside the application (runtime internals and
+ * `node_modules`) are skipped, as are runtimes without file system access.
+ *
+ * @param frame - The stack frame
+ * @param cache - File contents already read for the same error page
+ * @returns The lines around the frame's line, or undefined if the file cannot be read
+ */
+async function readSourceSnippet(frame: DevStackFrame, cache: Map<string, Promise<string[] | null>>): Promise<DevStackFrame["source"]> {
+	const { file, line } = frame;
+	if (!/^(file:\/\/|\/|[A-Za-z]:[\\/])/.test(file) || file.includes("node_modules")) return undefined;
+
+	let lines = cache.get(file);
+	if (!lines) {
+		lines = (async () => {
+			try {
+				const fs = "node:fs/promises";
+				const { readFile } = await import(fs);
+				const path = file.startsWith("file://") ? decodeURIComponent(new URL(file).pathname) : file;
+				return ((await readFile(path, "utf8")) as string).split(/\r?\n/);
+			} catch {
+				return null;
+			}
+		})();
+		cache.set(file, lines);
+	}
+
+	const content = await lines;
+	if (!content || line < 1 || line > content.length) return undefined;
+	const start = Math.max(1, line - 3);
+	return { start, lines: content.slice(start - 1, Math.min(content.length, line + 3)) };
+}
+
+/**
+ * Converts a value to something `JSON.stringify()` can show: circular references, functions,
+ * bigints, errors and other non-plain values are replaced with descriptions.
+ *
+ * @param value - The value to convert
+ * @param seen - Objects on the current path, to detect cycles
+ * @returns A JSON-safe copy of the value
+ */
+function toSerializable(value: unknown, seen = new WeakSet<object>()): unknown {
+	if (typeof value === "function") return `[Function ${value.name || "anonymous"}]`;
+	if (typeof value === "bigint") return `${value}n`;
+	if (typeof value === "symbol" || typeof value === "undefined") return String(value);
+	if (value === null || typeof value !== "object") return value;
+	if (seen.has(value)) return "[Circular]";
+	if (value instanceof Error) return `[${value.name}: ${value.message}]`;
+	if (value instanceof Date) return value.toISOString();
+	if (value instanceof Map) value = Object.fromEntries(value);
+	else if (value instanceof Set) value = [...value];
+
+	seen.add(value as object);
+	const result = Array.isArray(value)
+		? value.map((item) => toSerializable(item, seen))
+		: Object.fromEntries(Object.entries(value as object).map(([key, item]) => [key, toSerializable(item, seen)]));
+	seen.delete(value as object);
 	return result;
 }
 
+/**
+ * Escapes text for use in HTML.
+ *
+ * @param text - The text to escape
+ * @returns The escaped text
+ */
+function escapeHtml(text: string): string {
+	return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Renders the development error page.
+ *
+ * @param report - The error details
+ * @returns A self-contained HTML document
+ */
+function renderDevErrorPage(report: DevErrorReport): string {
+	const [error] = report.errors;
+	const table = (rows: [string, string][]) =>
+		`<table>${rows.map(([key, value]) => `<tr><th>${escapeHtml(key)}</th><td>${escapeHtml(value)}</td></tr>`).join("")}</table>`;
+
+	const renderFrame = (frame: DevStackFrame) => {
+		const location = `${frame.file}:${frame.line}:${frame.column}`;
+		const source = frame.source
+			? `<pre class="source">${frame.source.lines
+					.map((text, i) => {
+						const number = frame.source!.start + i;
+						return `<span class="${number === frame.line ? "line current" : "line"}"><span class="number">${number}</span>${escapeHtml(text)}</span>`;
+					})
+					.join("\n")}</pre>`
+			: "";
+		return `<li><code>${escapeHtml(frame.fn)}</code> <span class="location">${escapeHtml(location)}</span>${source}</li>`;
+	};
+
+	const errors = report.errors
+		.map(
+			(item, i) =>
+				`<section>${i === 0 ? "" : "<h2>Caused by</h2>"}<h1>${escapeHtml(item.name)}: ${escapeHtml(item.message)}</h1>` +
+				`<ol class="frames">${item.frames.map(renderFrame).join("")}</ol></section>`
+		)
+		.join("");
+
+	const { request, route } = report;
+	const middleware = report.middleware.length
+		? `<ol>${report.middleware
+				.map((entry) => `<li class="${entry.ran ? "ran" : "skipped"}"><code>${escapeHtml(entry.name)}</code> ${entry.kind}${entry.ran ? "" : " (not run)"}</li>`)
+				.join("")}</ol>`
+		: "<p>No middleware chain was reached.</p>";
+
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(`${error?.name}: ${error?.message}`)}</title>
+<style>
+body { margin: 0; padding: 2rem; font: 14px/1.5 system-ui, sans-serif; background: #fafafa; color: #1f2328; }
+h1 { font-size: 1.4rem; color: #b42318; margin: 0 0 1rem; word-break: break-word; }
+h2 { font-size: 1.1rem; margin: 2rem 0 0.5rem; }
+code, pre, .location { font-family: ui-monospace, monospace; font-size: 13px; }
+.location { color: #59636e; }
+.frames li { margin-bottom: 0.75rem; }
+.source { background: #fff; border: 1px solid #d1d9e0; border-radius: 6px; padding: 0.5rem 0; overflow-x: auto; }
+.line { display: block; padding: 0 1rem; white-space: pre; }
+.line.current { background: #ffebe9; }
+.number { display: inline-block; width: 3rem; color: #8c959f; user-select: none; }
+table { border-collapse: collapse; background: #fff; }
+th, td { border: 1px solid #d1d9e0; padding: 0.25rem 0.75rem; text-align: left; vertical-align: top; word-break: break-all; }
+.skipped { color: #8c959f; }
+.banner { background: #fff8c5; border: 1px solid #d4a72c; border-radius: 6px; padding: 0.5rem 1rem; margin-bottom: 1.5rem; }
+</style>
+</head>
+<body>
+<div class="banner">Development mode error page. Disable the <code>dev</code> option before deploying.</div>
+${errors}
+<h2>Request</h2>
+${table([
+	["Method", request.method],
+	["URL", request.url],
+	["Client IP", request.clientIp ?? "unknown"],
+	["Runtime", request.runtime],
+])}
+<h2>Headers</h2>
+${table(Object.entries(request.headers))}
+<h2>Route</h2>
+${route ? table([["Path", route.path], ["ID", route.id ?? ""], ["Name", route.name ?? ""], ...Object.entries(route.params).map(([name, value]): [string, string] => [`:${name}`, value])]) : "<p>No route matched.</p>"}
+<h2>Middleware chain</h2>
+${middleware}
+<h2>State</h2>
+<pre class="source"><span class="line">${escapeHtml(JSON.stringify(report.state, null, 2))}</span></pre>
+</body>
+</html>`;
+}
+
 export type * from "./types";
@@ -5,6 +5,7 @@ import type { ServerWebSocket } from "bun";
  * Middleware functions receive a context object and a next function to call the next middleware in the chain.
  *
  * @template T - The type of the context state object
+ * @template P - The type of the route parameters, inferred from the route path when registering routes
  * @param ctx - Context object containing request data and helper methods
  * @param next - Function to call the next middleware in the chain
  * @returns Response object, Promise resolving to Response, or void to continue to next middleware
@@ -23,10 +24,38 @@ import type { ServerWebSocket } from "bun";
  * };
  * ```
  */
-export type Middleware<T extends Record<string, unknown> = Record<string, unknown>, B extends Record<string, unknown> = Record<string, unknown>> = (
-	ctx: Context<T, B>,
-	next: Next
-) => Response | Promise<Response | void>;
+export type Middleware<
+	T extends Record<string, unknown> = Record<string, unknown>,
+	B extends Record<string, unknown> = Record<string, unknown>,
+	P extends Params = Record<string, string>,
+	R extends MiddlewareResult = MiddlewareResult,
+> = (ctx: Context<T, B, P>, next: Next) => R;
+
+/**
+ * Value returned by middleware and route handlers.
+ */
+export type MiddlewareResult = Response | Promise<Response | void>;
+
+/** Brand carrying the body type of a {@link TypedResponse} */
+declare const responseBody: unique symbol;
+
+/**
+ * Response returned by `ctx.json()` that remembers the type of its JSON body,
+ * so the RPC client created with `createClient()` knows the response type of each route.
+ */
+export type TypedResponse<D = unknown> = Response & { readonly [responseBody]: D };
+
+/**
+ * JSON body type of the responses a handler can return, `unknown` if it returns no typed response.
+ *
+ * @example
+ * ```typescript
+ * type A = ResponseOutput<TypedResponse<{ id: string }> | Response>; // { id: string }
+ * ```
+ */
+export type ResponseOutput<R> = [BodyOf<Awaited<R>>] extends [never] ? unknown : BodyOf<Awaited<R>>;
+
+type BodyOf<R> = R extends { readonly [responseBody]: infer D } ? D : never;
 
 /**
  * Function type for calling the next middleware in the chain.
@@ -76,14 +105,18 @@ export interface TrieNode<T extends Record<string, unknown> = Record<string, unk
 
 /**
  * HTTP methods supported by the framework.
+ * Besides the standard methods, any extension method (e.g. `QUERY`, `PROPFIND`, `PURGE`) can be used.
+ * Methods are matched case-sensitively, so register them in the same case clients send them (usually uppercase).
+ * The special `ALL` method registers a route for every method (see `app.all()`).
  *
  * @example
  * ```typescript
  * const method: Method = 'GET';
  * app.addRoute(method, '/users', handler);
+ * app.addRoute('PROPFIND', '/dav/*', propfindHandler);
  * ```
  */
-export type Method = "GET" | "POST" | "PUT" | "DELETE" | "PATCH" | "OPTIONS" | "HEAD";
+export type Method = "GET" | "POST" | "PUT" | "DELETE" | "PATCH" | "OPTIONS" | "HEAD" | "ALL" | (string & {});
 
 /**
  * Result of attempting to match a URL path against a route pattern.
@@ -101,6 +134,32 @@ export type MatchResult = {
 	params: Record<string, string>;
 };
 
+/**
+ * Result of matching a request method and path against the registered routes.
+ *
+ * @template T - The type of the context state object
+ *
+ * @example
+ * ```typescript
+ * const match = app.match('GET', '/users/42');
+ * // { handlers: [...], params: { id: '42' }, routePath: '/users/:id', routeId: '...', routeName: 'user.show' }
+ * ```
+ */
+export interface RouteMatch<T extends Record<string, unknown> = Record<string, unknown>, B extends Record<string, unknown> = Record<string, unknown>> {
+	/** Handlers of the matched route */
+	handlers?: Middleware<T, B>[];
+	/** Parameters extracted from the path */
+	params: Record<string, string>;
+	/** Pattern the route was registered with */
+	routePath?: string;
+	/** ID of the matched route */
+	routeId?: string;
+	/** Name of the matched route, if any */
+	routeName?: string;
+	/** Host pattern the route was registered under, if any */
+	host?: string;
+}
+
 /**
  * Internal representation of middleware with matching logic.
  * Used to determine which middleware should run for a given request.
@@ -112,6 +171,8 @@ export type MiddlewareRoute<T extends Record<string, unknown> = Record<string, u
 	method?: Method;
 	/** Optional path pattern this middleware applies to */
 	path?: string;
+	/** Optional host pattern this middleware applies to (set by `app.host()`) */
+	host?: string;
 	/** Static prefix of the path for optimization */
 	pathPrefix?: string;
 	/** Function to determine if this middleware matches a given URL */
@@ -150,19 +211,49 @@ export type MiddlewareRoute<T extends Record<string, unknown> = Record<string, u
  * };
  * ```
  */
-export interface Context<T extends Record<string, unknown> = Record<string, unknown>, B extends Record<string, unknown> = Record<string, unknown>> {
+export interface Context<
+	T extends Record<string, unknown> = Record<string, unknown>,
+	B extends Record<string, unknown> = Record<string, unknown>,
+	P extends Params = Record<string, string>,
+> {
 	/** The original Request object */
 	req: Request;
-	/** Optional Response object (for advanced use cases) */
+	/**
+	 * The response of the handlers further down the chain, available in middleware after `await next()`.
+	 * Assign a new Response to replace it; the final value is sent to the client, even if the middleware
+	 * returns the Response `next()` resolved to.
+	 *
+	 * @example
+	 * ```typescript
+	 * app.use(async (ctx, next) => {
+	 *   const start = performance.now();
+	 *   await next();
+	 *   ctx.header('Server-Timing', `app;dur=${performance.now() - start}`);
+	 * });
+	 *
+	 * app.use(async (ctx, next) => {
+	 *   await next();
+	 *   if (ctx.res?.status === 404) ctx.res = ctx.json({ error: 'Not found' }, 404);
+	 * });
+	 * ```
+	 */
 	res?: Response;
 	/** Object containing URL parameters extracted from the route path */
-	params: Record<string, string>;
+	params: P;
 	/** Application state object for sharing data between middleware */
 	state: T;
-	/** Only present in Cloudflare Workers */
+	/** Environment bindings passed to `app.fetch()` or `handleCloudflare()`, an empty object otherwise */
 	env: B;
 	/** Client IP address, populated by web server or `ip-extract` middleware */
 	clientIp?: string;
+	/** Runtime information passed by the adapter that received the request */
+	info: RequestInfo<B>;
+	/** Pattern of the matched route including any mount prefix (e.g., "/users/:id"), undefined if no route matched */
+	routePath?: string;
+	/** ID of the matched route, as returned by `addRoute()` */
+	routeId?: string;
+	/** Name of the matched route, if it was registered with one */
+	routeName?: string;
 	/**
 	 * Returns a plain text response.
 	 *
@@ -209,7 +300,7 @@ export interface Context<T extends Record<string, unknown> = Record<string, unkn
 	 * });
 	 * ```
 	 */
-	json: (data: unknown, status?: number, headers?: Record<string, string>) => Response;
+	json: <D>(data: D, status?: number, headers?: Record<string, string>) => TypedResponse<D>;
 	/**
 	 * Returns an HTML response.
 	 *
@@ -266,7 +357,8 @@ export interface Context<T extends Record<string, unknown> = Record<string, unkn
 	 */
 	body: <T>() => Promise<T>;
 	/**
-	 * Sets a response header.
+	 * Sets a response header. Once a response exists (`ctx.res`, e.g. after `await next()`), the header
+	 * is also set on it, copying the response first if its headers are immutable.
 	 *
 	 * @param name - Header name
 	 * @param value - Header value
@@ -319,6 +411,71 @@ export interface Context<T extends Record<string, unknown> = Record<string, unkn
 	 * ```
 	 */
 	redirect: (url: string, status?: number) => Response;
+	/** True if the application answers errors with problem details, see `app.problemDetails()` */
+	problemDetails: boolean;
+	/**
+	 * Returns an RFC 9457 problem details response (`application/problem+json`), passed through the
+	 * formatter configured with `app.problemDetails()`. `type` defaults to "about:blank", `title` to
+	 * the status text and `instance` to the request path. Response headers set on the context are included.
+	 *
+	 * @param status - HTTP status code
+	 * @param details - Problem details members and extension members to include
+	 * @param headers - Additional headers to include
+	 * @returns Response object with the problem details
+	 *
+	 * @example
+	 * ```typescript
+	 * return ctx.problem(404, { detail: `User ${ctx.params.id} does not exist` });
+	 * return ctx.problem(403, { type: 'https://example.com/probs/out-of-credit', detail: 'Your balance is 30', balance: 30 });
+	 * ```
+	 */
+	problem: (status: number, details?: ProblemDetailsInit, headers?: Record<string, string>) => Response;
+}
+
+/**
+ * An RFC 9457 problem details object, with optional extension members.
+ *
+ * @example
+ * ```json
+ * { "type": "about:blank", "title": "Too Many Requests", "status": 429, "detail": "Rate limit exceeded", "instance": "/api/users", "retryAfter": 30 }
+ * ```
+ */
+export interface ProblemDetails {
+	/** URI identifying the problem type ("about:blank" if the status says it all) */
+	type: string;
+	/** Short summary of the problem type */
+	title: string;
+	/** HTTP status code */
+	status: number;
+	/** Explanation specific to this occurrence of the problem */
+	detail?: string;
+	/** URI reference identifying this occurrence of the problem */
+	instance?: string;
+	/** Extension members */
+	[extension: string]: unknown;
+}
+
+/**
+ * Problem details members and extension members passed to `ctx.problem()`; missing members get defaults.
+ */
+export type ProblemDetailsInit = Partial<Omit<ProblemDetails, "status">> & Record<string, unknown>;
+
+/**
+ * Options for `app.problemDetails()`.
+ *
+ * @template T - The type of the context state object
+ * @template B - The type of the environment bindings
+ *
+ * @example
+ * ```typescript
+ * app.problemDetails({
+ *   formatter: (problem, ctx) => ({ ...problem, type: `https://example.com/errors/${problem.status}`, requestId: ctx.get('requestId') }),
+ * });
+ * ```
+ */
+export interface ProblemDetailsOptions<T extends Record<string, unknown> = Record<string, unknown>, B extends Record<string, unknown> = Record<string, unknown>> {
+	/** Adjusts every problem details object before it is sent, e.g. to brand the `type` URIs or add members */
+	formatter?: (problem: ProblemDetails, ctx: Context<T, B>) => ProblemDetails;
 }
 
 /**
@@ -335,8 +492,786 @@ export interface Route<T extends Record<string, unknown> = Record<string, unknow
 	match: (url: string) => { matched: boolean; params: Record<string, string> };
 	/** Array of middleware handlers for this route */
 	handlers: Middleware<T, B>[];
+	/** Optional unique name used for URL generation */
+	name?: string;
+	/** Optional host pattern the route is restricted to */
+	host?: string;
+	/** Optional documentation metadata used for OpenAPI generation */
+	meta?: RouteMeta;
+}
+
+/**
+ * Options that can be passed before the handlers when registering a route.
+ * Besides the name and host, any {@link RouteMeta} field can be given to document the route.
+ *
+ * @example
+ * ```typescript
+ * app.get('/users/:id', { name: 'user.show' }, handler);
+ * app.url('user.show', { id: 5 }); // "/users/5"
+ * app.get('/', { host: ':tenant.example.com' }, tenantHome);
+ * app.get('/health', { summary: 'Health check', tags: ['system'] }, health);
+ * ```
+ */
+export interface RouteOptions extends RouteMeta {
+	/** Unique route name used to build URLs with `app.url()` */
+	name?: string;
+	/**
+	 * Host pattern the route is restricted to (e.g., "api.example.com", ":tenant.example.com", "*.example.com").
+	 * Parameters in the host are added to `ctx.params`.
+	 */
+	host?: string;
+}
+
+/**
+ * A JSON Schema object (draft 2020-12, as used by OpenAPI 3.1).
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Documentation metadata attached to a route. It has no effect on request handling
+ * and is used by `app.openapi()` to describe the route's operation.
+ *
+ * @example
+ * ```typescript
+ * app.post('/users/:id/posts', {
+ *   summary: 'Create a post',
+ *   tags: ['posts'],
+ *   params: { type: 'object', properties: { id: { type: 'integer' } } },
+ *   body: { schema: { type: 'object', properties: { title: { type: 'string' } }, required: ['title'] } },
+ *   responses: { 201: { description: 'Post created', schema: postSchema } },
+ * }, createPost);
+ * ```
+ */
+export interface RouteMeta {
+	/** Short summary of what the route does */
+	summary?: string;
+	/** Longer description, CommonMark is allowed */
+	description?: string;
+	/** Tags used to group the route in the documentation */
+	tags?: string[];
+	/** Unique operation identifier; defaults to the route name */
+	operationId?: string;
+	/** Marks the route as deprecated */
+	deprecated?: boolean;
+	/** Object schema whose properties describe the path parameters (parameters default to strings) */
+	params?: JsonSchema;
+	/** Object schema whose properties describe the query parameters; its `required` list marks required ones */
+	query?: JsonSchema;
+	/** Request body description */
+	body?: RouteRequestBody;
+	/** Responses keyed by status code (or "default") */
+	responses?: Record<number | string, RouteResponse>;
+	/**
+	 * Security requirements, e.g. `[{ bearerAuth: [] }]`. When omitted, they are detected from
+	 * authentication middleware on the route. An empty array marks the route as public.
+	 */
+	security?: OpenAPISecurityRequirement[];
+	/** Leaves the route out of the generated OpenAPI document */
+	hidden?: boolean;
+}
+
+/**
+ * Request body of a documented route.
+ */
+export interface RouteRequestBody {
+	/** Schema of the body */
+	schema: JsonSchema;
+	/** Media type of the body @default "application/json" */
+	contentType?: string;
+	/** Description of the body */
+	description?: string;
+	/** Whether the body is required @default true */
+	required?: boolean;
+}
+
+/**
+ * A single documented response of a route.
+ */
+export interface RouteResponse {
+	/** Description of the response */
+	description: string;
+	/** Schema of the response body, if it has one */
+	schema?: JsonSchema;
+	/** Media type of the response body @default "application/json" */
+	contentType?: string;
+}
+
+/**
+ * OpenAPI security requirement: scheme names mapped to the required scopes.
+ */
+export type OpenAPISecurityRequirement = Record<string, string[]>;
+
+/**
+ * OpenAPI security scheme object (e.g., `{ type: 'http', scheme: 'bearer' }`).
+ */
+export interface OpenAPISecurityScheme {
+	/** Type of the security scheme */
+	type: "apiKey" | "http" | "mutualTLS" | "oauth2" | "openIdConnect";
+	/** Additional scheme fields such as `scheme`, `bearerFormat`, `in` or `name` */
+	[key: string]: unknown;
+}
+
+/**
+ * Security scheme advertised by authentication middleware. `app.openapi()` detects middleware
+ * functions carrying a `security` property of this type and documents the routes they protect.
+ *
+ * @example
+ * ```typescript
+ * const apiKeyAuth = Object.assign(checkApiKey, {
+ *   security: { name: 'apiKey', scheme: { type: 'apiKey', in: 'header', name: 'X-API-Key' } } satisfies MiddlewareSecurity,
+ * });
+ * ```
+ */
+export interface MiddlewareSecurity {
+	/** Name of the scheme in `components.securitySchemes` */
+	name: string;
+	/** The security scheme definition */
+	scheme: OpenAPISecurityScheme;
+}
+
+/**
+ * Options for generating an OpenAPI document with `app.openapi()`.
+ */
+export interface OpenAPIOptions {
+	/** Document information; `title` and `version` are required by the specification */
+	info: { title: string; version: string; description?: string; [key: string]: unknown };
+	/** Servers the API is available at */
+	servers?: Array<{ url: string; description?: string }>;
+	/** Only document routes registered for this host pattern; routes without a host are documented by default */
+	host?: string;
+	/** Additional security schemes referenced by route `security` requirements */
+	securitySchemes?: Record<string, OpenAPISecurityScheme>;
+}
+
+/**
+ * A parameter of an OpenAPI operation.
+ */
+export interface OpenAPIParameter {
+	name: string;
+	in: "path" | "query";
+	required: boolean;
+	schema: JsonSchema;
+}
+
+/**
+ * An OpenAPI operation generated from a route.
+ */
+export interface OpenAPIOperation {
+	operationId?: string;
+	summary?: string;
+	description?: string;
+	tags?: string[];
+	deprecated?: boolean;
+	parameters?: OpenAPIParameter[];
+	requestBody?: { description?: string; required: boolean; content: Record<string, { schema: JsonSchema }> };
+	responses?: Record<string, { description: string; content?: Record<string, { schema: JsonSchema }> }>;
+	security?: OpenAPISecurityRequirement[];
+}
+
+/**
+ * OpenAPI 3.1 document generated by `app.openapi()`.
+ */
+export interface OpenAPIDocument {
+	openapi: "3.1.0";
+	info: OpenAPIOptions["info"];
+	servers?: OpenAPIOptions["servers"];
+	/** Paths keyed by templated path (e.g., "/users/{id}"), then by lowercase method */
+	paths: Record<string, Record<string, OpenAPIOperation>>;
+	components?: { securitySchemes: Record<string, OpenAPISecurityScheme> };
+}
+
+/**
+ * Arguments accepted by route registration methods: one or more handlers,
+ * optionally preceded by a {@link RouteOptions} object.
+ *
+ * @template T - The type of the context state object
+ * @template P - The type of the route parameters
+ * @template Host - The host pattern given in the route options, whose parameters are added to `P`
+ * @template R - The return type of the last handler, used to infer the route's response type
+ */
+export type RouteArgs<
+	T extends Record<string, unknown> = Record<string, unknown>,
+	B extends Record<string, unknown> = Record<string, unknown>,
+	P extends Params = Record<string, string>,
+	Host extends string = never,
+	R extends MiddlewareResult = MiddlewareResult,
+> =
+	| [...Middleware<T, B, P & OptionHostParams<Host>>[], Middleware<T, B, P & OptionHostParams<Host>, R>]
+	| [RouteOptions & { host?: Host }, ...Middleware<T, B, P & OptionHostParams<Host>>[], Middleware<T, B, P & OptionHostParams<Host>, R>]
+	| Middleware<T, B, P & OptionHostParams<Host>>[]
+	| [RouteOptions & { host?: Host }, ...Middleware<T, B, P & OptionHostParams<Host>>[]];
+
+/** Parameters of the host pattern given in the route options, if any */
+type OptionHostParams<Host extends string> = [Host] extends [never] ? {} : ExtractHostParams<Host>;
+
+/**
+ * Shape of route parameters. Optional parameters may be missing.
+ */
+export type Params = Record<string, string | undefined>;
+
+/**
+ * Route parameters inferred from a path pattern. Supports plain (`:id`), constrained (`:id(\\d+)`),
+ * optional (`:lang?`) and inline parameters (`:name.:ext`, `v:version`) as well as named (`*path`)
+ * and unnamed (`*`) wildcards. Non-literal paths fall back to `Record<string, string>`.
+ *
+ * @example
+ * ```typescript
+ * type A = ExtractParams<'/users/:id/posts/:postId'>; // { id: string; postId: string }
+ * type B = ExtractParams<'/docs/:lang?'>; // { lang?: string }
+ * type C = ExtractParams<'/files/:name.:ext'>; // { name: string; ext: string }
+ * type D = ExtractParams<'/static/*path'>; // { path: string }
+ * ```
+ */
+export type ExtractParams<Path extends string> = string extends Path ? Record<string, string> : Simplify<PathParams<Path>>;
+
+/**
+ * Parameters of a route handler: those declared by the application (for a prefix or host it is mounted at)
+ * plus those of the route path. A route without parameters in an application that declares none can
+ * only receive parameters from where the application is mounted, so they are typed as `Record<string, string>`.
+ *
+ * @example
+ * ```typescript
+ * type A = RouteParams<{}, '/users/:id'>; // { id: string }
+ * type B = RouteParams<{ tenant: string }, '/users/:id'>; // { tenant: string } & { id: string }
+ * type C = RouteParams<{}, '/users'>; // Record<string, string>
+ * ```
+ */
+export type RouteParams<P extends Params, Path extends string> = [keyof P | keyof ExtractParams<Path>] extends [never]
+	? Record<string, string>
+	: P & ExtractParams<Path>;
+
+/**
+ * Parameters inferred from a host pattern such as ":tenant.example.com". Wildcard labels are not captured.
+ *
+ * @example
+ * ```typescript
+ * type A = ExtractHostParams<':tenant.:region.example.com'>; // { tenant: string; region: string }
+ * ```
+ */
+export type ExtractHostParams<Pattern extends string> = string extends Pattern ? Record<string, string> : Simplify<HostParams<Pattern>>;
+
+/** Flattens an intersection of object types into a single object type */
+type Simplify<O> = { [K in keyof O]: O[K] } & {};
+
+/** Characters allowed in parameter names, matching `\w` */
+type WordChar = Chars<"abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789_">;
+
+type Chars<S extends string, Result extends string = never> = S extends `${infer C}${infer Rest}` ? Chars<Rest, Result | C> : Result;
+
+type PathParams<Path extends string> = Path extends `${infer Segment}/${infer Rest}` ? SegmentParams<Segment> & PathParams<Rest> : SegmentParams<Path>;
+
+type SegmentParams<Segment extends string> = Segment extends `*${infer Name}` ? { [K in Name extends "" ? "*" : Name]: string } : InlineParams<Segment>;
+
+/** Finds the parameters after each ":" followed by a word character */
+type InlineParams<S extends string> = S extends `${string}:${infer Rest}`
+	? TakeName<Rest> extends [infer Name extends string, infer After extends string]
+		? Name extends ""
+			? InlineParams<After>
+			: ParamEntry<Name, After extends `(${string}` ? SkipConstraint<After> : After>
+		: never
+	: {};
+
+type ParamEntry<Name extends string, After extends string> = After extends "?" ? { [K in Name]?: string } : { [K in Name]: string } & InlineParams<After>;
+
+/** Splits a string into its leading parameter name and the rest */
+type TakeName<S extends string, Name extends string = ""> = S extends `${infer C}${infer Rest}`
+	? C extends WordChar
+		? TakeName<Rest, `${Name}${C}`>
+		: [Name, S]
+	: [Name, S];
+
+/** Removes a leading parenthesized constraint, honoring nesting and escaped characters */
+type SkipConstraint<S extends string, Depth extends unknown[] = []> = S extends `${infer C}${infer Rest}`
+	? C extends "\\"
+		? Rest extends `${infer _}${infer After}`
+			? SkipConstraint<After, Depth>
+			: ""
+		: C extends "("
+			? SkipConstraint<Rest, [...Depth, unknown]>
+			: C extends ")"
+				? Depth extends [unknown, ...infer Outer]
+					? Outer extends []
+						? Rest
+						: SkipConstraint<Rest, Outer>
+					: Rest
+				: SkipConstraint<Rest, Depth>
+	: "";
+
+type HostParams<Pattern extends string> = Pattern extends `${infer Label}.${infer Rest}` ? HostLabelParams<Label> & HostParams<Rest> : HostLabelParams<Pattern>;
+
+type HostLabelParams<Label extends string> = Label extends `:${infer Name}` ? { [K in Name]: string } : {};
+
+/**
+ * Value accepted for a single query parameter when building URLs.
+ * `null` and `undefined` values are omitted from the generated query string.
+ */
+export type UrlQueryValue = string | number | boolean | null | undefined;
+
+/**
+ * Options for building URLs with `app.url()`.
+ *
+ * @example
+ * ```typescript
+ * app.url('user.posts', { id: 5 }, { query: { page: 2, tag: ['a', 'b'] } });
+ * // "/users/5/posts?page=2&tag=a&tag=b"
+ * ```
+ */
+export interface UrlOptions {
+	/** Query parameters to append; arrays produce repeated keys */
+	query?: Record<string, UrlQueryValue | UrlQueryValue[]>;
+}
+
+/**
+ * Runtime adapter that received a request; `fetch` for `app.fetch()` and `app.handle()`.
+ */
+export type RequestRuntime = "fetch" | "bun" | "deno" | "node" | "cloudflare";
+
+/**
+ * Execution context of platforms such as Cloudflare Workers, used to extend the lifetime of a request.
+ */
+export interface ExecutionContext {
+	/** Keeps the request alive until the promise settles */
+	waitUntil(promise: Promise<unknown>): void;
+	/** Forwards the request to the origin if the handler throws (Cloudflare Workers) */
+	passThroughOnException?(): void;
 }
 
+/**
+ * Runtime information about a request, passed by the runtime adapter through the request pipeline
+ * and available to handlers as `ctx.info`.
+ *
+ * @template B - The type of the environment bindings
+ *
+ * @example
+ * ```typescript
+ * app.get('/job', (ctx) => {
+ *   ctx.info.executionCtx?.waitUntil(sendAnalytics(ctx.req));
+ *   return ctx.text(`Served by ${ctx.info.runtime}`);
+ * });
+ * ```
+ */
+export interface RequestInfo<B extends Record<string, unknown> = Record<string, unknown>> {
+	/** Runtime adapter that received the request */
+	runtime: RequestRuntime;
+	/** Client IP address reported by the runtime, if known */
+	clientIp?: string;
+	/** Environment bindings (e.g., Cloudflare Workers bindings) */
+	env?: B;
+	/** Execution context of the platform (e.g., the Cloudflare Workers `ExecutionContext`) */
+	executionCtx?: ExecutionContext;
+	/** Bun server instance (`handleBun()`) */
+	server?: unknown;
+	/** Deno `ServeHandlerInfo` (`handleDeno()`) */
+	denoInfo?: unknown;
+	/** Node.js `IncomingMessage` (`handleNode()`) */
+	nodeReq?: unknown;
+	/** Node.js `ServerResponse` (`handleNode()`) */
+	nodeRes?: unknown;
+}
+
+/**
+ * Hook running for every request before routing, see `app.onRequest()`.
+ * Returning a Request continues with that request instead (e.g., with a rewritten URL);
+ * returning a Response answers the request without routing.
+ */
+export type OnRequestHook = (req: Request) => Request | Response | void | Promise<Request | Response | void>;
+
+/**
+ * Hook running after a route has matched and before its middleware and handlers, see `app.beforeHandle()`.
+ * Returning a Response answers the request without running the route.
+ *
+ * @template T - The type of the context state object
+ */
+export type BeforeHandleHook<T extends Record<string, unknown> = Record<string, unknown>, B extends Record<string, unknown> = Record<string, unknown>> = (
+	ctx: Context<T, B>
+) => Response | void | Promise<Response | void>;
+
+/**
+ * Hook running for every response before it is sent, see `app.onResponse()`.
+ * Returning a Response replaces the response.
+ */
+export type OnResponseHook = (res: Response, req: Request) => Response | void | Promise<Response | void>;
+
+/**
+ * Hook running after the response body has been sent, see `app.onFinish()`.
+ */
+export type OnFinishHook = (event: FinishEvent) => void | Promise<void>;
+
+/**
+ * Details of a completed request passed to `onFinish` hooks.
+ */
+export interface FinishEvent {
+	/** The request, as rewritten by `onRequest` hooks */
+	req: Request;
+	/** The response that was sent */
+	res: Response;
+	/** Error thrown while handling the request or sending the body, if any */
+	error?: unknown;
+	/** Time the request was received, in milliseconds since the epoch */
+	startTime: number;
+	/** Milliseconds from receiving the request until the body was sent */
+	duration: number;
+}
+
+/**
+ * Any fetch-compatible request handler, such as another framework's `fetch` export.
+ */
+export type FetchHandler = (req: Request, env?: any, ctx?: any) => Response | Promise<Response>;
+
+/**
+ * Options for mounting a fetch handler with `app.mount()`.
+ *
+ * @example
+ * ```typescript
+ * app.mount('/legacy', legacyApp.fetch, { stripPrefix: false });
+ * ```
+ */
+export interface MountOptions {
+	/** Remove the mount prefix from the URL before forwarding the request (default: true) */
+	stripPrefix?: boolean;
+}
+
+/**
+ * Options for creating an `HTTPException`.
+ *
+ * @example
+ * ```typescript
+ * throw new HTTPException(401, { message: 'Invalid token', headers: { 'WWW-Authenticate': 'Bearer' } });
+ * ```
+ */
+export interface HTTPExceptionOptions {
+	/** Error message, also used as the response body (default: the status text, e.g. "Not Found") */
+	message?: string;
+	/** Headers to add to the response */
+	headers?: HeadersInit;
+	/** The underlying error */
+	cause?: unknown;
+}
+
+/**
+ * Handler for errors thrown while handling a request, registered with `app.onError()`.
+ *
+ * @template E - The type of the handled error
+ * @template T - The type of the context state object
+ * @template B - The type of the environment bindings
+ */
+export type ErrorHandler<E = Error, T extends Record<string, unknown> = Record<string, unknown>, B extends Record<string, unknown> = Record<string, unknown>> = (
+	err: E,
+	ctx: Context<T, B>
+) => Response | Promise<Response>;
+
+/**
+ * Options for creating a Web application instance.
+ *
+ * @example
+ * ```typescript
+ * const app = new Web({ strict: true, caseSensitive: false, trailingSlash: 'redirect' });
+ * ```
+ */
+export interface WebOptions {
+	/**
+	 * Throw an error when a route conflicts with an existing one instead of logging a warning.
+	 * @default false
+	 */
+	strict?: boolean;
+	/**
+	 * Match static path segments case-sensitively. Parameter values always keep their original case.
+	 * @default true
+	 */
+	caseSensitive?: boolean;
+	/**
+	 * How trailing and duplicate slashes are handled:
+	 * - `ignore`: `/users`, `/users/` and `//users` all match the route `/users`
+	 * - `strict`: slashes are significant, so `/users/` only matches a route registered as `/users/`
+	 * - `redirect`: like `strict`, but requests that only match after adding or removing a trailing slash
+	 *   or collapsing duplicate slashes are redirected to that canonical URL (301 for GET/HEAD, 308 otherwise)
+	 * @default "ignore"
+	 */
+	trailingSlash?: TrailingSlashMode;
+	/**
+	 * Router implementation used to match request paths, either the name of a built-in router or a
+	 * factory creating a custom one (a separate router is created for each host pattern):
+	 * - `trie`: prefix tree, matching segment by segment
+	 * - `static`: hash map for static paths in front of a trie for the dynamic ones
+	 * - `regexp`: all routes of a method compiled into a single regular expression
+	 * - `smart`: uses a trie while routes are registered and switches to the best fit on the first request
+	 * @default "trie"
+	 */
+	router?: RouterName | RouterFactory;
+	/**
+	 * Development mode: uncaught errors without an error handler are answered with a detailed error
+	 * page (HTML for browsers, JSON otherwise) showing the stack trace with source snippets, the
+	 * request with sensitive headers redacted, the matched route, the middleware chain and `ctx.state`.
+	 * Only the literal value `true` (or an options object) enables it, and only when `NODE_ENV` is set
+	 * to a value other than "production", unless `allowInProduction` is set.
+	 * @default false
+	 */
+	dev?: boolean | DevOptions;
+}
+
+/**
+ * Options for the development error page, see {@link WebOptions.dev}.
+ *
+ * @example
+ * ```typescript
+ * const sensitiveHeaders = ['authorization', 'cookie', 'set-cookie', 'x-api-key'];
+ * const app = new Web({ dev: { redactHeaders: sensitiveHeaders } });
+ * app.use(logger({ excludeHeaders: sensitiveHeaders }));
+ * ```
+ */
+export interface DevOptions {
+	/**
+	 * Request headers whose values are redacted on the error page, matching the logger's `excludeHeaders`
+	 * @default ["authorization", "cookie", "set-cookie"]
+	 */
+	redactHeaders?: string[];
+	/**
+	 * Enables the error page even when `NODE_ENV` is "production" or not set, e.g. for local
+	 * development on runtimes without `NODE_ENV` such as Cloudflare Workers
+	 * @default false
+	 */
+	allowInProduction?: boolean;
+}
+
+/**
+ * Name of a built-in router, see {@link WebOptions.router}.
+ */
+export type RouterName = "trie" | "static" | "regexp" | "smart";
+
+/**
+ * Creates a router instance.
+ *
+ * @example
+ * ```typescript
+ * const app = new Web({ router: (options) => new RegExpRouter(options) });
+ * ```
+ */
+export type RouterFactory = (options: RouterOptions) => Router<any, any>;
+
+/**
+ * Options passed to router implementations.
+ */
+export interface RouterOptions {
+	/** Match static path segments case-sensitively (default: true) */
+	caseSensitive?: boolean;
+}
+
+/**
+ * A route as passed to a router.
+ */
+export interface RouterRoute<T extends Record<string, unknown> = Record<string, unknown>, B extends Record<string, unknown> = Record<string, unknown>> {
+	/** Unique route ID */
+	id: string;
+	/** HTTP method, or "ALL" for catch-all routes */
+	method: Method;
+	/** Path pattern as registered (e.g., "/users/:id") */
+	path: string;
+	/** Segments of the path pattern, split the same way request paths are */
+	segments: string[];
+	/** Route handlers */
+	handlers: Middleware<T, B>[];
+	/** Route name, if any */
+	name?: string;
+	/** Host pattern, if any (used in conflict messages) */
+	host?: string;
+}
+
+/**
+ * Result of a router lookup.
+ */
+export interface RouterMatch<T extends Record<string, unknown> = Record<string, unknown>, B extends Record<string, unknown> = Record<string, unknown>> {
+	/** Handlers of the matched route */
+	handlers: Middleware<T, B>[];
+	/** Parameters extracted from the path */
+	params: Record<string, string>;
+	/** ID of the matched route */
+	routeId: string;
+	/** Pattern the route was registered with */
+	routePath: string;
+	/** Name of the matched route, if any */
+	routeName?: string;
+}
+
+/**
+ * A route conflict detected by a router, with the ID of the earlier route involved.
+ */
+export interface RouterConflict extends RouteConflict {
+	/** ID of the previously registered route involved in the conflict, if any */
+	existingId?: string;
+	/** ID of the route the conflict belongs to, for conflicts reported on removal */
+	routeId?: string;
+}
+
+/**
+ * Stores routes and matches request paths against them. A route registered again for the same method
+ * and pattern replaces the earlier one until it is removed, which restores the earlier route.
+ *
+ * @template T - The type of the context state object
+ *
+ * @example
+ * ```typescript
+ * const router = new TrieRouter();
+ * router.add({ id: '1', method: 'GET', path: '/users/:id', segments: ['users', ':id'], handlers: [showUser] });
+ * router.match('GET', ['users', '42']); // { handlers: [showUser], params: { id: '42' }, routeId: '1', routePath: '/users/:id' }
+ * ```
+ */
+export interface Router<T extends Record<string, unknown> = Record<string, unknown>, B extends Record<string, unknown> = Record<string, unknown>> {
+	/** Name of the implementation */
+	readonly name: string;
+	/**
+	 * Adds a route.
+	 * @returns Conflicts between the route and the routes already added
+	 */
+	add(route: RouterRoute<T, B>): RouterConflict[];
+	/**
+	 * Removes a route by ID; unknown IDs are ignored.
+	 * @returns Conflicts between the remaining routes that now involve a different earlier route, if any
+	 */
+	remove(id: string): RouterConflict[] | void;
+	/**
+	 * Matches the segments of a request path for a method.
+	 * @returns The matched route, or null if no route matches
+	 */
+	match(method: Method, segments: string[]): RouterMatch<T, B> | null;
+}
+
+/**
+ * Trailing and duplicate slash handling mode, see {@link WebOptions.trailingSlash}.
+ */
+export type TrailingSlashMode = "ignore" | "redirect" | "strict";
+
+/**
+ * Kind of problem detected when registering a route:
+ * - `duplicate`: the same method and path were registered again, replacing the earlier handlers
+ * - `param-name`: a parameter uses a different name than the parameter already registered at the same position
+ * - `unreachable`: a route (or part of it) can never be matched
+ */
+export type RouteConflictType = "duplicate" | "param-name" | "unreachable";
+
+/**
+ * A route conflict reported at registration time and by `app.validateRoutes()`.
+ *
+ * @example
+ * ```typescript
+ * const conflict: RouteConflict = {
+ *   type: 'duplicate',
+ *   method: 'GET',
+ *   path: '/users',
+ *   message: 'Duplicate route "GET /users": the new handlers replace the existing ones',
+ * };
+ * ```
+ */
+export interface RouteConflict {
+	/** Kind of conflict */
+	type: RouteConflictType;
+	/** HTTP method of the route that caused the conflict */
+	method: Method;
+	/** Path of the route that caused the conflict */
+	path: string;
+	/** Host pattern of the route that caused the conflict, if any */
+	host?: string;
+	/** Path of the previously registered route involved in the conflict, if any */
+	existingPath?: string;
+	/** Human-readable description of the conflict */
+	message: string;
+}
+
+/**
+ * Routes registered on an application, keyed by path and then by "$" followed by the lowercase method
+ * (e.g., `{ "/users/:id": { $get: { output: User } } }`). Accumulated by the route registration methods
+ * and used by `createClient()`.
+ */
+export type RouteSchema = Record<string, Record<string, { output: unknown }>>;
+
+/**
+ * Schema entry for a single route.
+ *
+ * @template M - HTTP method (or union of methods)
+ * @template Path - Route path
+ * @template Output - JSON body type of the route's responses
+ */
+export type SchemaRoute<M extends string, Path extends string, Output> = { [K in Path]: { [Key in `$${Lowercase<M>}`]: { output: Output } } };
+
+/**
+ * Schema of a sub-application with its paths prefixed, as produced by mounting it with `route()`.
+ */
+export type PrefixSchema<Prefix extends string, S> = { [K in keyof S & string as JoinedPath<Prefix, K>]: S[K] };
+
+/** Joins two paths like `route()` does (e.g., "/api" and "/users" become "/api/users") */
+type JoinedPath<Prefix extends string, Path extends string> = Path extends "/"
+	? (Trim<Prefix> extends "" ? "/" : Trim<Prefix>)
+	: `${Trim<Prefix>}${Path extends `/${string}` ? Path : `/${Path}`}`;
+
+type Trim<Prefix extends string> = Prefix extends `${infer Head}/` ? (Head extends "" ? "" : Trim<Head>) : Prefix extends `/${string}` ? Prefix : `/${Prefix}`;
+
+/**
+ * Options for creating an RPC client with `createClient()`.
+ */
+export interface ClientOptions {
+	/** Fetch implementation used to send requests (default: global `fetch`) */
+	fetch?: (request: Request) => Response | Promise<Response>;
+	/** Headers added to every request */
+	headers?: Record<string, string>;
+}
+
+/**
+ * Request data accepted by the methods of an RPC client.
+ *
+ * @template P - The route parameters
+ */
+export type ClientRequest<P> = ({} extends P ? { param?: P } : { param: P }) & {
+	/** Query parameters; arrays produce repeated keys */
+	query?: Record<string, UrlQueryValue | UrlQueryValue[]>;
+	/** JSON body */
+	json?: unknown;
+	/** Form body, sent URL-encoded (or as multipart if it contains a Blob) */
+	form?: Record<string, string | Blob>;
+	/** Request headers */
+	headers?: Record<string, string>;
+};
+
+/**
+ * Response returned by the methods of an RPC client, with a typed `json()`.
+ */
+export type ClientResponse<Output> = Omit<Response, "json"> & { json(): Promise<Output> };
+
+/**
+ * Typed RPC client for an application's route schema. Path segments become properties
+ * (`"/users/:id"` is `client.users[":id"]`, `"/"` is `client.index`) and methods are called with `$get()`, `$post()`, ...
+ *
+ * @example
+ * ```typescript
+ * const app = new Web().get('/users/:id', (ctx) => ctx.json({ id: ctx.params.id }));
+ * const client = createClient<typeof app>('https://api.example.com');
+ * const res = await client.users[':id'].$get({ param: { id: '1' } });
+ * const user = await res.json(); // { id: string }
+ * ```
+ */
+export type Client<S> = UnionToIntersection<{ [Path in keyof S & string]: PathClient<PathSegments<Path>, Path, S[Path]> }[keyof S & string]>;
+
+type PathClient<Segments extends string[], Path extends string, Endpoints> = Segments extends [infer Head extends string, ...infer Rest extends string[]]
+	? { [K in Head]: PathClient<Rest, Path, Endpoints> }
+	: {
+			[M in keyof Endpoints]: Endpoints[M] extends { output: infer Output }
+				? {} extends ExtractParams<Path>
+					? (request?: ClientRequest<ExtractParams<Path>>, init?: RequestInit) => Promise<ClientResponse<Output>>
+					: (request: ClientRequest<ExtractParams<Path>>, init?: RequestInit) => Promise<ClientResponse<Output>>
+				: never;
+		};
+
+/** Splits a path into its non-empty segments, "/" becomes ["index"] */
+type PathSegments<Path extends string> = SplitSegments<Path> extends [] ? ["index"] : SplitSegments<Path>;
+
+type SplitSegments<Path extends string> = Path extends `${infer Head}/${infer Rest}`
+	? Head extends ""
+		? SplitSegments<Rest>
+		: [Head, ...SplitSegments<Rest>]
+	: Path extends ""
+		? []
+		: [Path];
+
+type UnionToIntersection<U> = (U extends unknown ? (value: U) => void : never) extends (value: infer I) => void ? I : never;
+
 /**
  * Server instance returned by the listen method.
  * Provides a unified interface for controlling servers across different runtimes.
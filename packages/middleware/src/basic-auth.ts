@@ -1,4 +1,4 @@
-import type { Context, Middleware } from "@rabbit-company/web";
+import type { Context, Middleware, MiddlewareSecurity } from "@rabbit-company/web";
 
 /**
  * Options for configuring the Basic Authentication middleware.
@@ -49,7 +49,7 @@ export function basicAuth<T extends Record<string, unknown> = Record<string, unk
 ): Middleware<T, B> {
 	const { skip, validate, realm = "Restricted", contextKey = "user" as keyof T } = options;
 
-	return async (ctx: Context<T, B>, next) => {
+	const middleware: Middleware<T, B> = async (ctx, next) => {
 		// Check if we should skip this request
 		if (skip && (await skip(ctx))) {
 			return next();
@@ -59,7 +59,7 @@ export function basicAuth<T extends Record<string, unknown> = Record<string, unk
 
 		if (!auth || !auth.startsWith("Basic ")) {
 			ctx.header("WWW-Authenticate", `Basic realm="${realm}"`);
-			return ctx.text("Unauthorized", 401);
+			return ctx.problemDetails ? ctx.problem(401) : ctx.text("Unauthorized", 401);
 		}
 
 		try {
@@ -70,13 +70,16 @@ export function basicAuth<T extends Record<string, unknown> = Record<string, unk
 
 			if (!isValid) {
 				ctx.header("WWW-Authenticate", `Basic realm="${realm}"`);
-				return ctx.text("Unauthorized", 401);
+				return ctx.problemDetails ? ctx.problem(401) : ctx.text("Unauthorized", 401);
 			}
 
 			ctx.set(contextKey, { username } as T[keyof T]);
 			return next();
 		} catch {
-			return ctx.text("Invalid credentials", 400);
+			return ctx.problemDetails ? ctx.problem(400, { detail: "Invalid credentials" }) : ctx.text("Invalid credentials", 400);
 		}
 	};
+
+	const security: MiddlewareSecurity = { name: "basicAuth", scheme: { type: "http", scheme: "basic" } };
+	return Object.assign(middleware, { security });
 }
@@ -1,4 +1,4 @@
-import type { Context, Middleware } from "@rabbit-company/web";
+import type { Context, Middleware, MiddlewareSecurity } from "@rabbit-company/web";
 
 /**
  * Options for configuring the Bearer Token Authentication middleware.
@@ -107,7 +107,7 @@ export function bearerAuth<T extends Record<string, unknown> = Record<string, un
 		invalidTokenMessage = "Invalid or expired token",
 	} = options;
 
-	return async (ctx: Context<T, B>, next) => {
+	const middleware: Middleware<T, B> = async (ctx, next) => {
 		// Check if we should skip this request
 		if (skip && (await skip(ctx))) {
 			return next();
@@ -122,7 +122,7 @@ export function bearerAuth<T extends Record<string, unknown> = Record<string, un
 				challenge += ` realm="${realm}"`;
 			}
 			ctx.header("WWW-Authenticate", challenge);
-			return ctx.json({ error: missingTokenMessage }, 401);
+			return reject(ctx, missingTokenMessage, 401);
 		}
 
 		try {
@@ -130,14 +130,14 @@ export function bearerAuth<T extends Record<string, unknown> = Record<string, un
 
 			if (!token.trim()) {
 				ctx.header("WWW-Authenticate", scheme);
-				return ctx.json({ error: missingTokenMessage }, 401);
+				return reject(ctx, missingTokenMessage, 401);
 			}
 
 			const result = await validate(token, ctx);
 
 			if (result === false) {
 				ctx.header("WWW-Authenticate", scheme);
-				return ctx.json({ error: invalidTokenMessage }, 401);
+				return reject(ctx, invalidTokenMessage, 401);
 			}
 
 			// Set user data in context
@@ -152,7 +152,24 @@ export function bearerAuth<T extends Record<string, unknown> = Record<string, un
 			return next();
 		} catch (error) {
 			ctx.header("WWW-Authenticate", scheme);
-			return ctx.json({ error: invalidTokenMessage }, 500);
+			return reject(ctx, invalidTokenMessage, 500);
 		}
 	};
+
+	// Advertise the scheme so app.openapi() can document protected routes
+	const security: MiddlewareSecurity = { name: "bearerAuth", scheme: { type: "http", scheme: "bearer" } };
+	return Object.assign(middleware, { security });
+}
+
+/**
+ * Creates the response for a failed authentication: problem details if the application enabled them,
+ * an `{ error }` JSON object otherwise.
+ *
+ * @param {Context} ctx - The request context.
+ * @param {string} message - The error message.
+ * @param {number} status - The HTTP status code.
+ * @returns {Response} - The error response.
+ */
+function reject<T extends Record<string, unknown>, B extends Record<string, unknown>>(ctx: Context<T, B>, message: string, status: number): Response {
+	return ctx.problemDetails ? ctx.problem(status, { detail: message }) : ctx.json({ error: message }, status);
 }
@@ -81,7 +81,7 @@ export function bodyLimit<T extends Record<string, unknown> = Record<string, unk
 
 		if (contentLength !== null && contentLength > limit) {
 			const message = getErrorMessage(contentLength, limit, opts.message);
-			return ctx.text(message, opts.statusCode || 413);
+			return reject(ctx, message, opts.statusCode || 413, limit);
 		}
 
 		// For streaming bodies, we need to check while reading
@@ -99,7 +99,7 @@ export function bodyLimit<T extends Record<string, unknown> = Record<string, unk
 					if (totalSize > limit) {
 						reader.cancel();
 						const message = getErrorMessage(totalSize, limit, opts.message);
-						return ctx.text(message, opts.statusCode || 413);
+						return reject(ctx, message, opts.statusCode || 413, limit);
 					}
 					chunks.push(value);
 				}
@@ -216,6 +216,20 @@ function getErrorMessage(size: number, limit: number, customMessage?: string | (
 	return `Request body too large. Received ${formatSize(size)} but limit is ${formatSize(limit)}.`;
 }
 
+/**
+ * Creates the response for a request body over the limit: problem details with the limit in bytes
+ * if the application enabled them, plain text otherwise.
+ *
+ * @param {Context} ctx - The request context.
+ * @param {string} message - The error message.
+ * @param {number} status - The HTTP status code.
+ * @param {number} limit - The maximum allowed size in bytes.
+ * @returns {Response} - The error response.
+ */
+function reject<T extends Record<string, unknown>, B extends Record<string, unknown>>(ctx: Context<T, B>, message: string, status: number, limit: number): Response {
+	return ctx.problemDetails ? ctx.problem(status, { detail: message, limit }) : ctx.text(message, status);
+}
+
 /**
  * Formats a size in bytes to a human-readable string.
  *
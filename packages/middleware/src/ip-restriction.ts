@@ -190,7 +190,7 @@ export function ipRestriction<T extends Record<string, unknown>, B extends Recor
 
 			const message = typeof options.message === "function" ? options.message("unknown") : options.message;
 
-			return ctx.text(message, options.statusCode);
+			return ctx.problemDetails ? ctx.problem(options.statusCode, { detail: message }) : ctx.text(message, options.statusCode);
 		}
 
 		// Normalize IP
@@ -216,7 +216,7 @@ export function ipRestriction<T extends Record<string, unknown>, B extends Recor
 
 			const message = typeof options.message === "function" ? options.message(normalizedIp) : options.message;
 
-			return ctx.text(message, options.statusCode);
+			return ctx.problemDetails ? ctx.problem(options.statusCode, { detail: message }) : ctx.text(message, options.statusCode);
 		}
 
 		// Continue to next middleware
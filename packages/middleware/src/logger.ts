@@ -137,6 +137,7 @@ export interface LoggerOptions<T extends Record<string, unknown>, B extends Reco
 
 	/**
 	 * Additional metadata to include in all logs.
+	 * The matched route pattern is always included as `route` when available.
 	 */
 	metadata?: Record<string, unknown> | ((ctx: Context<T, B>) => Record<string, unknown>);
 }
@@ -283,8 +284,11 @@ export function logger<T extends Record<string, unknown> = Record<string, unknow
 		// Start timing
 		const startTime = Date.now();
 
-		// Get base metadata
-		const baseMetadata = getMetadata(metadata, ctx);
+		// Get base metadata, labelled with the route pattern rather than the raw path to keep cardinality low
+		const baseMetadata = {
+			...(ctx.routePath ? { route: ctx.routePath } : {}),
+			...getMetadata(metadata, ctx),
+		};
 		const userId = getUserId ? getUserId(ctx) : undefined;
 
 		// Log incoming request
@@ -313,7 +317,7 @@ export function logger<T extends Record<string, unknown> = Record<string, unknow
 
 		if (logResponseBody) {
 			// Intercept response methods to capture body
-			ctx.json = function (data: unknown, status?: number, headers?: Record<string, string>) {
+			ctx.json = function <D>(data: D, status?: number, headers?: Record<string, string>) {
 				responseBody = JSON.stringify(data);
 				statusCode = status || 200;
 				return originalJson(data, status, headers);
@@ -131,7 +131,7 @@ export interface RateLimitOptions<T extends Record<string, unknown>, B extends R
 	 * @param ctx - Request context
 	 * @returns Endpoint identifier string
 	 *
-	 * @default Combines HTTP method and pathname
+	 * @default Combines HTTP method and matched route pattern (pathname if no route matched)
 	 *
 	 * @example
 	 * ```typescript
@@ -383,16 +383,18 @@ export function rateLimit<T extends Record<string, unknown> = Record<string, unk
 				ctx.header("Retry-After", retryAfter.toString());
 			}
 
-			return ctx.json(
-				{
-					error: message,
-					retryAfter: retryAfter,
-					limit: result.limit,
-					window: result.window,
-					reset: new Date(result.reset).toISOString(),
-				},
-				statusCode
-			);
+			const details = {
+				retryAfter: retryAfter,
+				limit: result.limit,
+				window: result.window,
+				reset: new Date(result.reset).toISOString(),
+			};
+
+			if (ctx.problemDetails) {
+				return ctx.problem(statusCode, { detail: message, ...details });
+			}
+
+			return ctx.json({ error: message, ...details }, statusCode);
 		}
 
 		// Continue to next middleware
@@ -415,21 +417,24 @@ function defaultKeyGenerator<T extends Record<string, unknown>, B extends Record
 
 /**
  * Default endpoint generator that creates a unique identifier by combining
- * HTTP method and URL pathname.
+ * HTTP method and the matched route pattern, so all requests to one route share a limit.
+ * Falls back to the URL pathname when no route pattern is available.
  *
  * @template T - Context state type
  * @param ctx - The request context
- * @returns Endpoint identifier in format "METHOD:pathname"
+ * @returns Endpoint identifier in format "METHOD:pattern"
  *
  * @example
  * ```typescript
  * // GET /api/users -> "GET:/api/users"
- * // POST /api/users/123 -> "POST:/api/users/123"
+ * // POST /api/users/123 (route "/api/users/:id") -> "POST:/api/users/:id"
  * ```
  *
  * @internal
  */
 function defaultEndpointGenerator<T extends Record<string, unknown>, B extends Record<string, unknown>>(ctx: Context<T, B>): string {
+	if (ctx.routePath) return `${ctx.req.method}:${ctx.routePath}`;
+
 	try {
 		const url = new URL(ctx.req.url);
 		return `${ctx.req.method}:${url.pathname}`;
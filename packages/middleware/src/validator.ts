@@ -0,0 +1,404 @@
+import type { Context, Middleware } from "@rabbit-company/web";
+
+/**
+ * Part of the request a validator checks:
+ * - `params`: route parameters
+ * - `query`: query string parameters (repeated keys become arrays)
+ * - `headers`: request headers (keys are lowercase)
+ * - `json`: JSON request body
+ * - `form`: URL-encoded or multipart form body (repeated keys become arrays)
+ */
+export type ValidationTarget = "params" | "query" | "headers" | "json" | "form";
+
+/**
+ * Minimal copy of the Standard Schema interface (https://standardschema.dev),
+ * implemented by Zod, Valibot, ArkType and other validation libraries.
+ *
+ * @template Input - The type the schema accepts.
+ * @template Output - The type the schema produces.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+	readonly "~standard": {
+		readonly version: 1;
+		readonly vendor: string;
+		readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+		readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+	};
+}
+
+/**
+ * Result of a Standard Schema validation.
+ */
+export type StandardSchemaResult<Output> =
+	| { readonly value: Output; readonly issues?: undefined }
+	| { readonly issues: ReadonlyArray<{ readonly message: string; readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> }> };
+
+/**
+ * Rule for a single field of the built-in lightweight schema.
+ * Values from params, query, headers and forms are strings and are converted to numbers and booleans
+ * ("true"/"1" and "false"/"0"); JSON values must already have the right type.
+ */
+export interface FieldRule {
+	/** Expected type of the value */
+	type: "string" | "number" | "integer" | "boolean";
+	/** Whether the field may be missing. Default: false */
+	optional?: boolean;
+	/** Minimum string length or number value */
+	min?: number;
+	/** Maximum string length or number value */
+	max?: number;
+	/** Pattern a string value must match */
+	pattern?: RegExp;
+	/** Allowed values */
+	enum?: readonly (string | number | boolean)[];
+	/** Custom message used for every issue of this field */
+	message?: string;
+}
+
+/**
+ * Built-in lightweight schema: an object mapping field names to {@link FieldRule}s.
+ * Fields not listed in the schema are removed from the validated value.
+ *
+ * @example
+ * ```typescript
+ * const createUser = {
+ *   name: { type: 'string', min: 2 },
+ *   email: { type: 'string', pattern: /^[^@]+@[^@]+$/ },
+ *   age: { type: 'integer', min: 0, max: 150, optional: true },
+ * } satisfies ObjectSchema;
+ * ```
+ */
+export type ObjectSchema = Record<string, FieldRule>;
+
+/**
+ * Schema accepted by the validator middleware.
+ */
+export type ValidationSchema = StandardSchemaV1 | ObjectSchema;
+
+type FieldOutput<R extends FieldRule> = R["type"] extends "string" ? string : R["type"] extends "boolean" ? boolean : number;
+
+/**
+ * Type of the validated value produced by a schema.
+ *
+ * @example
+ * ```typescript
+ * type CreateUser = InferOutput<typeof createUser>;
+ * // { name: string; email: string; age?: number }
+ * ```
+ */
+export type InferOutput<S extends ValidationSchema> =
+	S extends StandardSchemaV1<any, infer O>
+		? O
+		: S extends ObjectSchema
+			? { [K in keyof S as S[K]["optional"] extends true ? never : K]: FieldOutput<S[K]> } & {
+					[K in keyof S as S[K]["optional"] extends true ? K : never]?: FieldOutput<S[K]>;
+				}
+			: never;
+
+/**
+ * A single validation problem.
+ */
+export interface ValidationIssue {
+	/** Dot-separated path of the invalid value, empty for the value itself */
+	path: string;
+	/** Description of the problem */
+	message: string;
+}
+
+/**
+ * Details of a failed validation, also used as the JSON error payload.
+ */
+export interface ValidationError {
+	/** Summary of the failure: "Validation failed" or "Invalid request body" */
+	error: string;
+	/** The validated part of the request */
+	target: ValidationTarget;
+	/** The problems found */
+	issues: ValidationIssue[];
+}
+
+/**
+ * Options for configuring the validator middleware.
+ *
+ * @template T - The shape of the context object.
+ * @template K - The context key of the validated value.
+ */
+export interface ValidatorOptions<T extends Record<string, unknown>, B extends Record<string, unknown>, K extends string = string> {
+	/**
+	 * The key in the context where the validated value is stored.
+	 * Default: the target name (e.g. "json")
+	 */
+	contextKey?: K;
+
+	/**
+	 * HTTP status code returned when the value does not match the schema.
+	 * Malformed or missing bodies always return 400.
+	 * Default: 422 for `json` and `form`, 400 for the other targets
+	 */
+	status?: number;
+
+	/**
+	 * Custom error response. Receives the validation error and its status code.
+	 * Default: responds with the {@link ValidationError} as JSON
+	 */
+	onError?: (error: ValidationError, status: number, ctx: Context<T, B>) => Response | Promise<Response>;
+}
+
+/**
+ * Validator middleware that checks route parameters, query parameters, headers or the request body
+ * against a schema. Accepts any Standard Schema-compatible validator (Zod, Valibot, ArkType, ...)
+ * or the built-in {@link ObjectSchema}. The parsed value is stored in the context; invalid requests
+ * are answered with a {@link ValidationError} JSON payload. The request body stays readable for later handlers.
+ *
+ * @template Target - The part of the request to validate.
+ * @template S - The schema type.
+ * @template K - The context key of the validated value, the target name by default.
+ * @template T - The context's data type, whose entry under `K` must accept the schema's output.
+ * @param {Target} target - The part of the request to validate.
+ * @param {S} schema - Standard Schema or built-in object schema.
+ * @param {ValidatorOptions<T, B, K>} [options={}] - Configuration options.
+ * @returns {Middleware<T, B>} - Middleware function for request validation, storing an `InferOutput<S>` under the context key.
+ *
+ * @example
+ * ```typescript
+ * const createUser = {
+ *   name: { type: 'string', min: 2 },
+ *   email: { type: 'string', pattern: /^[^@]+@[^@]+$/ },
+ * } as const;
+ *
+ * const app = new Web<{ json: InferOutput<typeof createUser> }>();
+ *
+ * app.post('/users', validator('json', createUser), (ctx) => {
+ *   const { name, email } = ctx.get('json');
+ *   return ctx.json({ name, email }, 201);
+ * });
+ *
+ * // With Zod
+ * app.get('/posts', validator('query', z.object({ page: z.coerce.number().min(1) })), listPosts);
+ * ```
+ */
+export function validator<
+	Target extends ValidationTarget,
+	S extends ValidationSchema,
+	K extends string = Target,
+	T extends Record<string, unknown> & { [P in K]?: InferOutput<S> } = Record<K, InferOutput<S>>,
+	B extends Record<string, unknown> = Record<string, unknown>,
+>(target: Target, schema: S, options: ValidatorOptions<T, B, K> = {}): Middleware<T, B> {
+	const { contextKey = target as string as K, status = target === "json" || target === "form" ? 422 : 400, onError } = options;
+
+	const fail = async (ctx: Context<T, B>, error: ValidationError, code: number) => {
+		if (onError) return onError(error, code, ctx);
+		if (ctx.problemDetails) return ctx.problem(code, { detail: error.error, target: error.target, issues: error.issues });
+		return ctx.json(error, code);
+	};
+
+	return async (ctx: Context<T, B>, next) => {
+		const input = await readTarget(ctx, target);
+		if ("malformed" in input) {
+			return fail(ctx, { error: "Invalid request body", target, issues: [{ path: "", message: input.malformed }] }, 400);
+		}
+
+		const result = isStandardSchema(schema)
+			? await validateStandard(schema, input.value)
+			: validateObject(schema, input.value, target !== "json");
+
+		if ("issues" in result) {
+			return fail(ctx, { error: "Validation failed", target, issues: result.issues }, status);
+		}
+
+		ctx.set(contextKey as keyof T, result.value as T[keyof T]);
+		return next();
+	};
+}
+
+/**
+ * Reads the raw value of a validation target from the request.
+ * Bodies are read from a clone, so handlers can still call `ctx.body()`.
+ *
+ * @param {Context} ctx - The request context.
+ * @param {ValidationTarget} target - The part of the request to read.
+ * @returns {Promise<{ value: unknown } | { malformed: string }>} - The value, or why the body could not be read.
+ */
+async function readTarget<T extends Record<string, unknown>, B extends Record<string, unknown>>(
+	ctx: Context<T, B>,
+	target: ValidationTarget
+): Promise<{ value: unknown } | { malformed: string }> {
+	switch (target) {
+		case "params":
+			return { value: { ...ctx.params } };
+		case "query":
+			return { value: collectEntries(ctx.query().entries()) };
+		case "headers": {
+			const headers: Record<string, string> = {};
+			ctx.req.headers.forEach((value, key) => {
+				headers[key] = value;
+			});
+			return { value: headers };
+		}
+		case "json": {
+			const type = ctx.req.headers.get("Content-Type") ?? "";
+			if (!type.includes("application/json") && !type.includes("+json")) {
+				return { malformed: "Expected a JSON request body" };
+			}
+			try {
+				return { value: await ctx.req.clone().json() };
+			} catch {
+				return { malformed: "Request body is not valid JSON" };
+			}
+		}
+		case "form": {
+			const type = ctx.req.headers.get("Content-Type") ?? "";
+			if (!type.includes("application/x-www-form-urlencoded") && !type.includes("multipart/form-data")) {
+				return { malformed: "Expected a form request body" };
+			}
+			try {
+				const formData = await ctx.req.clone().formData();
+				return { value: collectEntries(formData.entries() as IterableIterator<[string, FormDataEntryValue]>) };
+			} catch {
+				return { malformed: "Request body is not a valid form" };
+			}
+		}
+	}
+}
+
+/**
+ * Collects key-value pairs into an object, turning repeated keys into arrays.
+ *
+ * @param {Iterable<[string, V]>} entries - The entries to collect.
+ * @returns {Record<string, V | V[]>} - The collected object.
+ */
+function collectEntries<V>(entries: Iterable<[string, V]>): Record<string, V | V[]> {
+	const result: Record<string, V | V[]> = {};
+	for (const [key, value] of entries) {
+		const existing = result[key];
+		if (existing === undefined) {
+			result[key] = value;
+		} else if (Array.isArray(existing)) {
+			existing.push(value);
+		} else {
+			result[key] = [existing, value];
+		}
+	}
+	return result;
+}
+
+/**
+ * Checks whether a schema implements the Standard Schema interface.
+ *
+ * @param {ValidationSchema} schema - The schema to check.
+ * @returns {boolean} - True for Standard Schema validators.
+ */
+function isStandardSchema(schema: ValidationSchema): schema is StandardSchemaV1 {
+	return typeof (schema as StandardSchemaV1)["~standard"]?.validate === "function";
+}
+
+/**
+ * Validates a value with a Standard Schema validator and normalizes its issues.
+ *
+ * @param {StandardSchemaV1} schema - The validator.
+ * @param {unknown} value - The value to validate.
+ * @returns {Promise<{ value: unknown } | { issues: ValidationIssue[] }>} - The parsed value or the issues.
+ */
+async function validateStandard(schema: StandardSchemaV1, value: unknown): Promise<{ value: unknown } | { issues: ValidationIssue[] }> {
+	const result = await schema["~standard"].validate(value);
+	if (!result.issues) return { value: result.value };
+
+	return {
+		issues: result.issues.map((issue) => ({
+			path: (issue.path ?? []).map((segment) => String(typeof segment === "object" ? segment.key : segment)).join("."),
+			message: issue.message,
+		})),
+	};
+}
+
+/**
+ * Validates a value with the built-in object schema.
+ *
+ * @param {ObjectSchema} schema - The field rules.
+ * @param {unknown} value - The value to validate.
+ * @param {boolean} coerce - Whether string values are converted to numbers and booleans.
+ * @returns {{ value: Record<string, unknown> } | { issues: ValidationIssue[] }} - The parsed value or the issues.
+ */
+function validateObject(schema: ObjectSchema, value: unknown, coerce: boolean): { value: Record<string, unknown> } | { issues: ValidationIssue[] } {
+	if (typeof value !== "object" || value === null || Array.isArray(value)) {
+		return { issues: [{ path: "", message: "Expected an object" }] };
+	}
+
+	const input = value as Record<string, unknown>;
+	const output: Record<string, unknown> = {};
+	const issues: ValidationIssue[] = [];
+
+	for (const [field, rule] of Object.entries(schema)) {
+		const raw = input[field];
+		if (raw === undefined || raw === null || raw === "") {
+			if (!rule.optional) issues.push({ path: field, message: rule.message ?? "Required" });
+			continue;
+		}
+
+		const message = checkField(rule, coerce ? coerceValue(rule, raw) : raw);
+		if (typeof message === "string") {
+			issues.push({ path: field, message: rule.message ?? message });
+		} else {
+			output[field] = message.value;
+		}
+	}
+
+	return issues.length > 0 ? { issues } : { value: output };
+}
+
+/**
+ * Converts a string value to the type expected by a field rule. Other values are returned unchanged.
+ *
+ * @param {FieldRule} rule - The field rule.
+ * @param {unknown} value - The raw value.
+ * @returns {unknown} - The converted value, or the raw value if it cannot be converted.
+ */
+function coerceValue(rule: FieldRule, value: unknown): unknown {
+	if (typeof value !== "string") return value;
+
+	if (rule.type === "number" || rule.type === "integer") {
+		const number = Number(value);
+		return value.trim() === "" || Number.isNaN(number) ? value : number;
+	}
+
+	if (rule.type === "boolean") {
+		if (value === "true" || value === "1") return true;
+		if (value === "false" || value === "0") return false;
+	}
+
+	return value;
+}
+
+/**
+ * Checks a value against a field rule.
+ *
+ * @param {FieldRule} rule - The field rule.
+ * @param {unknown} value - The (converted) value.
+ * @returns {{ value: unknown } | string} - The valid value, or a message describing the problem.
+ */
+function checkField(rule: FieldRule, value: unknown): { value: unknown } | string {
+	switch (rule.type) {
+		case "string":
+			if (typeof value !== "string") return "Expected a string";
+			if (rule.min !== undefined && value.length < rule.min) return `Must be at least ${rule.min} characters`;
+			if (rule.max !== undefined && value.length > rule.max) return `Must be at most ${rule.max} characters`;
+			if (rule.pattern && !rule.pattern.test(value)) return "Invalid format";
+			break;
+		case "number":
+		case "integer":
+			if (typeof value !== "number" || Number.isNaN(value)) return "Expected a number";
+			if (rule.type === "integer" && !Number.isInteger(value)) return "Expected an integer";
+			if (rule.min !== undefined && value < rule.min) return `Must be at least ${rule.min}`;
+			if (rule.max !== undefined && value > rule.max) return `Must be at most ${rule.max}`;
+			break;
+		case "boolean":
+			if (typeof value !== "boolean") return "Expected a boolean";
+			break;
+	}
+
+	if (rule.enum && !rule.enum.includes(value as string | number | boolean)) {
+		return `Must be one of: ${rule.enum.join(", ")}`;
+	}
+
+	return { value };
+}
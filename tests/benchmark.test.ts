@@ -1,5 +1,5 @@
 import { describe, it, expect } from "bun:test";
-import { Web } from "../packages/core/src";
+import { RegExpRouter, SmartRouter, StaticRouter, TrieRouter, Web, type Router } from "../packages/core/src";
 import { Hono } from "hono";
 import { Elysia } from "elysia";
 
@@ -50,6 +50,28 @@ async function runBenchmark(name: string, handler: (req: Request) => Promise<Res
 	return { duration, rps };
 }
 
+function runRouterBenchmark(name: string, router: Router, paths: string[], lookups: string[], iterations = 1_000_000) {
+	paths.forEach((path, index) => {
+		router.add({ id: String(index), method: "GET", path, segments: path.split("/").filter(Boolean), handlers: [(ctx) => ctx.text(path)] });
+	});
+	const segments = lookups.map((path) => path.split("/").filter(Boolean));
+	let checksum = 0;
+
+	const start = performance.now();
+
+	for (let i = 0; i < iterations; i++) {
+		const match = router.match("GET", segments[i % segments.length]!);
+		checksum += match ? match.routePath.length : 0;
+	}
+
+	const end = performance.now();
+	const duration = end - start;
+	const ops = Math.round(iterations / (duration / 1000));
+
+	console.log(`${name}: ${duration.toFixed(2)}ms for ${iterations} lookups (${ops.toLocaleString()} ops/s) (checksum: ${checksum})`);
+	return { duration, ops };
+}
+
 describe("Comprehensive Framework Benchmarks", () => {
 	describe("Simple Route Benchmark", () => {
 		it("benchmarks simple GET route", async () => {
@@ -146,6 +168,30 @@ describe("Comprehensive Framework Benchmarks", () => {
 		});
 	});
 
+	describe("Middleware Chain Benchmark", () => {
+		it("benchmarks long middleware chains", async () => {
+			const requests = [mockRequest("/items/1"), mockRequest("/items/2"), mockRequest("/items/3")];
+
+			// Setup Web Framework with 30 pass-through middleware
+			const webApp = new Web();
+			setupMiddlewareChainRoutes(webApp);
+			const webResult = await runBenchmark("Web Framework (Middleware Chain)", (req) => webApp.handle(req), requests);
+
+			// Setup Hono Framework with 30 pass-through middleware
+			const honoApp = new Hono();
+			setupMiddlewareChainRoutes(honoApp);
+			const honoResult = await runBenchmark("Hono Framework (Middleware Chain)", async (req) => honoApp.fetch(req), requests);
+
+			// Elysia has lifecycle hooks instead of middleware calling next(), so it is not compared here
+
+			/*
+			console.log(`\nMiddleware Chain Performance Comparison:`);
+			console.log(`Web: ${webResult.rps.toLocaleString()} req/s`);
+			console.log(`Hono: ${honoResult.rps.toLocaleString()} req/s`);
+			*/
+		});
+	});
+
 	describe("Parameter Extraction Benchmark", () => {
 		it("benchmarks parameter extraction performance", async () => {
 			const requests = [
@@ -180,6 +226,62 @@ describe("Comprehensive Framework Benchmarks", () => {
 		});
 	});
 
+	describe("Router Comparison Benchmark", () => {
+		// Route lookups are cached by the application, so the routers are benchmarked directly
+		const routers = [
+			["Trie", () => new TrieRouter()],
+			["Static", () => new StaticRouter()],
+			["RegExp", () => new RegExpRouter()],
+			["Smart", () => new SmartRouter()],
+		] as const;
+
+		it("benchmarks routers with mixed static and dynamic routes", () => {
+			const paths = [
+				"/",
+				"/users",
+				"/users/:id",
+				"/users/:id/posts",
+				"/users/:id/posts/:postId",
+				"/api/v1/health",
+				"/api/v1/users/search",
+				"/static/js/app.js",
+				"/admin/dashboard",
+				"/products/:category/:subcategory",
+			];
+			const lookups = [
+				"/",
+				"/users",
+				"/users/123",
+				"/users/456/posts",
+				"/users/789/posts/abc",
+				"/api/v1/health",
+				"/api/v1/users/search",
+				"/static/js/app.js",
+				"/admin/dashboard",
+				"/products/electronics/laptops",
+			];
+
+			for (const [name, create] of routers) {
+				runRouterBenchmark(`${name} Router (Complex)`, create(), paths, lookups);
+			}
+		});
+
+		it("benchmarks routers with parameter routes", () => {
+			const paths = ["/users/:userId", "/users/:userId/posts/:postId", "/products/:categoryId/item/:itemId", "/api/v1/users/:userId/profile", "/files/*"];
+			const lookups = [
+				"/users/user123",
+				"/users/user456/posts/post789",
+				"/products/category123/item/item456",
+				"/api/v1/users/user789/profile",
+				"/files/folder1/folder2/file.txt",
+			];
+
+			for (const [name, create] of routers) {
+				runRouterBenchmark(`${name} Router (Params)`, create(), paths, lookups);
+			}
+		});
+	});
+
 	describe("JSON Body Parsing Benchmark", () => {
 		it("benchmarks JSON body parsing performance", async () => {
 			const requests = [
@@ -379,6 +481,20 @@ function setupMiddlewareRoutes(
 	}
 }
 
+function setupMiddlewareChainRoutes(app: Web | Hono) {
+	if (app instanceof Web) {
+		for (let i = 0; i < 30; i++) {
+			app.use((_ctx, next) => next());
+		}
+		app.get("/items/:id", (ctx) => ctx.json({ id: ctx.params.id }));
+	} else {
+		for (let i = 0; i < 30; i++) {
+			app.use((_c, next) => next());
+		}
+		app.get("/items/:id", (c) => c.json({ id: c.req.param("id") }));
+	}
+}
+
 function setupParamRoutes(app: Web | Hono | Elysia) {
 	if (app instanceof Web) {
 		app.get("/users/:userId", (ctx) => ctx.json({ userId: ctx.params.userId }));
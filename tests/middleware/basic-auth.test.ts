@@ -150,6 +150,14 @@ describe("Basic Auth Middleware", () => {
 		expect(res2.status).toBe(200);
 	});
 
+	it("should document protected routes in the OpenAPI document", () => {
+		app.get("/secret", basicAuth({ validate: () => true }), (ctx) => ctx.text("secret"));
+
+		const doc = app.openapi({ info: { title: "Test", version: "1.0.0" } });
+		expect(doc.paths["/secret"]!.get!.security).toEqual([{ basicAuth: [] }]);
+		expect(doc.components!.securitySchemes.basicAuth).toEqual({ type: "http", scheme: "basic" });
+	});
+
 	it("should skip authentication based on skip function", async () => {
 		const app = new Web();
 
@@ -182,4 +190,16 @@ describe("Basic Auth Middleware", () => {
 			server.stop();
 		}
 	});
+
+	it("should respond with problem details when the application enables them", async () => {
+		app.problemDetails();
+		app.use(basicAuth({ validate: () => false, realm: "Admin" }));
+		app.get("/", (ctx) => ctx.text("OK"));
+
+		const res = await app.handle(new Request("http://localhost/"));
+		expect(res.status).toBe(401);
+		expect(res.headers.get("WWW-Authenticate")).toBe('Basic realm="Admin"');
+		expect(res.headers.get("Content-Type")).toBe("application/problem+json");
+		expect(await res.json()).toEqual({ type: "about:blank", title: "Unauthorized", status: 401, instance: "/" });
+	});
 });
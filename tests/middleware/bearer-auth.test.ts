@@ -520,6 +520,20 @@ describe("Bearer Authentication Middleware", () => {
 		});
 	});
 
+	describe("OpenAPI Integration", () => {
+		it("should document routes protected by bearer authentication", () => {
+			const app = new Web();
+			app.use("/admin/*", bearerAuth({ validate: () => true }));
+			app.get("/admin/dashboard", (c) => c.text("dashboard"));
+			app.get("/public", (c) => c.text("public"));
+
+			const doc = app.openapi({ info: { title: "Test", version: "1.0.0" } });
+			expect(doc.paths["/admin/dashboard"]!.get!.security).toEqual([{ bearerAuth: [] }]);
+			expect(doc.paths["/public"]!.get!.security).toBeUndefined();
+			expect(doc.components!.securitySchemes.bearerAuth).toEqual({ type: "http", scheme: "bearer" });
+		});
+	});
+
 	describe("Multiple Authentication Strategies", () => {
 		it("should work with different tokens for different routes", async () => {
 			const app = new Web<{ user: { type: string; id: string } }>();
@@ -700,4 +714,27 @@ describe("Bearer Authentication Middleware", () => {
 			expect(res.status).toBe(401);
 		});
 	});
+
+	describe("Problem Details", () => {
+		it("should respond with problem details when the application enables them", async () => {
+			const app = new Web();
+			app.problemDetails();
+			app.use(bearerAuth({ validate: (token) => token === "valid" }));
+			app.get("/", (ctx) => ctx.text("OK"));
+
+			const missing = await app.handle(new Request("http://localhost/"));
+			expect(missing.status).toBe(401);
+			expect(missing.headers.get("Content-Type")).toBe("application/problem+json");
+			expect(await missing.json()).toEqual({
+				type: "about:blank",
+				title: "Unauthorized",
+				status: 401,
+				detail: "Authorization token required",
+				instance: "/",
+			});
+
+			const invalid = await app.handle(new Request("http://localhost/", { headers: { Authorization: "Bearer nope" } }));
+			expect((await invalid.json()).detail).toBe("Invalid or expired token");
+		});
+	});
 });
@@ -843,4 +843,23 @@ describe("Body Limit Middleware", () => {
 			}
 		});
 	});
+
+	describe("Problem Details", () => {
+		test("should respond with problem details when the application enables them", async () => {
+			app.problemDetails();
+			app.post("/upload", bodyLimit({ maxSize: 10 }), (ctx) => ctx.text("OK"));
+
+			const res = await app.handle(new Request("http://localhost/upload", { method: "POST", body: "x".repeat(20), headers: { "Content-Length": "20" } }));
+			expect(res.status).toBe(413);
+			expect(res.headers.get("Content-Type")).toBe("application/problem+json");
+			expect(await res.json()).toEqual({
+				type: "about:blank",
+				title: "Content Too Large",
+				status: 413,
+				detail: "Request body too large. Received 20B but limit is 10B.",
+				instance: "/upload",
+				limit: 10,
+			});
+		});
+	});
 });
@@ -654,4 +654,18 @@ describe("IP Restriction Middleware", () => {
 			expect(config.message).toBe("Test message");
 		});
 	});
+
+	describe("Problem Details", () => {
+		it("should respond with problem details when the application enables them", async () => {
+			app.problemDetails();
+			app.use(setClientIp("10.0.0.2"));
+			app.use(ipRestriction({ mode: "whitelist", ips: ["10.0.0.1"], message: "Access denied" }));
+			app.get("/", (ctx) => ctx.text("OK"));
+
+			const res = await app.handle(new Request("http://localhost/"));
+			expect(res.status).toBe(403);
+			expect(res.headers.get("Content-Type")).toBe("application/problem+json");
+			expect(await res.json()).toEqual({ type: "about:blank", title: "Forbidden", status: 403, detail: "Access denied", instance: "/" });
+		});
+	});
 });
@@ -31,9 +31,10 @@ function createMockContext<T extends Record<string, unknown>>(
 		body?: any;
 		params?: Record<string, string>;
 		query?: Record<string, string>;
+		routePath?: string;
 	} = {}
 ): Context<T> {
-	const { method = "GET", url = "http://localhost:3000/test", headers = {}, body, params = {}, query = {} } = options;
+	const { method = "GET", url = "http://localhost:3000/test", headers = {}, body, params = {}, query = {}, routePath } = options;
 
 	const mockHeaders = new Map(Object.entries(headers));
 	const contextData = new Map<keyof T, any>();
@@ -56,6 +57,7 @@ function createMockContext<T extends Record<string, unknown>>(
 		res: null as any,
 		params,
 		query,
+		routePath,
 		state: {} as T,
 		set: <K extends keyof T>(key: K, value: T[K]) => {
 			contextData.set(key, value);
@@ -171,6 +173,28 @@ describe("Logger Middleware", () => {
 			const requestLog = mockLogger.getLastLog();
 			expect(requestLog.metadata.requestId).toBe(existingId);
 		});
+
+		it("should include the matched route pattern in metadata", async () => {
+			const middleware = logger({ logger: mockLogger as any, metadata: { service: "api" } });
+			const ctx = createMockContext({ url: "http://localhost:3000/users/42", routePath: "/users/:id" });
+			const next = mock(() => Promise.resolve(new Response("OK")));
+
+			await middleware(ctx, next);
+
+			expect(mockLogger.logs[0].metadata.route).toBe("/users/:id");
+			expect(mockLogger.logs[1].metadata.route).toBe("/users/:id");
+			expect(mockLogger.logs[1].metadata.service).toBe("api");
+		});
+
+		it("should omit the route when no pattern is available", async () => {
+			const middleware = logger({ logger: mockLogger as any });
+			const ctx = createMockContext();
+			const next = mock(() => Promise.resolve(new Response("OK")));
+
+			await middleware(ctx, next);
+
+			expect(mockLogger.getLastLog().metadata.route).toBeUndefined();
+		});
 	});
 
 	describe("Request Logging", () => {
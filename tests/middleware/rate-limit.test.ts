@@ -224,6 +224,17 @@ describe("Rate Limit Middleware", () => {
 		expect((await app.handle(req1)).status).toBe(429); // Third request blocked
 	});
 
+	it("should share the default endpoint limit across paths of one route", async () => {
+		app.use(rateLimit({ max: 2 }));
+		app.get("/users/:id", (ctx) => ctx.text(`User ${ctx.params.id}`));
+		app.get("/posts/:id", (ctx) => ctx.text(`Post ${ctx.params.id}`));
+
+		expect((await app.handle(new Request("http://localhost/users/1"))).status).toBe(200);
+		expect((await app.handle(new Request("http://localhost/users/2"))).status).toBe(200);
+		expect((await app.handle(new Request("http://localhost/users/3"))).status).toBe(429);
+		expect((await app.handle(new Request("http://localhost/posts/1"))).status).toBe(200);
+	});
+
 	it("should work with sliding window algorithm", async () => {
 		app.use(
 			rateLimit({
@@ -383,4 +394,21 @@ describe("Rate Limit Middleware", () => {
 		limiter.clear();
 		expect(limiter.getSize()).toBe(0);
 	});
+
+	it("should respond with problem details when the application enables them", async () => {
+		app.problemDetails();
+		app.use(rateLimit({ max: 1, windowMs: 1000 }));
+		app.get("/", (ctx) => ctx.text("OK"));
+
+		await app.handle(new Request("http://localhost/"));
+		const res = await app.handle(new Request("http://localhost/"));
+		expect(res.status).toBe(429);
+		expect(res.headers.get("Content-Type")).toBe("application/problem+json");
+		expect(res.headers.get("Retry-After")).not.toBeNull();
+
+		const body = await res.json();
+		expect(body).toMatchObject({ type: "about:blank", title: "Too Many Requests", status: 429, detail: "Too many requests", instance: "/", limit: 1 });
+		expect(typeof body.retryAfter).toBe("number");
+		expect(body.error).toBeUndefined();
+	});
 });
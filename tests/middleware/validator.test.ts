@@ -0,0 +1,213 @@
+import { describe, expect, it } from "bun:test";
+import { validator, type InferOutput, type StandardSchemaV1 } from "../../packages/middleware/src/validator";
+import { Web, type Middleware } from "../../packages/core/src";
+
+function jsonRequest(path: string, body: unknown, method = "POST") {
+	return new Request(`http://localhost${path}`, {
+		method,
+		headers: { "Content-Type": "application/json" },
+		body: typeof body === "string" ? body : JSON.stringify(body),
+	});
+}
+
+// Small Standard Schema implementation standing in for Zod, Valibot, ...
+const positiveId: StandardSchemaV1<unknown, { id: number }> = {
+	"~standard": {
+		version: 1,
+		vendor: "test",
+		validate: (value) => {
+			const id = Number((value as { id?: string }).id);
+			if (!Number.isInteger(id) || id < 1) {
+				return { issues: [{ message: "Must be a positive integer", path: [{ key: "id" }] }] };
+			}
+			return { value: { id } };
+		},
+	},
+};
+
+describe("Validator Middleware", () => {
+	describe("Built-in Schema", () => {
+		const createUser = {
+			name: { type: "string", min: 2 },
+			email: { type: "string", pattern: /^[^@]+@[^@]+$/ },
+			age: { type: "integer", min: 0, max: 150, optional: true },
+		} as const;
+
+		it("should store the validated JSON body in the context", async () => {
+			const app = new Web<{ json: InferOutput<typeof createUser> }>();
+			app.post("/users", validator("json", createUser), (ctx) => ctx.json(ctx.get("json"), 201));
+
+			const res = await app.handle(jsonRequest("/users", { name: "Ann", email: "ann@example.com", extra: true }));
+			expect(res.status).toBe(201);
+			expect(await res.json()).toEqual({ name: "Ann", email: "ann@example.com" });
+		});
+
+		it("should return 422 with all issues for an invalid body", async () => {
+			const app = new Web();
+			app.post("/users", validator("json", createUser), (ctx) => ctx.text("created"));
+
+			const res = await app.handle(jsonRequest("/users", { name: "A", age: 200 }));
+			expect(res.status).toBe(422);
+			expect(await res.json()).toEqual({
+				error: "Validation failed",
+				target: "json",
+				issues: [
+					{ path: "name", message: "Must be at least 2 characters" },
+					{ path: "email", message: "Required" },
+					{ path: "age", message: "Must be at most 150" },
+				],
+			});
+		});
+
+		it("should not coerce JSON values", async () => {
+			const app = new Web();
+			app.post("/users", validator("json", createUser), (ctx) => ctx.text("created"));
+
+			const res = await app.handle(jsonRequest("/users", { name: "Ann", email: "ann@example.com", age: "30" }));
+			expect(res.status).toBe(422);
+			expect((await res.json()).issues).toEqual([{ path: "age", message: "Expected a number" }]);
+		});
+
+		it("should return 400 for malformed or missing JSON bodies", async () => {
+			const app = new Web();
+			app.post("/users", validator("json", createUser), (ctx) => ctx.text("created"));
+
+			const malformed = await app.handle(jsonRequest("/users", "{ not json"));
+			expect(malformed.status).toBe(400);
+			expect(await malformed.json()).toEqual({
+				error: "Invalid request body",
+				target: "json",
+				issues: [{ path: "", message: "Request body is not valid JSON" }],
+			});
+
+			const missing = await app.handle(new Request("http://localhost/users", { method: "POST" }));
+			expect(missing.status).toBe(400);
+		});
+
+		it("should coerce query parameters and return 400 when invalid", async () => {
+			const app = new Web<{ query: { page: number; draft?: boolean } }>();
+			app.get("/posts", validator("query", { page: { type: "integer", min: 1 }, draft: { type: "boolean", optional: true } }), (ctx) =>
+				ctx.json(ctx.get("query"))
+			);
+
+			const ok = await app.handle(new Request("http://localhost/posts?page=2&draft=true"));
+			expect(await ok.json()).toEqual({ page: 2, draft: true });
+
+			const bad = await app.handle(new Request("http://localhost/posts?page=abc"));
+			expect(bad.status).toBe(400);
+			expect((await bad.json()).issues).toEqual([{ path: "page", message: "Expected a number" }]);
+		});
+
+		it("should validate route parameters and headers", async () => {
+			const app = new Web();
+			app.get(
+				"/users/:id",
+				validator("params", { id: { type: "integer" } }),
+				validator("headers", { "x-tenant": { type: "string", enum: ["a", "b"] } }),
+				(ctx) => ctx.json({ params: ctx.get("params"), headers: ctx.get("headers") })
+			);
+
+			const ok = await app.handle(new Request("http://localhost/users/7", { headers: { "X-Tenant": "a" } }));
+			expect(await ok.json()).toEqual({ params: { id: 7 }, headers: { "x-tenant": "a" } });
+
+			const bad = await app.handle(new Request("http://localhost/users/7", { headers: { "X-Tenant": "c" } }));
+			expect(bad.status).toBe(400);
+			expect((await bad.json()).issues).toEqual([{ path: "x-tenant", message: "Must be one of: a, b" }]);
+		});
+
+		it("should validate form bodies and keep the body readable", async () => {
+			const app = new Web();
+			app.post("/login", validator("form", { username: { type: "string" }, remember: { type: "boolean", optional: true } }), async (ctx) =>
+				ctx.json({ validated: ctx.get("form"), body: await ctx.body() })
+			);
+
+			const res = await app.handle(
+				new Request("http://localhost/login", {
+					method: "POST",
+					headers: { "Content-Type": "application/x-www-form-urlencoded" },
+					body: "username=ann&remember=1",
+				})
+			);
+			expect(await res.json()).toEqual({ validated: { username: "ann", remember: true }, body: { username: "ann", remember: "1" } });
+		});
+	});
+
+	describe("Standard Schema", () => {
+		it("should use the parsed value from the schema", async () => {
+			const app = new Web<{ params: { id: number } }>();
+			app.get("/items/:id", validator("params", positiveId), (ctx) => ctx.json({ id: ctx.get("params").id + 1 }));
+
+			const res = await app.handle(new Request("http://localhost/items/41"));
+			expect(await res.json()).toEqual({ id: 42 });
+		});
+
+		it("should normalize issue paths", async () => {
+			const app = new Web();
+			app.get("/items/:id", validator("params", positiveId), (ctx) => ctx.text("ok"));
+
+			const res = await app.handle(new Request("http://localhost/items/0"));
+			expect(res.status).toBe(400);
+			expect(await res.json()).toEqual({
+				error: "Validation failed",
+				target: "params",
+				issues: [{ path: "id", message: "Must be a positive integer" }],
+			});
+		});
+	});
+
+	describe("Configuration Options", () => {
+		it("should support a custom context key and status", async () => {
+			const app = new Web<{ item: { id: number } }>();
+			app.get("/items/:id", validator("params", positiveId, { contextKey: "item", status: 404 }), (ctx) => ctx.json(ctx.get("item")));
+
+			expect(await (await app.handle(new Request("http://localhost/items/3"))).json()).toEqual({ id: 3 });
+			expect((await app.handle(new Request("http://localhost/items/x"))).status).toBe(404);
+		});
+
+		it("should type the context entry with the schema output", async () => {
+			const middleware = validator("params", positiveId, { contextKey: "item" });
+			const typed: Middleware<{ item: { id: number } }> = middleware;
+			const app = new Web<{ item: { id: string }; params: { id: number } }>();
+			// @ts-expect-error - the schema produces a numeric id
+			app.get("/items/:id", validator("params", positiveId, { contextKey: "item" }), (ctx) => ctx.text("ok"));
+			app.get("/posts/:id", validator("params", positiveId), (ctx) => ctx.json({ id: ctx.get("params").id }));
+
+			expect(typeof typed).toBe("function");
+			expect(await (await app.handle(new Request("http://localhost/posts/7"))).json()).toEqual({ id: 7 });
+		});
+
+		it("should support a custom error response", async () => {
+			const app = new Web();
+			app.post(
+				"/users",
+				validator("json", { name: { type: "string" } }, { onError: (error, status, ctx) => ctx.json({ errors: error.issues.map((i) => i.message) }, status) }),
+				(ctx) => ctx.text("created")
+			);
+
+			const res = await app.handle(jsonRequest("/users", {}));
+			expect(res.status).toBe(422);
+			expect(await res.json()).toEqual({ errors: ["Required"] });
+		});
+	});
+
+	describe("Problem Details", () => {
+		it("should respond with problem details when the application enables them", async () => {
+			const app = new Web();
+			app.problemDetails();
+			app.post("/users", validator("json", { name: { type: "string" } }), (ctx) => ctx.text("created"));
+
+			const res = await app.handle(jsonRequest("/users", {}));
+			expect(res.status).toBe(422);
+			expect(res.headers.get("Content-Type")).toBe("application/problem+json");
+			expect(await res.json()).toEqual({
+				type: "about:blank",
+				title: "Unprocessable Content",
+				status: 422,
+				detail: "Validation failed",
+				instance: "/users",
+				target: "json",
+				issues: [{ path: "name", message: "Required" }],
+			});
+		});
+	});
+});
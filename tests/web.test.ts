@@ -1,5 +1,5 @@
-import { describe, expect, it } from "bun:test";
-import { Web } from "../packages/core/src";
+import { describe, expect, it, spyOn } from "bun:test";
+import { createClient, HTTPException, RegExpRouter, SmartRouter, Web, type FinishEvent } from "../packages/core/src";
 import type { ServerWebSocket } from "bun";
 
 function mockRequest(path: string, method = "GET", headers: Record<string, string> = {}) {
@@ -80,42 +80,1336 @@ describe("Web Framework", () => {
 			expect(res.status).toBe(200);
 			expect(res.headers.get("Allow")).toBe("GET, POST");
 		});
+
+		it("should route custom extension methods", async () => {
+			const app = new Web();
+			app.addRoute("PROPFIND", "/dav/:file", (c) => c.text(`props of ${c.params.file}`, 207));
+
+			const res = await app.handle(mockRequest("/dav/notes.txt", "PROPFIND"));
+			expect(res.status).toBe(207);
+			expect(await res.text()).toBe("props of notes.txt");
+
+			expect((await app.handle(mockRequest("/dav/notes.txt", "MKCOL"))).status).toBe(405);
+		});
+
+		it("should register routes for several methods with on()", async () => {
+			const app = new Web();
+			app.on(["GET", "QUERY"], "/search", (c) => c.text(`search via ${c.req.method}`));
+			app.on("PURGE", "/cache/*", (c) => c.text(`purged ${c.params["*"]}`));
+
+			expect(await (await app.handle(mockRequest("/search"))).text()).toBe("search via GET");
+			expect(await (await app.handle(mockRequest("/search", "QUERY"))).text()).toBe("search via QUERY");
+			expect(await (await app.handle(mockRequest("/cache/a/b", "PURGE"))).text()).toBe("purged a/b");
+			expect((await app.handle(mockRequest("/search", "POST"))).status).toBe(405);
+		});
+
+		it("should match every method with all()", async () => {
+			const app = new Web();
+			app.all("/anything", (c) => c.text(c.req.method));
+
+			for (const method of ["GET", "POST", "DELETE", "MKCOL"]) {
+				const res = await app.handle(mockRequest("/anything", method));
+				expect(await res.text()).toBe(method);
+			}
+		});
+
+		it("should prefer method-specific routes over all()", async () => {
+			const app = new Web();
+			app.all("/resource", (c) => c.text("fallback"));
+			app.post("/resource", (c) => c.text("post"));
+
+			expect(await (await app.handle(mockRequest("/resource", "POST"))).text()).toBe("post");
+			expect(await (await app.handle(mockRequest("/resource", "PUT"))).text()).toBe("fallback");
+		});
+
+		it("should support method-scoped middleware and removal for custom methods", async () => {
+			const app = new Web();
+			const calls: string[] = [];
+
+			app.use("PURGE", "/cache/*", async (c, next) => {
+				calls.push("purge-mw");
+				await next();
+			});
+			app.on("PURGE", "/cache/*", (c) => c.text("purged"));
+			app.get("/cache/*", (c) => c.text("cached"));
+
+			await app.handle(mockRequest("/cache/x"));
+			await app.handle(mockRequest("/cache/x", "PURGE"));
+			expect(calls).toEqual(["purge-mw"]);
+
+			expect(app.getRoutes().some((route) => route.method === "PURGE")).toBe(true);
+			expect(app.removeRoutesBy({ method: "PURGE" })).toBe(1);
+			expect((await app.handle(mockRequest("/cache/x", "PURGE"))).status).toBe(405);
+		});
+	});
+
+	describe("Method Handling", () => {
+		it("should serve HEAD requests from GET routes without a body", async () => {
+			const app = new Web();
+			app.get("/users/:id", (c) => c.json({ id: c.params.id }, 200, { "X-User": c.params.id }));
+
+			const res = await app.handle(mockRequest("/users/7", "HEAD"));
+			expect(res.status).toBe(200);
+			expect(res.headers.get("X-User")).toBe("7");
+			expect(res.headers.get("Content-Type")).toBe("application/json");
+			expect(await res.text()).toBe("");
+		});
+
+		it("should prefer explicit HEAD routes over GET routes", async () => {
+			const app = new Web();
+			app.get("/health", (c) => c.text("OK"));
+			app.head("/health", (c) => c.text("", 204));
+
+			const res = await app.handle(mockRequest("/health", "HEAD"));
+			expect(res.status).toBe(204);
+		});
+
+		it("should return 405 with an Allow header for unregistered methods", async () => {
+			const app = new Web();
+			app.get("/users", (c) => c.text("list"));
+			app.post("/users", (c) => c.text("create"));
+
+			const res = await app.handle(mockRequest("/users", "DELETE"));
+			expect(res.status).toBe(405);
+			expect(res.headers.get("Allow")).toBe("GET, HEAD, OPTIONS, POST");
+		});
+
+		it("should still return 404 for unknown paths", async () => {
+			const app = new Web();
+			app.get("/users", (c) => c.text("list"));
+
+			const res = await app.handle(mockRequest("/posts", "DELETE"));
+			expect(res.status).toBe(404);
+		});
+
+		it("should list registered methods in automatic OPTIONS responses", async () => {
+			const app = new Web();
+			app.get("/users/:id", (c) => c.text("get"));
+			app.put("/users/:id", (c) => c.text("put"));
+
+			const res = await app.handle(mockRequest("/users/1", "OPTIONS"));
+			expect(res.status).toBe(204);
+			expect(res.headers.get("Allow")).toBe("GET, HEAD, OPTIONS, PUT");
+		});
+
+		it("should keep automatic OPTIONS routes after route removal", async () => {
+			const app = new Web();
+			const getId = app.addRoute("GET", "/items", (c) => c.text("get"));
+			app.post("/items", (c) => c.text("post"));
+
+			app.removeRoute(getId);
+
+			const res = await app.handle(mockRequest("/items", "OPTIONS"));
+			expect(res.status).toBe(204);
+			expect(res.headers.get("Allow")).toBe("OPTIONS, POST");
+		});
+
+		it("should support a custom method not allowed handler", async () => {
+			const app = new Web();
+			app.get("/users", (c) => c.text("list"));
+			app.onMethodNotAllowed((c, allowed) => c.json({ error: "Method Not Allowed", allowed }, 405));
+
+			const res = await app.handle(mockRequest("/users", "PATCH"));
+			expect(res.status).toBe(405);
+			expect(res.headers.get("Allow")).toBe("GET, HEAD, OPTIONS");
+			expect(await res.json()).toEqual({ error: "Method Not Allowed", allowed: ["GET", "HEAD", "OPTIONS"] });
+		});
+
+		it("should answer 404 for malformed escape sequences on a method mismatch", async () => {
+			for (const router of ["trie", "static", "regexp", "smart"] as const) {
+				const app = new Web({ router });
+				app.use("/posts/:slug", async (c, next) => next());
+				app.get("/users/:id", (c) => c.text(`user ${c.params.id}`));
+				app.get("/posts/:slug(\\w+)", (c) => c.text(`post ${c.params.slug}`));
+
+				expect((await app.handle(mockRequest("/users/%E0%A4%A", "POST"))).status).toBe(404);
+				expect((await app.handle(mockRequest("/users/%E0%A4%A"))).status).toBe(404);
+				expect((await app.handle(mockRequest("/posts/%E0%A4%A", "POST"))).status).toBe(404);
+				expect(await (await app.handle(mockRequest("/users/%C3%A9"))).text()).toBe("user é");
+			}
+		});
+	});
+
+	describe("Route Parameters", () => {
+		it("should parse route parameters", async () => {
+			const app = new Web();
+			app.get("/users/:id", (c) => c.text(`User ${c.params.id}`));
+
+			const res = await app.handle(mockRequest("/users/42"));
+			expect(res.status).toBe(200);
+			expect(await res.text()).toBe("User 42");
+		});
+
+		it("should handle multiple parameters", async () => {
+			const app = new Web();
+			app.get("/posts/:category/:id", (c) =>
+				c.json({
+					category: c.params.category,
+					id: c.params.id,
+				})
+			);
+
+			const res = await app.handle(mockRequest("/posts/tech/123"));
+			expect(res.status).toBe(200);
+			expect(await res.json()).toEqual({
+				category: "tech",
+				id: "123",
+			});
+		});
+
+		it("should handle wildcard routes", async () => {
+			const app = new Web();
+			app.get("/assets/*", (c) => c.text(`Path: ${c.params["*"]}`));
+
+			const res = await app.handle(mockRequest("/assets/images/logo.png"));
+			expect(res.status).toBe(200);
+			expect(await res.text()).toBe("Path: images/logo.png");
+		});
+
+		it("should enforce parameter constraints", async () => {
+			const app = new Web();
+			app.get("/users/:id(\\d+)", (c) => c.text(`User ${c.params.id}`));
+
+			const res = await app.handle(mockRequest("/users/42"));
+			expect(res.status).toBe(200);
+			expect(await res.text()).toBe("User 42");
+
+			expect((await app.handle(mockRequest("/users/abc"))).status).toBe(404);
+		});
+
+		it("should fall back from a constrained parameter to an unconstrained one", async () => {
+			const app = new Web();
+			app.get("/items/:id([0-9]+)", (c) => c.json({ id: c.params.id }));
+			app.get("/items/:slug", (c) => c.json({ slug: c.params.slug }));
+
+			expect(await (await app.handle(mockRequest("/items/7"))).json()).toEqual({ id: "7" });
+			expect(await (await app.handle(mockRequest("/items/seven"))).json()).toEqual({ slug: "seven" });
+		});
+
+		it("should support optional trailing parameters", async () => {
+			const app = new Web();
+			app.get("/docs/:lang?", (c) => c.text(c.params.lang ?? "default"));
+
+			expect(await (await app.handle(mockRequest("/docs"))).text()).toBe("default");
+			expect(await (await app.handle(mockRequest("/docs/de"))).text()).toBe("de");
+			expect((await app.handle(mockRequest("/docs/de/extra"))).status).toBe(404);
+		});
+
+		it("should support optional parameters with constraints", async () => {
+			const app = new Web();
+			app.get("/archive/:year(\\d{4})?", (c) => c.text(c.params.year ?? "all"));
+
+			expect(await (await app.handle(mockRequest("/archive"))).text()).toBe("all");
+			expect(await (await app.handle(mockRequest("/archive/2024"))).text()).toBe("2024");
+			expect((await app.handle(mockRequest("/archive/24"))).status).toBe(404);
+		});
+
+		it("should reject optional parameters that are not at the end of the path", () => {
+			const app = new Web();
+			expect(() => app.get("/:lang?/docs", (c) => c.text("docs"))).toThrow();
+		});
+
+		it("should support named wildcards", async () => {
+			const app = new Web();
+			app.get("/files/*path", (c) => c.json(c.params));
+
+			const res = await app.handle(mockRequest("/files/images/logo.png"));
+			expect(res.status).toBe(200);
+			expect(await res.json()).toEqual({ path: "images/logo.png" });
+		});
+
+		it("should apply constraints and named wildcards in middleware paths", async () => {
+			const app = new Web();
+			const seen: Record<string, string>[] = [];
+
+			app.use("/users/:id(\\d+)", async (c, next) => {
+				seen.push({ ...c.params });
+				await next();
+			});
+			app.use("/static/*file", async (c, next) => {
+				seen.push({ ...c.params });
+				await next();
+			});
+
+			app.get("/users/:id", (c) => c.text("user"));
+			app.get("/static/*", (c) => c.text("static"));
+
+			await app.handle(mockRequest("/users/abc"));
+			await app.handle(mockRequest("/users/12"));
+			await app.handle(mockRequest("/static/css/site.css"));
+
+			expect(seen).toEqual([{ id: "12" }, { file: "css/site.css", "*": "css/site.css" }]);
+		});
+
+		it("should support multiple parameters in one segment", async () => {
+			const app = new Web();
+			app.get("/files/:name.:ext", (c) => c.json(c.params));
+
+			const res = await app.handle(mockRequest("/files/report.pdf"));
+			expect(res.status).toBe(200);
+			expect(await res.json()).toEqual({ name: "report", ext: "pdf" });
+
+			expect((await app.handle(mockRequest("/files/report"))).status).toBe(404);
+		});
+
+		it("should support static prefixes inside a segment", async () => {
+			const app = new Web();
+			app.get("/v:version/status", (c) => c.text(`v${c.params.version}`));
+			app.get("/@:username", (c) => c.text(`@${c.params.username}`));
+
+			expect(await (await app.handle(mockRequest("/v2/status"))).text()).toBe("v2");
+			expect(await (await app.handle(mockRequest("/@rabbit"))).text()).toBe("@rabbit");
+		});
+
+		it("should apply constraints inside composite segments", async () => {
+			const app = new Web();
+			app.get("/range/:from(\\d+)-:to(\\d+)", (c) => c.json(c.params));
+			app.get("/range/:name", (c) => c.json({ fallback: c.params.name }));
+
+			expect(await (await app.handle(mockRequest("/range/1-10"))).json()).toEqual({ from: "1", to: "10" });
+			expect(await (await app.handle(mockRequest("/range/a-b"))).json()).toEqual({ fallback: "a-b" });
+		});
+
+		it("should keep capture groups inside constraints from shifting parameter values", async () => {
+			const app = new Web();
+			app.get("/:lang(en|de)-:region", (c) => c.json(c.params));
+
+			expect(await (await app.handle(mockRequest("/de-AT"))).json()).toEqual({ lang: "de", region: "AT" });
+		});
+
+		it("should prefer static segments over composite segments", async () => {
+			const app = new Web();
+			app.get("/v:version", (c) => c.text("versioned"));
+			app.get("/videos", (c) => c.text("videos"));
+
+			expect(await (await app.handle(mockRequest("/videos"))).text()).toBe("videos");
+			expect(await (await app.handle(mockRequest("/v3"))).text()).toBe("versioned");
+		});
+
+		it("should match composite segments in middleware paths", async () => {
+			const app = new Web();
+			let captured: Record<string, string> = {};
+
+			app.use("/files/:name.:ext", async (c, next) => {
+				captured = { ...c.params };
+				await next();
+			});
+			app.get("/files/*", (c) => c.text("file"));
+
+			await app.handle(mockRequest("/files/archive.zip"));
+			expect(captured.name).toBe("archive");
+			expect(captured.ext).toBe("zip");
+		});
+	});
+
+	describe("Typed Route Parameters", () => {
+		it("should infer parameters from the route path", async () => {
+			const app = new Web();
+			app.get("/users/:id/posts/:postId", (c) => {
+				const params: { id: string; postId: string } = c.params;
+				// @ts-expect-error - "userId" is not a parameter of this route
+				c.params.userId;
+				return c.json(params);
+			});
+			app.get("/files/:name.:ext", (c) => c.text(`${c.params.name}|${c.params.ext}`));
+			app.get("/posts/:id(\\d+)-:slug", (c) => c.text(`${c.params.id}|${c.params.slug}`));
+			app.get("/static/*path", (c) => c.text(c.params.path));
+			app.get("/assets/*", (c) => c.text(c.params["*"]));
+			app.get("/docs/:lang?", (c) => c.text(c.params.lang ?? "en"));
+
+			expect(await (await app.handle(mockRequest("/users/1/posts/2"))).json()).toEqual({ id: "1", postId: "2" });
+			expect(await (await app.handle(mockRequest("/files/report.pdf"))).text()).toBe("report|pdf");
+			expect(await (await app.handle(mockRequest("/posts/42-hello"))).text()).toBe("42|hello");
+			expect(await (await app.handle(mockRequest("/static/css/app.css"))).text()).toBe("css/app.css");
+			expect(await (await app.handle(mockRequest("/assets/logo.png"))).text()).toBe("logo.png");
+			expect(await (await app.handle(mockRequest("/docs"))).text()).toBe("en");
+		});
+
+		it("should add prefix parameters to scoped and mounted routes", async () => {
+			const app = new Web();
+			app.scope("/orgs/:orgId", (org) => {
+				org.get("/members/:id", (c) => c.text(`${c.params.orgId}/${c.params.id}`));
+			});
+
+			const teams = new Web<Record<string, unknown>, Record<string, unknown>, { orgId: string }>();
+			teams.get("/", (c) => c.text(`teams of ${c.params.orgId}`));
+			app.route("/orgs/:orgId/teams", teams);
+
+			expect(await (await app.handle(mockRequest("/orgs/acme/members/7"))).text()).toBe("acme/7");
+			expect(await (await app.handle(mockRequest("/orgs/acme/teams"))).text()).toBe("teams of acme");
+		});
+
+		it("should type inherited parameters loosely on routes without parameters of an untyped sub-app", async () => {
+			const app = new Web();
+			const tenant = new Web();
+			tenant.get("/", (c) => c.text(`tenant ${c.params.tenant}`));
+			tenant.get("/users/:id", (c) => {
+				// @ts-expect-error - routes with parameters need the mount parameters declared on the sub-app
+				c.params.tenant;
+				return c.json(c.params);
+			});
+			app.host(":tenant.example.com", tenant);
+
+			expect(await (await app.handle(mockRequest("/", "GET", { Host: "acme.example.com" }))).text()).toBe("tenant acme");
+			expect(await (await app.handle(mockRequest("/users/7", "GET", { Host: "acme.example.com" }))).json()).toEqual({ tenant: "acme", id: "7" });
+		});
+
+		it("should infer parameters from the host route option", async () => {
+			const app = new Web();
+			app.get("/", { host: ":tenant.example.com" }, (c) => c.text(c.params.tenant));
+
+			expect(await (await app.handle(mockRequest("/", "GET", { Host: "acme.example.com" }))).text()).toBe("acme");
+		});
+	});
+
+	describe("Route Matching Priority", () => {
+		it("should prefer static segments over parameters", async () => {
+			const app = new Web();
+			app.get("/users/new", (c) => c.text("new"));
+			app.get("/users/:id", (c) => c.text(`user ${c.params.id}`));
+
+			expect(await (await app.handle(mockRequest("/users/new"))).text()).toBe("new");
+			expect(await (await app.handle(mockRequest("/users/42"))).text()).toBe("user 42");
+		});
+
+		it("should backtrack from a static branch to a parameter branch", async () => {
+			const app = new Web();
+			app.get("/users/new", (c) => c.text("new"));
+			app.get("/users/:id/posts", (c) => c.text(`posts of ${c.params.id}`));
+
+			const res = await app.handle(mockRequest("/users/new/posts"));
+			expect(res.status).toBe(200);
+			expect(await res.text()).toBe("posts of new");
+		});
+
+		it("should backtrack from a parameter branch to a wildcard", async () => {
+			const app = new Web();
+			app.get("/files/:name/meta", (c) => c.text(`meta ${c.params.name}`));
+			app.get("/files/*", (c) => c.json(c.params));
+
+			expect(await (await app.handle(mockRequest("/files/a/meta"))).text()).toBe("meta a");
+
+			const res = await app.handle(mockRequest("/files/a/b/c"));
+			expect(res.status).toBe(200);
+			expect(await res.json()).toEqual({ "*": "a/b/c" });
+		});
+
+		it("should not leak parameters from abandoned branches", async () => {
+			const app = new Web();
+			app.get("/:org/settings/billing", (c) => c.json(c.params));
+			app.get("/teams/:team/members", (c) => c.json(c.params));
+			app.get("/*", (c) => c.json(c.params));
+
+			const res = await app.handle(mockRequest("/teams/settings/other"));
+			expect(await res.json()).toEqual({ "*": "teams/settings/other" });
+		});
+
+		it("should return 404 when no alternative matches", async () => {
+			const app = new Web();
+			app.get("/users/new", (c) => c.text("new"));
+			app.get("/users/:id/posts", (c) => c.text("posts"));
+
+			const res = await app.handle(mockRequest("/users/new/comments"));
+			expect(res.status).toBe(404);
+		});
+	});
+
+	describe("Named Routes", () => {
+		it("should register a named route and still handle requests", async () => {
+			const app = new Web();
+			app.get("/users/:id", { name: "user.show" }, (c) => c.text(`user ${c.params.id}`));
+
+			const res = await app.handle(mockRequest("/users/5"));
+			expect(await res.text()).toBe("user 5");
+			expect(app.getRoutes()[0]?.name).toBe("user.show");
+		});
+
+		it("should build URLs with parameters", () => {
+			const app = new Web();
+			app.get("/users/:id/posts/:postId", { name: "post.show" }, (c) => c.text("ok"));
+
+			expect(app.url("post.show", { id: 5, postId: "abc" })).toBe("/users/5/posts/abc");
+		});
+
+		it("should escape parameter values", () => {
+			const app = new Web();
+			app.get("/search/:term", { name: "search" }, (c) => c.text("ok"));
+
+			expect(app.url("search", { term: "a b/c?d" })).toBe("/search/a%20b%2Fc%3Fd");
+		});
+
+		it("should append query parameters", () => {
+			const app = new Web();
+			app.get("/users", { name: "user.list" }, (c) => c.text("ok"));
+
+			expect(app.url("user.list", {}, { query: { page: 2, q: "a&b", tag: ["x", "y"], skip: undefined } })).toBe("/users?page=2&q=a%26b&tag=x&tag=y");
+			expect(app.url("user.list", {}, { query: {} })).toBe("/users");
+		});
+
+		it("should keep slashes in wildcard values", () => {
+			const app = new Web();
+			app.get("/files/*path", { name: "file" }, (c) => c.text("ok"));
+			app.get("/assets/*", { name: "asset" }, (c) => c.text("ok"));
+
+			expect(app.url("file", { path: "docs/read me.md" })).toBe("/files/docs/read%20me.md");
+			expect(app.url("asset", { "*": "css/app.css" })).toBe("/assets/css/app.css");
+		});
+
+		it("should round-trip wildcard values through the router", async () => {
+			for (const router of ["trie", "static", "regexp", "smart"] as const) {
+				const app = new Web({ router });
+				let seen: string | undefined;
+				app.use("/files/*rest", async (c, next) => {
+					seen = c.params.rest;
+					return next();
+				});
+				app.get("/files/*path", { name: "file" }, (c) => c.text(c.params.path));
+
+				const res = await app.handle(mockRequest(app.url("file", { path: "docs/read me.txt" })));
+				expect(await res.text()).toBe("docs/read me.txt");
+				expect(seen).toBe("docs/read me.txt");
+				expect((await app.handle(mockRequest("/files/docs/%E0%A4%A"))).status).toBe(404);
+			}
+		});
+
+		it("should omit missing optional parameters", () => {
+			const app = new Web();
+			app.get("/users/:id/:tab?", { name: "user" }, (c) => c.text("ok"));
+
+			expect(app.url("user", { id: 1 })).toBe("/users/1");
+			expect(app.url("user", { id: 1, tab: "posts" })).toBe("/users/1/posts");
+		});
+
+		it("should build URLs for composite segments", () => {
+			const app = new Web();
+			app.get("/files/:name.:ext", { name: "file" }, (c) => c.text("ok"));
+
+			expect(app.url("file", { name: "report", ext: "pdf" })).toBe("/files/report.pdf");
+		});
+
+		it("should validate parameter constraints", () => {
+			const app = new Web();
+			app.get("/users/:id(\\d+)", { name: "user" }, (c) => c.text("ok"));
+
+			expect(app.url("user", { id: 42 })).toBe("/users/42");
+			expect(() => app.url("user", { id: "abc" })).toThrow('Parameter "id" for route "user" does not match constraint "\\d+"');
+		});
+
+		it("should throw for missing parameters and unknown names", () => {
+			const app = new Web();
+			app.get("/users/:id", { name: "user" }, (c) => c.text("ok"));
+
+			expect(() => app.url("user")).toThrow('Missing parameter "id" for route "user"');
+			expect(() => app.url("missing")).toThrow('No route named "missing"');
+		});
+
+		it("should reject a name already used by another path", () => {
+			const app = new Web();
+			app.get("/users/:id", { name: "user" }, (c) => c.text("ok"));
+
+			expect(() => app.get("/people/:id", { name: "user" }, (c) => c.text("ok"))).toThrow('Route name "user" is already used by "/users/:id"');
+		});
+
+		it("should allow the same name for several methods on one path", () => {
+			const app = new Web();
+			app.get("/users/:id", { name: "user" }, (c) => c.text("get"));
+			app.put("/users/:id", { name: "user" }, (c) => c.text("put"));
+
+			expect(app.url("user", { id: 3 })).toBe("/users/3");
+		});
+
+		it("should follow route() and scope() prefixes", () => {
+			const app = new Web();
+			const admin = new Web();
+			admin.get("/dashboard", { name: "admin.dashboard" }, (c) => c.text("ok"));
+			app.route("/admin", admin);
+
+			app.scope("/api/v1", (api) => {
+				api.get("/users/:id", { name: "api.user" }, (c) => c.text("ok"));
+			});
+
+			expect(app.url("admin.dashboard")).toBe("/admin/dashboard");
+			expect(app.url("api.user", { id: 7 })).toBe("/api/v1/users/7");
+		});
+
+		it("should forget names of removed routes", () => {
+			const app = new Web();
+			const id = app.addRoute("GET", "/users/:id", { name: "user" }, (c) => c.text("ok"));
+
+			app.removeRoute(id);
+			expect(() => app.url("user", { id: 1 })).toThrow('No route named "user"');
+		});
+	});
+
+	describe("Matched Route", () => {
+		it("should expose the matched route on the context", async () => {
+			const app = new Web();
+			let seen: Record<string, string | undefined> = {};
+			app.use(async (c, next) => {
+				seen.middlewarePath = c.routePath;
+				return next();
+			});
+			app.get("/users/:id", { name: "user.show" }, (c) => {
+				seen = { ...seen, routePath: c.routePath, routeId: c.routeId, routeName: c.routeName };
+				return c.text("ok");
+			});
+
+			await app.handle(mockRequest("/users/42"));
+			expect(seen.middlewarePath).toBe("/users/:id");
+			expect(seen.routePath).toBe("/users/:id");
+			expect(seen.routeName).toBe("user.show");
+			expect(seen.routeId).toBe(app.getRoutes().find((r) => r.name === "user.show")?.id);
+		});
+
+		it("should expose the full pattern for mounted routes", async () => {
+			const app = new Web();
+			const paths: (string | undefined)[] = [];
+			const admin = new Web();
+			admin.get("/users/:id", (c) => {
+				paths.push(c.routePath);
+				return c.text("ok");
+			});
+			app.route("/admin", admin);
+			app.scope("/api/:version", (api) => {
+				api.get("/items/*", (c) => {
+					paths.push(c.routePath);
+					return c.text("ok");
+				});
+			});
+
+			await app.handle(mockRequest("/admin/users/1"));
+			await app.handle(mockRequest("/api/v2/items/a/b"));
+			expect(paths).toEqual(["/admin/users/:id", "/api/:version/items/*"]);
+		});
+
+		it("should expose the GET route pattern for HEAD requests", async () => {
+			const app = new Web();
+			let routePath: string | undefined;
+			app.get("/users/:id", (c) => {
+				routePath = c.routePath;
+				return c.text("ok");
+			});
+
+			await app.handle(mockRequest("/users/1", "HEAD"));
+			expect(routePath).toBe("/users/:id");
+		});
+
+		it("should leave the route undefined when nothing matched", async () => {
+			const app = new Web();
+			let routePath: string | undefined = "unset";
+			app.get("/users", (c) => c.text("ok"));
+			app.onNotFound((c) => {
+				routePath = c.routePath;
+				return c.text("missing", 404);
+			});
+
+			await app.handle(mockRequest("/nope"));
+			expect(routePath).toBeUndefined();
+		});
+	});
+
+	describe("Routing Options", () => {
+		it("should ignore trailing and duplicate slashes by default", async () => {
+			const app = new Web();
+			app.get("/users", (c) => c.text("users"));
+
+			expect((await app.handle(mockRequest("/users/"))).status).toBe(200);
+			expect((await app.handle(mockRequest("//users"))).status).toBe(200);
+		});
+
+		it("should treat slashes as significant in strict mode", async () => {
+			const app = new Web({ trailingSlash: "strict" });
+			app.get("/users", (c) => c.text("users"));
+			app.get("/docs/", (c) => c.text("docs"));
+			app.get("/posts/:id", (c) => c.text(`post ${c.params.id}`));
+			app.get("/files/*", (c) => c.text(`file ${c.params["*"]}`));
+
+			expect(await (await app.handle(mockRequest("/users"))).text()).toBe("users");
+			expect((await app.handle(mockRequest("/users/"))).status).toBe(404);
+			expect((await app.handle(mockRequest("//users"))).status).toBe(404);
+			expect(await (await app.handle(mockRequest("/docs/"))).text()).toBe("docs");
+			expect((await app.handle(mockRequest("/docs"))).status).toBe(404);
+			expect((await app.handle(mockRequest("/posts/"))).status).toBe(404);
+			expect((await app.handle(mockRequest("/files/"))).status).toBe(404);
+			expect(await (await app.handle(mockRequest("/files/a/"))).text()).toBe("file a/");
+		});
+
+		it("should apply strict slashes to middleware paths", async () => {
+			const app = new Web({ trailingSlash: "strict" });
+			const seen: string[] = [];
+			app.use("/users", async (c, next) => {
+				seen.push(new URL(c.req.url).pathname);
+				return next();
+			});
+			app.get("/users", (c) => c.text("users"));
+			app.get("/users/", (c) => c.text("users slash"));
+
+			await app.handle(mockRequest("/users"));
+			await app.handle(mockRequest("/users/"));
+			expect(seen).toEqual(["/users"]);
+		});
+
+		it("should redirect to the canonical URL in redirect mode", async () => {
+			const app = new Web({ trailingSlash: "redirect" });
+			app.get("/users", (c) => c.text("users"));
+			app.get("/docs/", (c) => c.text("docs"));
+			app.post("/users", (c) => c.text("created", 201));
+
+			const res = await app.handle(mockRequest("/users/?page=2"));
+			expect(res.status).toBe(301);
+			expect(res.headers.get("Location")).toBe("/users?page=2");
+
+			const docs = await app.handle(mockRequest("/docs"));
+			expect(docs.status).toBe(301);
+			expect(docs.headers.get("Location")).toBe("/docs/");
+
+			const collapsed = await app.handle(mockRequest("//users"));
+			expect(collapsed.status).toBe(301);
+			expect(collapsed.headers.get("Location")).toBe("/users");
+
+			const post = await app.handle(mockRequest("/users/", "POST"));
+			expect(post.status).toBe(308);
+			expect(post.headers.get("Location")).toBe("/users");
+
+			expect((await app.handle(mockRequest("/users"))).status).toBe(200);
+			expect((await app.handle(mockRequest("/missing/"))).status).toBe(404);
+		});
+
+		it("should match case-sensitively by default", async () => {
+			const app = new Web();
+			app.get("/users", (c) => c.text("users"));
+
+			expect((await app.handle(mockRequest("/Users"))).status).toBe(404);
+		});
+
+		it("should match static segments case-insensitively when configured", async () => {
+			const app = new Web({ caseSensitive: false });
+			app.get("/Users/:id", (c) => c.text(`user ${c.params.id}`));
+			app.get("/v:version/status", (c) => c.text(`v${c.params.version}`));
+
+			expect(await (await app.handle(mockRequest("/users/AbC"))).text()).toBe("user AbC");
+			expect(await (await app.handle(mockRequest("/USERS/AbC"))).text()).toBe("user AbC");
+			expect(await (await app.handle(mockRequest("/V2/Status"))).text()).toBe("v2");
+		});
+
+		it("should match middleware case-insensitively when configured", async () => {
+			const app = new Web({ caseSensitive: false });
+			const admin = new Web({ caseSensitive: false });
+			let count = 0;
+			app.use("/api/*", async (c, next) => {
+				count++;
+				return next();
+			});
+			admin.use(async (c, next) => {
+				count++;
+				return next();
+			});
+			admin.get("/dashboard", (c) => c.text("dashboard"));
+			app.route("/admin", admin);
+			app.get("/api/items", (c) => c.text("items"));
+
+			expect((await app.handle(mockRequest("/API/Items"))).status).toBe(200);
+			expect((await app.handle(mockRequest("/Admin/Dashboard"))).status).toBe(200);
+			expect(count).toBe(2);
+		});
+
+		it("should pass options to scoped applications", async () => {
+			const app = new Web({ trailingSlash: "strict" });
+			app.scope("/api", (api) => {
+				api.get("/users/", (c) => c.text("users"));
+			});
+
+			expect((await app.handle(mockRequest("/api/users/"))).status).toBe(200);
+			expect((await app.handle(mockRequest("/api/users"))).status).toBe(404);
+			expect(app.getRoutes()[0]?.path).toBe("/api/users/");
+		});
+
+		it("should keep trailing slashes when building URLs", () => {
+			const app = new Web({ trailingSlash: "strict" });
+			app.get("/users/:id/", { name: "user" }, (c) => c.text("user"));
+
+			expect(app.url("user", { id: 1 })).toBe("/users/1/");
+		});
+	});
+
+	describe("Routers", () => {
+		for (const router of ["trie", "static", "regexp", "smart"] as const) {
+			describe(`${router} router`, () => {
+				it("should match static, parameter and wildcard routes by priority", async () => {
+					const app = new Web({ router });
+					app.get("/", (c) => c.text("home"));
+					app.get("/users/new", (c) => c.text("new"));
+					app.get("/users/:id", (c) => c.text(`user ${c.params.id}`));
+					app.get("/users/:id/posts", (c) => c.text(`posts of ${c.params.id}`));
+					app.get("/files/:name/meta", (c) => c.text(`meta ${c.params.name}`));
+					app.get("/files/*path", (c) => c.text(`file ${c.params.path}`));
+
+					expect(await (await app.handle(mockRequest("/"))).text()).toBe("home");
+					expect(await (await app.handle(mockRequest("/users/new"))).text()).toBe("new");
+					expect(await (await app.handle(mockRequest("/users/a%20b"))).text()).toBe("user a b");
+					expect(await (await app.handle(mockRequest("/users/new/posts"))).text()).toBe("posts of new");
+					expect(await (await app.handle(mockRequest("/files/a/meta"))).text()).toBe("meta a");
+					expect(await (await app.handle(mockRequest("/files/a/b/c"))).text()).toBe("file a/b/c");
+					expect((await app.handle(mockRequest("/users/new/comments"))).status).toBe(404);
+				});
+
+				it("should check constraints and fall back to lower-priority routes", async () => {
+					const app = new Web({ router });
+					app.get("/items/:id(\\d+)", (c) => c.json(c.params));
+					app.get("/items/:file.:ext", (c) => c.json(c.params));
+					app.get("/items/:slug", (c) => c.json(c.params));
+					app.get("/docs/:lang?", (c) => c.json(c.params));
+
+					expect(await (await app.handle(mockRequest("/items/42"))).json()).toEqual({ id: "42" });
+					expect(await (await app.handle(mockRequest("/items/logo.png"))).json()).toEqual({ file: "logo", ext: "png" });
+					expect(await (await app.handle(mockRequest("/items/abc"))).json()).toEqual({ slug: "abc" });
+					expect(await (await app.handle(mockRequest("/docs"))).json()).toEqual({});
+					expect(await (await app.handle(mockRequest("/docs/en"))).json()).toEqual({ lang: "en" });
+				});
+
+				it("should restore replaced routes on removal", async () => {
+					const warn = spyOn(console, "warn").mockImplementation(() => {});
+					const app = new Web({ router });
+					app.get("/status", (c) => c.text("first"));
+					const id = app.addRoute("GET", "/status", (c) => c.text("second"));
+					warn.mockRestore();
+
+					expect(app.validateRoutes().map((conflict) => conflict.type)).toEqual(["duplicate"]);
+					expect(await (await app.handle(mockRequest("/status"))).text()).toBe("second");
+
+					app.removeRoute(id);
+					expect(await (await app.handle(mockRequest("/status"))).text()).toBe("first");
+					expect(app.validateRoutes()).toEqual([]);
+				});
+
+				it("should let later routes win where optional parameters overlap static paths", async () => {
+					const warn = spyOn(console, "warn").mockImplementation(() => {});
+					const app = new Web({ router });
+					app.get("/docs", (c) => c.text("index"));
+					app.get("/docs/:lang?", (c) => c.text(`lang ${c.params.lang}`));
+					app.get("/blog/:slug?", (c) => c.text(`slug ${c.params.slug}`));
+					app.get("/blog", (c) => c.text("blog"));
+					warn.mockRestore();
+
+					expect(await (await app.handle(mockRequest("/docs"))).text()).toBe("lang undefined");
+					expect(await (await app.handle(mockRequest("/blog"))).text()).toBe("blog");
+					expect(await (await app.handle(mockRequest("/blog/hello"))).text()).toBe("slug hello");
+					expect(app.validateRoutes().map((conflict) => conflict.type)).toEqual(["unreachable", "unreachable"]);
+				});
+
+				it("should serve HEAD, OPTIONS and catch-all requests", async () => {
+					const app = new Web({ router });
+					app.get("/users/:id", (c) => c.text("user"));
+					app.post("/users/:id", (c) => c.text("updated"));
+					app.all("/any", (c) => c.text(c.req.method));
+
+					const head = await app.handle(mockRequest("/users/1", "HEAD"));
+					expect(head.status).toBe(200);
+					expect(await head.text()).toBe("");
+
+					const options = await app.handle(mockRequest("/users/1", "OPTIONS"));
+					expect(options.status).toBe(204);
+					expect(options.headers.get("Allow")).toBe("GET, HEAD, OPTIONS, POST");
+
+					expect(await (await app.handle(mockRequest("/any", "DELETE"))).text()).toBe("DELETE");
+				});
+
+				it("should match static segments case-insensitively when configured", async () => {
+					const app = new Web({ router, caseSensitive: false });
+					app.get("/Users/:id", (c) => c.text(c.params.id));
+					app.get("/About", (c) => c.text("about"));
+
+					expect(await (await app.handle(mockRequest("/users/AbC"))).text()).toBe("AbC");
+					expect(await (await app.handle(mockRequest("/ABOUT"))).text()).toBe("about");
+				});
+			});
+		}
+
+		it("should select a router for the registered routes on the first request", async () => {
+			const select = async (paths: string[]) => {
+				const router = new SmartRouter();
+				const app = new Web({ router: () => router });
+				for (const path of paths) app.get(path, (c) => c.text(path));
+				await app.handle(mockRequest("/"));
+				return router.selected;
+			};
+
+			expect(await select(["/", "/health", "/about"])).toBe("static");
+			expect(await select(["/", "/users/:id", "/posts/:id", "/files/*"])).toBe("regexp");
+			expect(await select(["/", "/health", "/users/:id"])).toBe("static");
+			expect(await select(["/items/:id(\\d+)", "/users/:id"])).toBe("trie");
+		});
+
+		it("should keep routes added after the selection", async () => {
+			const router = new SmartRouter();
+			const app = new Web({ router: () => router });
+			app.get("/health", (c) => c.text("ok"));
+			await app.handle(mockRequest("/health"));
+
+			app.get("/users/:id", (c) => c.text(`user ${c.params.id}`));
+			expect(await (await app.handle(mockRequest("/users/7"))).text()).toBe("user 7");
+			expect(router.selected).toBe("static");
+		});
+
+		it("should accept custom router factories", async () => {
+			const created: string[] = [];
+			const app = new Web({
+				router: (options) => {
+					created.push(String(options.caseSensitive));
+					return new RegExpRouter(options);
+				},
+			});
+			app.get("/", (c) => c.text("home"));
+			app.host("api.example.com", new Web().get("/", (c) => c.text("api")));
+
+			expect(await (await app.handle(mockRequest("/"))).text()).toBe("home");
+			expect(await (await app.handle(mockRequest("/", "GET", { Host: "api.example.com" }))).text()).toBe("api");
+			// One router for the routes without a host and one per host pattern
+			expect(created).toEqual(["true", "true"]);
+		});
+
+		it("should throw for unknown router names", () => {
+			expect(() => new Web({ router: "radix" as any })).toThrow('Unknown router "radix"');
+		});
 	});
 
-	describe("Route Parameters", () => {
-		it("should parse route parameters", async () => {
+	describe("Host Routing", () => {
+		it("should route requests by host", async () => {
 			const app = new Web();
-			app.get("/users/:id", (c) => c.text(`User ${c.params.id}`));
+			const api = new Web();
+			api.get("/", (c) => c.text("api"));
+			app.host("api.example.com", api);
+			app.get("/", (c) => c.text("main"));
 
-			const res = await app.handle(mockRequest("/users/42"));
-			expect(res.status).toBe(200);
-			expect(await res.text()).toBe("User 42");
+			expect(await (await app.handle(mockRequest("/", "GET", { Host: "api.example.com" }))).text()).toBe("api");
+			expect(await (await app.handle(mockRequest("/", "GET", { Host: "API.Example.com:8080" }))).text()).toBe("api");
+			expect(await (await app.handle(mockRequest("/", "GET", { Host: "www.example.com" }))).text()).toBe("main");
 		});
 
-		it("should handle multiple parameters", async () => {
+		it("should expose host parameters in ctx.params", async () => {
 			const app = new Web();
-			app.get("/posts/:category/:id", (c) =>
-				c.json({
-					category: c.params.category,
-					id: c.params.id,
+			const tenant = new Web();
+			tenant.get("/users/:id", (c) => c.json(c.params));
+			app.host(":tenant.example.com", tenant);
+
+			const res = await app.handle(mockRequest("/users/7", "GET", { Host: "acme.example.com" }));
+			expect(await res.json()).toEqual({ tenant: "acme", id: "7" });
+		});
+
+		it("should prefer exact hosts over parameters and wildcards", async () => {
+			const app = new Web();
+			const wildcard = new Web();
+			const tenant = new Web();
+			const admin = new Web();
+			wildcard.get("/", (c) => c.text("wildcard"));
+			tenant.get("/", (c) => c.text(`tenant ${c.params.tenant}`));
+			admin.get("/", (c) => c.text("admin"));
+			app.host("*.example.com", wildcard);
+			app.host(":tenant.example.com", tenant);
+			app.host("admin.example.com", admin);
+
+			expect(await (await app.handle(mockRequest("/", "GET", { Host: "admin.example.com" }))).text()).toBe("admin");
+			expect(await (await app.handle(mockRequest("/", "GET", { Host: "acme.example.com" }))).text()).toBe("tenant acme");
+			expect(await (await app.handle(mockRequest("/", "GET", { Host: "a.b.example.com" }))).text()).toBe("wildcard");
+		});
+
+		it("should keep hosts isolated from each other and from the fallback routes", async () => {
+			const app = new Web();
+			const api = new Web();
+			api.get("/users", (c) => c.text("api users"));
+			app.host("api.example.com", api);
+			app.get("/about", (c) => c.text("about"));
+
+			expect((await app.handle(mockRequest("/about", "GET", { Host: "api.example.com" }))).status).toBe(404);
+			expect((await app.handle(mockRequest("/users", "GET", { Host: "example.com" }))).status).toBe(404);
+			expect((await app.handle(mockRequest("/users", "POST", { Host: "api.example.com" }))).status).toBe(405);
+		});
+
+		it("should use a wildcard host as fallback application", async () => {
+			const app = new Web();
+			const fallback = new Web();
+			const api = new Web();
+			fallback.get("/", (c) => c.text("fallback"));
+			api.get("/", (c) => c.text("api"));
+			app.host("*", fallback);
+			app.host("api.example.com", api);
+
+			expect(await (await app.handle(mockRequest("/", "GET", { Host: "unknown.test" }))).text()).toBe("fallback");
+			expect(await (await app.handle(mockRequest("/", "GET", { Host: "api.example.com" }))).text()).toBe("api");
+		});
+
+		it("should run host-scoped middleware only for that host", async () => {
+			const app = new Web();
+			const api = new Web();
+			const calls: string[] = [];
+			app.use(async (c, next) => {
+				calls.push("global");
+				return next();
+			});
+			api.use(async (c, next) => {
+				calls.push("api");
+				return next();
+			});
+			api.get("/", (c) => c.text("api"));
+			app.host("api.example.com", api);
+			app.get("/", (c) => c.text("main"));
+
+			await app.handle(mockRequest("/", "GET", { Host: "api.example.com" }));
+			expect(calls).toEqual(["global", "api"]);
+
+			calls.length = 0;
+			await app.handle(mockRequest("/", "GET", { Host: "example.com" }));
+			expect(calls).toEqual(["global"]);
+		});
+
+		it("should register host routes with route options", async () => {
+			const app = new Web();
+			app.get("/", { host: "docs.example.com" }, (c) => c.text("docs"));
+			app.get("/", (c) => c.text("main"));
+
+			expect(await (await app.handle(mockRequest("/", "GET", { Host: "docs.example.com" }))).text()).toBe("docs");
+			expect(await (await app.handle(mockRequest("/", "GET", { Host: "example.com" }))).text()).toBe("main");
+			expect(app.getRoutes().map((r) => r.host)).toEqual(["docs.example.com", undefined]);
+		});
+
+		it("should combine host mounting with path prefixes", async () => {
+			const app = new Web();
+			const api = new Web();
+			const v1 = new Web();
+			v1.get("/users", (c) => c.text(`v1 users for ${c.params.tenant}`));
+			api.route("/v1", v1);
+			app.host(":tenant.api.example.com", api);
+
+			const res = await app.handle(mockRequest("/v1/users", "GET", { Host: "acme.api.example.com" }));
+			expect(await res.text()).toBe("v1 users for acme");
+			expect(app.getRoutes()[0]).toMatchObject({ path: "/v1/users", host: ":tenant.api.example.com" });
+		});
+
+		it("should answer OPTIONS with the methods of the matched host", async () => {
+			const app = new Web();
+			const api = new Web();
+			api.get("/items", (c) => c.text("items")).post("/items", (c) => c.text("created"));
+			app.host("api.example.com", api);
+			app.put("/items", (c) => c.text("updated"));
+
+			const res = await app.handle(mockRequest("/items", "OPTIONS", { Host: "api.example.com" }));
+			expect(res.status).toBe(204);
+			expect(res.headers.get("Allow")).toBe("GET, HEAD, OPTIONS, POST");
+		});
+
+		it("should reject wildcards after the first host label", () => {
+			const app = new Web();
+			expect(() => app.get("/", { host: "api.*.com" }, (c) => c.text("x"))).toThrow("Wildcard is only supported as the first label");
+		});
+	});
+
+	describe("Route Conflicts", () => {
+		it("should warn about duplicate routes and use the latest handlers", async () => {
+			const warn = spyOn(console, "warn").mockImplementation(() => {});
+			const app = new Web();
+			app.get("/users", (c) => c.text("first"));
+			app.get("/users", (c) => c.text("second"));
+
+			expect(warn).toHaveBeenCalledWith('Duplicate route "GET /users": the new handlers replace the existing ones');
+			expect(await (await app.handle(mockRequest("/users"))).text()).toBe("second");
+			expect(app.validateRoutes()).toEqual([
+				{
+					type: "duplicate",
+					method: "GET",
+					path: "/users",
+					existingPath: "/users",
+					message: 'Duplicate route "GET /users": the new handlers replace the existing ones',
+				},
+			]);
+			warn.mockRestore();
+		});
+
+		it("should report conflicting parameter names", () => {
+			const warn = spyOn(console, "warn").mockImplementation(() => {});
+			const app = new Web();
+			app.get("/u/:id", (c) => c.text("user"));
+			app.get("/u/:userId/x", (c) => c.json(c.params));
+			app.get("/f/:name.:ext", (c) => c.text("file"));
+			app.get("/f/:base.:type/meta", (c) => c.text("meta"));
+			app.get("/a/*path", (c) => c.text("asset"));
+			app.post("/a/*rest", (c) => c.text("upload"));
+
+			const conflicts = app.validateRoutes();
+			expect(conflicts.map((c) => [c.type, c.path])).toEqual([
+				["param-name", "/u/:userId/x"],
+				["param-name", "/f/:base.:type/meta"],
+			]);
+			expect(conflicts[0]!.message).toBe('Parameter ":userId" in "GET /u/:userId/x" conflicts with ":id" registered at the same position; the value will be available under the existing name');
+			expect(conflicts[1]!.message).toContain('":base, :type" in "GET /f/:base.:type/meta" conflicts with ":name, :ext"');
+			expect(warn).toHaveBeenCalledTimes(2);
+			warn.mockRestore();
+		});
+
+		it("should report wildcard name conflicts", () => {
+			const warn = spyOn(console, "warn").mockImplementation(() => {});
+			const app = new Web();
+			app.get("/a/*path", (c) => c.text("asset"));
+			app.get("/a/*rest", (c) => c.text("other"));
+
+			expect(app.validateRoutes().map((c) => c.type)).toEqual(["param-name", "unreachable"]);
+			warn.mockRestore();
+		});
+
+		it("should report routes overridden by a different pattern", () => {
+			const warn = spyOn(console, "warn").mockImplementation(() => {});
+			const app = new Web();
+			app.get("/docs", (c) => c.text("index"));
+			app.get("/docs/:lang?", (c) => c.text("lang"));
+
+			expect(app.validateRoutes()).toEqual([
+				{
+					type: "unreachable",
+					method: "GET",
+					path: "/docs/:lang?",
+					existingPath: "/docs",
+					message: 'Route "GET /docs" is unreachable for "/docs": it is overridden by "GET /docs/:lang?"',
+				},
+			]);
+			warn.mockRestore();
+		});
+
+		it("should report segments after a wildcard", () => {
+			const warn = spyOn(console, "warn").mockImplementation(() => {});
+			const app = new Web();
+			app.get("/files/*/meta", (c) => c.text("meta"));
+
+			expect(app.validateRoutes()[0]?.message).toBe('Segments after the wildcard in "GET /files/*/meta" can never be matched');
+			warn.mockRestore();
+		});
+
+		it("should not report routes that only share a prefix or differ by method", () => {
+			const warn = spyOn(console, "warn").mockImplementation(() => {});
+			const app = new Web();
+			app.get("/users/:id", (c) => c.text("get"));
+			app.put("/users/:id", (c) => c.text("put"));
+			app.all("/users/:id", (c) => c.text("all"));
+			app.get("/users/:id/posts", (c) => c.text("posts"));
+			app.options("/users/:id", (c) => c.text("options"));
+			app.get("/docs/:lang?", (c) => c.text("docs"));
+
+			expect(app.validateRoutes()).toEqual([]);
+			expect(warn).not.toHaveBeenCalled();
+			warn.mockRestore();
+		});
+
+		it("should throw in strict mode and keep the existing route", async () => {
+			const app = new Web({ strict: true });
+			app.get("/u/:id", (c) => c.text(`user ${c.params.id}`));
+
+			expect(() => app.get("/u/:id", (c) => c.text("duplicate"))).toThrow('Duplicate route "GET /u/:id"');
+			expect(() => app.get("/u/:userId/x", (c) => c.text("x"))).toThrow('Parameter ":userId"');
+
+			expect(app.getRoutes()).toHaveLength(1);
+			expect(await (await app.handle(mockRequest("/u/1"))).text()).toBe("user 1");
+			expect((await app.handle(mockRequest("/u/1/x"))).status).toBe(404);
+			expect(app.validateRoutes()).toEqual([]);
+		});
+
+		it("should apply strict mode inside scopes", () => {
+			const app = new Web({ strict: true });
+
+			expect(() =>
+				app.scope("/api", (api) => {
+					api.get("/users", (c) => c.text("a"));
+					api.get("/users", (c) => c.text("b"));
 				})
+			).toThrow('Duplicate route "GET /users"');
+		});
+
+		it("should detect conflicts with mounted sub-applications", () => {
+			const app = new Web({ strict: true });
+			const admin = new Web();
+			admin.get("/users", (c) => c.text("admin"));
+			app.get("/admin/users", (c) => c.text("main"));
+
+			expect(() => app.route("/admin", admin)).toThrow('Duplicate route "GET /admin/users"');
+		});
+
+		it("should clear conflicts once the offending route is removed", () => {
+			const warn = spyOn(console, "warn").mockImplementation(() => {});
+			const app = new Web();
+			app.get("/users", (c) => c.text("first"));
+			const id = app.addRoute("GET", "/users", (c) => c.text("second"));
+			expect(app.validateRoutes()).toHaveLength(1);
+
+			app.removeRoute(id);
+			expect(app.validateRoutes()).toEqual([]);
+			warn.mockRestore();
+		});
+	});
+
+	describe("OpenAPI", () => {
+		it("should return route metadata from getRoutes", () => {
+			const app = new Web();
+			app.get("/health", { name: "health", summary: "Health check", tags: ["system"] }, (c) => c.text("ok"));
+			app.get("/plain", (c) => c.text("plain"));
+
+			const [health, plain] = app.getRoutes();
+			expect(health!.name).toBe("health");
+			expect(health!.meta).toEqual({ summary: "Health check", tags: ["system"] });
+			expect(plain!.meta).toBeUndefined();
+		});
+
+		it("should translate path parameters to templated paths", () => {
+			const app = new Web();
+			app.get("/users/:id", (c) => c.text("user"));
+			app.get("/files/:name.:ext", (c) => c.text("file"));
+			app.get("/static/*path", (c) => c.text("static"));
+			app.get("/assets/*", (c) => c.text("asset"));
+
+			const doc = app.openapi({ info: { title: "Test", version: "1.0.0" } });
+			expect(doc.openapi).toBe("3.1.0");
+			expect(doc.info).toEqual({ title: "Test", version: "1.0.0" });
+			expect(Object.keys(doc.paths)).toEqual(["/users/{id}", "/files/{name}.{ext}", "/static/{path}", "/assets/{wildcard}"]);
+			expect(doc.paths["/users/{id}"]!.get!.parameters).toEqual([{ name: "id", in: "path", required: true, schema: { type: "string" } }]);
+			expect(doc.paths["/files/{name}.{ext}"]!.get!.parameters!.map((p) => p.name)).toEqual(["name", "ext"]);
+		});
+
+		it("should add constraint patterns and document optional parameters once per variant", () => {
+			const app = new Web();
+			app.get("/posts/:id(\\d+)", (c) => c.text("post"));
+			app.get("/docs/:lang?", { name: "docs" }, (c) => c.text("docs"));
+
+			const doc = app.openapi({ info: { title: "Test", version: "1.0.0" } });
+			expect(doc.paths["/posts/{id}"]!.get!.parameters![0]!.schema).toEqual({ type: "string", pattern: "^(?:\\d+)$" });
+			expect(doc.paths["/docs"]!.get).toEqual({});
+			expect(doc.paths["/docs/{lang}"]!.get!.operationId).toBe("docs");
+		});
+
+		it("should describe operations from route metadata", () => {
+			const app = new Web();
+			const post = { type: "object", properties: { id: { type: "integer" }, title: { type: "string" } } };
+			app.post(
+				"/users/:id/posts",
+				{
+					name: "posts.create",
+					summary: "Create a post",
+					description: "Creates a post for the user",
+					tags: ["posts"],
+					deprecated: true,
+					params: { type: "object", properties: { id: { type: "integer" } } },
+					query: { type: "object", properties: { draft: { type: "boolean" }, lang: { type: "string" } }, required: ["lang"] },
+					body: { schema: post, description: "The new post" },
+					responses: { 201: { description: "Post created", schema: post }, 404: { description: "User not found" } },
+				},
+				(c) => c.json({}, 201)
 			);
 
-			const res = await app.handle(mockRequest("/posts/tech/123"));
-			expect(res.status).toBe(200);
-			expect(await res.json()).toEqual({
-				category: "tech",
-				id: "123",
+			const operation = app.openapi({ info: { title: "Test", version: "1.0.0" } }).paths["/users/{id}/posts"]!.post!;
+			expect(operation).toEqual({
+				operationId: "posts.create",
+				summary: "Create a post",
+				description: "Creates a post for the user",
+				tags: ["posts"],
+				deprecated: true,
+				parameters: [
+					{ name: "id", in: "path", required: true, schema: { type: "integer" } },
+					{ name: "draft", in: "query", required: false, schema: { type: "boolean" } },
+					{ name: "lang", in: "query", required: true, schema: { type: "string" } },
+				],
+				requestBody: { description: "The new post", required: true, content: { "application/json": { schema: post } } },
+				responses: {
+					"201": { description: "Post created", content: { "application/json": { schema: post } } },
+					"404": { description: "User not found" },
+				},
 			});
 		});
 
-		it("should handle wildcard routes", async () => {
+		it("should skip hidden, ALL and host routes and keep metadata of mounted routes", () => {
 			const app = new Web();
-			app.get("/assets/*", (c) => c.text(`Path: ${c.params["*"]}`));
+			const api = new Web();
+			api.get("/users", { summary: "List users" }, (c) => c.json([]));
+			app.route("/api", api);
+			app.get("/openapi.json", { hidden: true }, (c) => c.json({}));
+			app.all("/any", (c) => c.text("any"));
+			app.get("/", { host: "admin.example.com" }, (c) => c.text("admin"));
 
-			const res = await app.handle(mockRequest("/assets/images/logo.png"));
+			const doc = app.openapi({ info: { title: "Test", version: "1.0.0" }, servers: [{ url: "https://example.com" }] });
+			expect(doc.servers).toEqual([{ url: "https://example.com" }]);
+			expect(Object.keys(doc.paths)).toEqual(["/api/users"]);
+			expect(doc.paths["/api/users"]!.get!.summary).toBe("List users");
+
+			const adminDoc = app.openapi({ info: { title: "Admin", version: "1.0.0" }, host: "admin.example.com" });
+			expect(Object.keys(adminDoc.paths)).toEqual(["/"]);
+		});
+
+		it("should detect security from middleware advertising a scheme", () => {
+			const app = new Web();
+			const apiKey = Object.assign(async (_c: any, next: () => Promise<Response | void>) => next(), {
+				security: { name: "apiKey", scheme: { type: "apiKey" as const, in: "header", name: "X-API-Key" } },
+			});
+			app.use("/admin/*", apiKey);
+			app.get("/admin/users/:id", (c) => c.text("user"));
+			app.get("/admin/stats", { security: [] }, (c) => c.text("stats"));
+			app.get("/public", (c) => c.text("public"));
+
+			const doc = app.openapi({ info: { title: "Test", version: "1.0.0" } });
+			expect(doc.paths["/admin/users/{id}"]!.get!.security).toEqual([{ apiKey: [] }]);
+			expect(doc.paths["/admin/stats"]!.get!.security).toEqual([]);
+			expect(doc.paths["/public"]!.get!.security).toBeUndefined();
+			expect(doc.components).toEqual({ securitySchemes: { apiKey: { type: "apiKey", in: "header", name: "X-API-Key" } } });
+		});
+	});
+
+	describe("RPC Client", () => {
+		const users = new Web().get("/:id", (ctx) => ctx.json({ id: ctx.params.id, name: "Ann" }));
+		const app = new Web()
+			.get("/", (ctx) => ctx.text("home"))
+			.get("/search", (ctx) => ctx.json({ q: ctx.query().get("q"), tags: ctx.query().getAll("tag") }))
+			.post("/echo", async (ctx) => ctx.json({ body: (await ctx.body()) as Record<string, unknown>, auth: ctx.req.headers.get("authorization") }, 201))
+			.get("/files/*path", (ctx) => ctx.json({ path: ctx.params.path }))
+			.route("/users", users);
+
+		it("should call routes through the application without a network", async () => {
+			const client = createClient(app);
+
+			const res = await client.users[":id"].$get({ param: { id: "42" } });
+			const user: { id: string; name: string } = await res.json();
 			expect(res.status).toBe(200);
-			expect(await res.text()).toBe("Path: images/logo.png");
+			expect(user).toEqual({ id: "42", name: "Ann" });
+
+			expect(await (await client.index.$get()).text()).toBe("home");
+		});
+
+		it("should send query parameters, JSON bodies and headers", async () => {
+			const client = createClient<typeof app>("http://localhost/", { fetch: app.handle, headers: { Authorization: "Bearer token" } });
+
+			const search = await client.search.$get({ query: { q: "web", tag: ["a", "b"] } });
+			expect(await search.json()).toEqual({ q: "web", tags: ["a", "b"] });
+
+			const echo = await client.echo.$post({ json: { hello: "world" } });
+			expect(echo.status).toBe(201);
+			expect(await echo.json()).toEqual({ body: { hello: "world" }, auth: "Bearer token" });
+		});
+
+		it("should round-trip wildcard parameters", async () => {
+			const client = createClient(app);
+
+			const res = await client.files["*path"].$get({ param: { path: "a/b c" } });
+			expect(await res.json()).toEqual({ path: "a/b c" });
+		});
+
+		it("should send form bodies", async () => {
+			const client = createClient(app);
+
+			const res = await client.echo.$post({ form: { name: "Ann" } });
+			expect((await res.json()).body).toEqual({ name: "Ann" });
+		});
+
+		it("should only expose registered routes and methods", () => {
+			const client = createClient(app);
+
+			// @ts-expect-error - missing route parameter
+			expect(() => client.users[":id"].$get()).toThrow('Missing parameter "id" for route "/users/:id"');
+			// @ts-expect-error - no POST route for /search
+			client.search.$post;
+			// @ts-expect-error - unknown path
+			client.posts;
 		});
 	});
 
@@ -175,6 +1469,134 @@ describe("Web Framework", () => {
 			const publicRes = await app.handle(mockRequest("/public"));
 			expect(await publicRes.text()).toBe("public");
 		});
+
+		it("should match path middleware per request on routes with parameters", async () => {
+			const app = new Web<{ tag: string }>();
+			app.use("/users/admin", async (c, next) => {
+				c.set("tag", "admin");
+				await next();
+			});
+			app.use("/users/:id", async (c, next) => {
+				c.set("tag", `${c.get("tag") ?? ""}:${c.params.id}`);
+				await next();
+			});
+			app.get("/users/:userId", (c) => c.json({ tag: c.get("tag"), params: c.params }));
+
+			expect(await (await app.handle(mockRequest("/users/admin"))).json()).toEqual({ tag: "admin:admin", params: { userId: "admin", id: "admin" } });
+			expect(await (await app.handle(mockRequest("/users/7"))).json()).toEqual({ tag: ":7", params: { userId: "7", id: "7" } });
+		});
+
+		it("should update cached chains when middleware is added or removed", async () => {
+			const app = new Web();
+			const calls: string[] = [];
+			app.get("/items", (c) => c.text("items"));
+			app.get("/items/:id", (c) => c.text("item"));
+
+			await app.handle(mockRequest("/items"));
+			await app.handle(mockRequest("/items/1"));
+
+			const id = app.addMiddleware(async (c, next) => {
+				calls.push(new URL(c.req.url).pathname);
+				await next();
+			});
+			await app.handle(mockRequest("/items"));
+			await app.handle(mockRequest("/items/2"));
+			expect(calls).toEqual(["/items", "/items/2"]);
+
+			app.removeMiddleware(id);
+			await app.handle(mockRequest("/items"));
+			await app.handle(mockRequest("/items/3"));
+			expect(calls).toEqual(["/items", "/items/2"]);
+		});
+
+		it("should let outer middleware replace the response of inner handlers", async () => {
+			const app = new Web();
+			app.use(async (c, next) => {
+				const res = await next();
+				return res ? new Response(`wrapped ${await res.text()}`) : undefined;
+			});
+			app.use(async (c, next) => next());
+			app.get("/", (c) => c.text("inner"));
+
+			expect(await (await app.handle(mockRequest("/"))).text()).toBe("wrapped inner");
+		});
+
+		it("should expose the response as ctx.res after next()", async () => {
+			const app = new Web();
+			let seen: Response | undefined;
+			app.use(async (ctx, next) => {
+				expect(ctx.res).toBeUndefined();
+				await next();
+				seen = ctx.res;
+			});
+			app.get("/", (ctx) => ctx.text("hello", 201));
+
+			const res = await app.handle(mockRequest("/"));
+			expect(seen).toBe(res);
+			expect(res.status).toBe(201);
+		});
+
+		it("should keep headers set after the handler returned", async () => {
+			const app = new Web();
+			app.use(async (ctx, next) => {
+				await next();
+				ctx.header("X-Response-Time", "5ms");
+			});
+			app.use(async (ctx, next) => {
+				const res = await next();
+				ctx.header("X-Inner", "yes");
+				return res;
+			});
+			app.get("/", (ctx) => ctx.json({ ok: true }));
+			app.get("/redirect", () => Response.redirect("http://localhost/", 302));
+
+			const res = await app.handle(mockRequest("/"));
+			expect(res.headers.get("X-Response-Time")).toBe("5ms");
+			expect(res.headers.get("X-Inner")).toBe("yes");
+			expect(await res.json()).toEqual({ ok: true });
+
+			// Responses with immutable headers are copied
+			const redirect = await app.handle(mockRequest("/redirect"));
+			expect(redirect.status).toBe(302);
+			expect(redirect.headers.get("Location")).toBe("http://localhost/");
+			expect(redirect.headers.get("X-Response-Time")).toBe("5ms");
+		});
+
+		it("should use a replaced ctx.res as the response", async () => {
+			const app = new Web();
+			app.use(async (ctx, next) => {
+				await next();
+				if (ctx.res?.status === 404) ctx.res = ctx.json({ error: "missing" }, 404);
+			});
+			app.use(async (ctx, next) => {
+				const res = await next();
+				ctx.res = new Response(`${await res?.text()}!`, res || undefined);
+				// Returning the downstream response keeps the replacement
+				return res;
+			});
+			app.get("/", (ctx) => ctx.text("hi"));
+			app.get("/gone", (ctx) => ctx.text("gone", 404));
+
+			expect(await (await app.handle(mockRequest("/"))).text()).toBe("hi!");
+			expect(await (await app.handle(mockRequest("/gone"))).json()).toEqual({ error: "missing" });
+		});
+
+		it("should use ctx.res set by handlers in the fast paths", async () => {
+			const app = new Web();
+			app.get("/", async (ctx) => {
+				ctx.res = ctx.text("static");
+			});
+			app.get("/users/:id", async (ctx) => {
+				ctx.res = ctx.text(`user ${ctx.params.id}`);
+			});
+
+			expect(await (await app.handle(mockRequest("/"))).text()).toBe("static");
+			expect(await (await app.handle(mockRequest("/users/3"))).text()).toBe("user 3");
+
+			const head = await app.handle(mockRequest("/users/3", "HEAD"));
+			expect(head.status).toBe(200);
+			expect(await head.text()).toBe("");
+		});
 	});
 
 	describe("Middleware Route Mounting", () => {
@@ -657,8 +2079,8 @@ describe("Web Framework", () => {
 			const removedCount = app.removeRoutesBy({ method: "GET" });
 			expect(removedCount).toBe(2);
 
-			// GET routes should return 404, POST should still work
-			expect((await app.handle(mockRequest("/users", "GET"))).status).toBe(404);
+			// GET routes should be gone (405 where another method remains), POST should still work
+			expect((await app.handle(mockRequest("/users", "GET"))).status).toBe(405);
 			expect((await app.handle(mockRequest("/posts", "GET"))).status).toBe(404);
 			expect((await app.handle(mockRequest("/users", "POST"))).status).toBe(200);
 		});
@@ -688,8 +2110,8 @@ describe("Web Framework", () => {
 			const removedCount = app.removeRoutesBy({ method: "GET", path: "/users" });
 			expect(removedCount).toBe(1);
 
-			// Only GET should return 404, POST should still work
-			expect((await app.handle(mockRequest("/users", "GET"))).status).toBe(404);
+			// Only GET should return 405, POST should still work
+			expect((await app.handle(mockRequest("/users", "GET"))).status).toBe(405);
 			expect((await app.handle(mockRequest("/users", "POST"))).status).toBe(200);
 		});
 
@@ -719,13 +2141,144 @@ describe("Web Framework", () => {
 			expect((await app.handle(mockRequest("/route2"))).status).toBe(200);
 			expect((await app.handle(mockRequest("/route3"))).status).toBe(200);
 
-			// Remove middle route
-			app.removeRoute(route2Id);
+			// Remove middle route
+			app.removeRoute(route2Id);
+
+			// Route 1 and 3 should still work, route 2 should not
+			expect((await app.handle(mockRequest("/route1"))).status).toBe(200);
+			expect((await app.handle(mockRequest("/route2"))).status).toBe(404);
+			expect((await app.handle(mockRequest("/route3"))).status).toBe(200);
+		});
+
+		it("should restore the replaced route when a duplicate is removed", async () => {
+			const warn = spyOn(console, "warn").mockImplementation(() => {});
+			const app = new Web();
+			app.get("/users", (c) => c.text("first"));
+			const id = app.addRoute("GET", "/users", (c) => c.text("second"));
+			warn.mockRestore();
+
+			expect(await (await app.handle(mockRequest("/users"))).text()).toBe("second");
+			app.removeRoute(id);
+			expect(await (await app.handle(mockRequest("/users"))).text()).toBe("first");
+		});
+
+		it("should rename a shared parameter node when the route naming it is removed", async () => {
+			const warn = spyOn(console, "warn").mockImplementation(() => {});
+			const app = new Web();
+			const id = app.addRoute("GET", "/users/:id", (c) => c.text("user"));
+			app.get("/users/:userId/posts", (c) => c.json(c.params));
+			warn.mockRestore();
+			expect(app.validateRoutes().map((c) => c.path)).toEqual(["/users/:userId/posts"]);
+
+			app.removeRoute(id);
+			expect(await (await app.handle(mockRequest("/users/5/posts"))).json()).toEqual({ userId: "5" });
+			expect((await app.handle(mockRequest("/users/5"))).status).toBe(404);
+			expect(app.validateRoutes()).toEqual([]);
+		});
+
+		it("should keep parameter name conflicts with the remaining routes on removal", async () => {
+			const warn = spyOn(console, "warn").mockImplementation(() => {});
+			const app = new Web();
+			const id = app.addRoute("GET", "/users/:id", (c) => c.text("user"));
+			app.get("/users/:userId/posts", (c) => c.json(c.params));
+			app.get("/users/:id/edit", (c) => c.json(c.params));
+			warn.mockRestore();
+
+			app.removeRoute(id);
+			expect(await (await app.handle(mockRequest("/users/5/posts"))).json()).toEqual({ id: "5" });
+			expect(await (await app.handle(mockRequest("/users/5/edit"))).json()).toEqual({ id: "5" });
+			expect(app.validateRoutes().map((c) => [c.type, c.path])).toEqual([["param-name", "/users/:userId/posts"]]);
+		});
+
+		it("should keep generated OPTIONS routes only while routes remain at the path", async () => {
+			const app = new Web();
+			const getId = app.addRoute("GET", "/items/:id", (c) => c.text("get"));
+			const patchId = app.addRoute("PATCH", "/items/:itemId", (c) => c.text("patch"));
+
+			app.removeRoute(getId);
+			let res = await app.handle(mockRequest("/items/1", "OPTIONS"));
+			expect(res.status).toBe(204);
+			expect(res.headers.get("Allow")).toBe("OPTIONS, PATCH");
+
+			app.removeRoute(patchId);
+			res = await app.handle(mockRequest("/items/1", "OPTIONS"));
+			expect(res.status).toBe(404);
+		});
+
+		it("should prune trie nodes left without routes", async () => {
+			const app = new Web();
+			app.get("/api/users", (c) => c.text("users"));
+			const id = app.addRoute("GET", "/api/users/:id/posts/:postId", (c) => c.text("post"));
+
+			app.removeRoute(id);
+			expect(app.match("GET", "/api/users/1/posts/2")).toBeNull();
+			expect(app.getAllowedMethods("/api/users/1/posts/2")).toEqual([]);
+			expect(await (await app.handle(mockRequest("/api/users"))).text()).toBe("users");
+
+			// The pruned parameter node no longer claims its name for new routes at the same position
+			app.get("/api/users/:userId", (c) => c.json(c.params));
+			expect(app.validateRoutes()).toEqual([]);
+			expect(await (await app.handle(mockRequest("/api/users/1"))).json()).toEqual({ userId: "1" });
+		});
+	});
+
+	describe("Batched Changes", () => {
+		it("should apply all changes at once", async () => {
+			const app = new Web();
+			const oldId = app.addRoute("GET", "/plugins/old", (c) => c.text("old"));
+
+			app.batch(() => {
+				app.removeRoute(oldId);
+				for (const name of ["a", "b"]) {
+					app.get(`/plugins/${name}`, { name: `plugin.${name}` }, (c) => c.text(name));
+				}
+				// The live routing table is unchanged until the batch completes
+				expect(app.match("GET", "/plugins/old")).not.toBeNull();
+				expect(app.match("GET", "/plugins/a")).toBeNull();
+			});
+
+			expect((await app.handle(mockRequest("/plugins/old"))).status).toBe(404);
+			expect(await (await app.handle(mockRequest("/plugins/b"))).text()).toBe("b");
+			expect(app.url("plugin.a")).toBe("/plugins/a");
+		});
+
+		it("should roll back all changes when the callback throws", async () => {
+			const app = new Web();
+			app.get("/kept", (c) => c.text("kept"));
+
+			expect(() =>
+				app.batch(() => {
+					app.removeRoutesBy({ path: "/kept" });
+					app.get("/added", (c) => c.text("added"));
+					app.use(() => new Response("blocked"));
+					throw new Error("plugin failed");
+				})
+			).toThrow("plugin failed");
+
+			expect(app.getRoutes().map((r) => r.path)).toEqual(["/kept"]);
+			expect(app.getMiddlewares()).toEqual([]);
+			expect(await (await app.handle(mockRequest("/kept"))).text()).toBe("kept");
+			expect((await app.handle(mockRequest("/added"))).status).toBe(404);
+		});
+
+		it("should reject the whole batch on conflicts in strict mode", () => {
+			const app = new Web({ strict: true });
+			app.get("/users", (c) => c.text("users"));
+
+			expect(() =>
+				app.batch(() => {
+					app.get("/posts", (c) => c.text("posts"));
+					app.get("/users", (c) => c.text("duplicate"));
+				})
+			).toThrow('Duplicate route "GET /users"');
+			expect(app.match("GET", "/posts")).toBeNull();
+			expect(app.getRoutes()).toHaveLength(1);
+		});
+
+		it("should reject asynchronous callbacks", () => {
+			const app = new Web();
 
-			// Route 1 and 3 should still work, route 2 should not
-			expect((await app.handle(mockRequest("/route1"))).status).toBe(200);
-			expect((await app.handle(mockRequest("/route2"))).status).toBe(404);
-			expect((await app.handle(mockRequest("/route3"))).status).toBe(200);
+			expect(() => app.batch((async () => {}) as () => void)).toThrow("batch() callbacks must be synchronous");
 		});
 	});
 
@@ -1262,6 +2815,498 @@ describe("Web Framework", () => {
 			res = await app.handle(mockRequest("/error"));
 			expect(res.status).toBe(404);
 		});
+
+		it("should pass the request context to the error handler", async () => {
+			const app = new Web<{ requestId: string }>();
+			app.use(async (ctx, next) => {
+				ctx.set("requestId", "req-1");
+				ctx.header("X-Request-Id", "req-1");
+				return next();
+			});
+			app.onError((err, ctx) => ctx.json({ error: err.message, requestId: ctx.get("requestId"), route: ctx.routePath ?? null }));
+			app.get("/items/:id", () => {
+				throw new Error("boom");
+			});
+
+			const res = await app.handle(mockRequest("/items/1"));
+			expect(res.status).toBe(500);
+			expect(res.headers.get("X-Request-Id")).toBe("req-1");
+			expect(await res.json()).toEqual({ error: "boom", requestId: "req-1", route: "/items/:id" });
+		});
+
+		it("should give the error handler a working context when the error occurs before routing", async () => {
+			const app = new Web();
+			app.onRequest(() => {
+				throw new Error("hook failed");
+			});
+			app.onError((err, ctx) => ctx.redirect(`/error?reason=${encodeURIComponent(err.message)}`));
+
+			const res = await app.handle(mockRequest("/"));
+			expect(res.status).toBe(302);
+			expect(res.headers.get("Location")).toBe("/error?reason=hook%20failed");
+		});
+
+		it("should turn an HTTPException into a response", async () => {
+			const app = new Web();
+			app.get("/admin", () => {
+				throw new HTTPException(401, { message: "Login required", headers: { "WWW-Authenticate": "Bearer" } });
+			});
+			app.get("/gone", () => {
+				throw new HTTPException(410);
+			});
+
+			const res = await app.handle(mockRequest("/admin"));
+			expect(res.status).toBe(401);
+			expect(res.headers.get("WWW-Authenticate")).toBe("Bearer");
+			expect(await res.text()).toBe("Login required");
+
+			const gone = await app.handle(mockRequest("/gone"));
+			expect(gone.status).toBe(410);
+			expect(await gone.text()).toBe("Gone");
+		});
+
+		it("should pass an HTTPException to the global error handler", async () => {
+			const app = new Web();
+			app.onError((err, ctx) => {
+				if (err instanceof HTTPException && err.status === 401) return ctx.json({ error: err.message });
+				return ctx.text(`generic: ${err.message}`);
+			});
+			app.get("/admin", () => {
+				throw new HTTPException(401, { message: "Login required" });
+			});
+			app.get("/gone", () => {
+				throw new HTTPException(410);
+			});
+
+			const res = await app.handle(mockRequest("/admin"));
+			expect(res.status).toBe(401);
+			expect(await res.json()).toEqual({ error: "Login required" });
+
+			const gone = await app.handle(mockRequest("/gone"));
+			expect(gone.status).toBe(410);
+			expect(await gone.text()).toBe("generic: Gone");
+		});
+
+		it("should keep the cause of an HTTPException", () => {
+			const cause = new Error("db down");
+			const err = new HTTPException(503, { cause });
+			expect(err).toBeInstanceOf(Error);
+			expect(err.cause).toBe(cause);
+			expect(err.message).toBe("Service Unavailable");
+		});
+
+		it("should dispatch errors to the handler of their closest class", async () => {
+			class NotFoundError extends Error {}
+			class UserNotFoundError extends NotFoundError {}
+
+			const app = new Web();
+			app.onError((err, ctx) => ctx.text(`generic: ${err.message}`));
+			app.onError(NotFoundError, (err, ctx) => ctx.text(`not found: ${err.message}`, 404));
+			app.onError(UserNotFoundError, (err, ctx) => ctx.json({ user: err.message }, 404));
+			app.onError(HTTPException, (err, ctx) => ctx.json({ status: err.status }, err.status));
+			app.get("/users/:id", (ctx) => {
+				throw new UserNotFoundError(ctx.params.id);
+			});
+			app.get("/posts/:id", (ctx) => {
+				throw new NotFoundError(ctx.params.id);
+			});
+			app.get("/fail", () => {
+				throw new TypeError("bad");
+			});
+			app.get("/teapot", () => {
+				throw new HTTPException(418);
+			});
+
+			expect(await (await app.handle(mockRequest("/users/7"))).json()).toEqual({ user: "7" });
+			expect(await (await app.handle(mockRequest("/posts/3"))).text()).toBe("not found: 3");
+			expect(await (await app.handle(mockRequest("/fail"))).text()).toBe("generic: bad");
+			const teapot = await app.handle(mockRequest("/teapot"));
+			expect(teapot.status).toBe(418);
+			expect(await teapot.json()).toEqual({ status: 418 });
+		});
+
+		it("should prefer class handlers of mounted applications", async () => {
+			class QuotaError extends Error {}
+
+			const api = new Web();
+			api.onError(QuotaError, (_, ctx) => ctx.text("api quota", 429));
+			api.get("/data", () => {
+				throw new QuotaError();
+			});
+
+			const app = new Web();
+			app.onError(QuotaError, (_, ctx) => ctx.text("app quota", 429));
+			app.route("/api", api);
+			app.get("/data", () => {
+				throw new QuotaError();
+			});
+
+			expect(await (await app.handle(mockRequest("/api/data"))).text()).toBe("api quota");
+			expect(await (await app.handle(mockRequest("/data"))).text()).toBe("app quota");
+		});
+	});
+
+	describe("Problem Details", () => {
+		it("should answer unmatched requests with problem details", async () => {
+			const app = new Web().problemDetails();
+			app.post("/items", (ctx) => ctx.text("created"));
+
+			const notFound = await app.handle(mockRequest("/missing"));
+			expect(notFound.status).toBe(404);
+			expect(notFound.headers.get("Content-Type")).toBe("application/problem+json");
+			expect(await notFound.json()).toEqual({ type: "about:blank", title: "Not Found", status: 404, instance: "/missing" });
+
+			const notAllowed = await app.handle(mockRequest("/items"));
+			expect(notAllowed.status).toBe(405);
+			expect(notAllowed.headers.get("Allow")).toBe("OPTIONS, POST");
+			expect((await notAllowed.json()).title).toBe("Method Not Allowed");
+		});
+
+		it("should answer errors with problem details without leaking messages", async () => {
+			const app = new Web().problemDetails();
+			app.get("/fail", () => {
+				throw new Error("database password is hunter2");
+			});
+			app.get("/admin", () => {
+				throw new HTTPException(401, { message: "Login required", headers: { "WWW-Authenticate": "Bearer" } });
+			});
+			app.get("/empty", () => undefined as any);
+
+			const failed = await app.handle(mockRequest("/fail"));
+			expect(failed.status).toBe(500);
+			expect(await failed.json()).toEqual({ type: "about:blank", title: "Internal Server Error", status: 500, instance: "/fail" });
+
+			const unauthorized = await app.handle(mockRequest("/admin"));
+			expect(unauthorized.status).toBe(401);
+			expect(unauthorized.headers.get("WWW-Authenticate")).toBe("Bearer");
+			expect(unauthorized.headers.get("Content-Type")).toBe("application/problem+json");
+			expect(await unauthorized.json()).toEqual({ type: "about:blank", title: "Unauthorized", status: 401, detail: "Login required", instance: "/admin" });
+
+			expect((await (await app.handle(mockRequest("/empty"))).json()).detail).toBe("No response returned by handler");
+		});
+
+		it("should pass every problem through the formatter", async () => {
+			const app = new Web<{ requestId: string }>().problemDetails({
+				formatter: (problem, ctx) => ({ ...problem, type: `https://example.com/errors/${problem.status}`, requestId: ctx.get("requestId") ?? null }),
+			});
+			app.use(async (ctx, next) => {
+				ctx.set("requestId", "req-1");
+				return next();
+			});
+			app.get("/users/:id", (ctx) => ctx.problem(404, { detail: `User ${ctx.params.id} does not exist` }));
+
+			expect(await (await app.handle(mockRequest("/users/7"))).json()).toEqual({
+				type: "https://example.com/errors/404",
+				title: "Not Found",
+				status: 404,
+				detail: "User 7 does not exist",
+				instance: "/users/7",
+				requestId: "req-1",
+			});
+			expect((await (await app.handle(mockRequest("/missing"))).json()).requestId).toBeNull();
+		});
+
+		it("should keep the default responses and custom handlers", async () => {
+			const plain = new Web();
+			plain.get("/", (ctx) => ctx.json({ enabled: ctx.problemDetails }));
+			expect(await (await plain.handle(mockRequest("/"))).json()).toEqual({ enabled: false });
+			expect(await (await plain.handle(mockRequest("/missing"))).text()).toBe("Not Found");
+
+			const app = new Web().problemDetails();
+			app.onNotFound((ctx) => ctx.text("custom", 404));
+			expect(await (await app.handle(mockRequest("/missing"))).text()).toBe("custom");
+		});
+
+		it("should not allow mounting an application with problem details", () => {
+			expect(() => new Web().route("/api", new Web().problemDetails())).toThrow("Cannot mount an application with problem details enabled");
+		});
+	});
+
+	describe("Development Error Page", () => {
+		const createDevApp = (options: ConstructorParameters<typeof Web>[0] = { dev: true }) => {
+			const app = new Web<{ user: { id: number } }>(options);
+			app.use(async function loadUser(ctx, next) {
+				ctx.set("user", { id: 7 });
+				return next();
+			});
+			app.use("/admin", async function adminOnly(ctx, next) {
+				return next();
+			});
+			app.get("/users/:id", { name: "user" }, function showUser() {
+				throw new Error("dev <boom>");
+			});
+			return app;
+		};
+
+		it("should describe uncaught errors as JSON", async () => {
+			const app = createDevApp();
+			const res = await app.handle(mockRequest("/users/7", "GET", { Authorization: "Bearer secret", Cookie: "sid=1", "X-Trace": "abc" }));
+			expect(res.status).toBe(500);
+			expect(res.headers.get("Content-Type")).toBe("application/json");
+			expect(res.headers.get("Cache-Control")).toBe("no-store");
+
+			const report = await res.json();
+			expect(report.errors[0].name).toBe("Error");
+			expect(report.errors[0].message).toBe("dev <boom>");
+			const frame = report.errors[0].frames.find((f: any) => f.file.endsWith("web.test.ts"));
+			expect(frame.source.lines.join("\n")).toContain('throw new Error("dev <boom>")');
+
+			expect(report.request.headers.authorization).toBe("[REDACTED]");
+			expect(report.request.headers.cookie).toBe("[REDACTED]");
+			expect(report.request.headers["x-trace"]).toBe("abc");
+			expect(report.route).toEqual({ path: "/users/:id", id: expect.any(String), name: "user", params: { id: "7" } });
+			expect(report.middleware).toEqual([
+				{ name: "loadUser", kind: "middleware", ran: true },
+				{ name: "showUser", kind: "handler", ran: true },
+			]);
+			expect(report.state).toEqual({ user: { id: 7 } });
+		});
+
+		it("should render an HTML page for browsers", async () => {
+			const app = createDevApp();
+			// Built at runtime, as the page shows the source around each stack frame
+			const authorization = `Bearer ${"x".repeat(8)}`;
+			const res = await app.handle(mockRequest("/users/7", "GET", { Accept: "text/html,application/xhtml+xml", Authorization: authorization }));
+			expect(res.status).toBe(500);
+			expect(res.headers.get("Content-Type")).toBe("text/html; charset=utf-8");
+
+			const html = await res.text();
+			expect(html).toContain("Error: dev &#60;boom&#62;");
+			expect(html).toContain("loadUser");
+			expect(html).toContain("[REDACTED]");
+			expect(html).not.toContain(authorization);
+			expect(html).not.toContain("<boom>");
+		});
+
+		it("should include error causes and redact custom headers", async () => {
+			const app = new Web({ dev: { redactHeaders: ["X-Api-Key"] } });
+			app.get("/", () => {
+				throw new Error("outer", { cause: new TypeError("inner") });
+			});
+
+			const report = await (await app.handle(mockRequest("/", "GET", { "X-Api-Key": "k", Authorization: "visible" }))).json();
+			expect(report.errors.map((e: any) => `${e.name}: ${e.message}`)).toEqual(["Error: outer", "TypeError: inner"]);
+			expect(report.request.headers["x-api-key"]).toBe("[REDACTED]");
+			expect(report.request.headers.authorization).toBe("visible");
+		});
+
+		it("should leave custom error handlers in charge", async () => {
+			const app = createDevApp();
+			app.onError((_, ctx) => ctx.text("handled"));
+			expect(await (await app.handle(mockRequest("/users/7"))).text()).toBe("handled");
+		});
+
+		it("should not be enabled accidentally", async () => {
+			expect(await (await createDevApp({}).handle(mockRequest("/users/7"))).text()).toBe("Internal Server Error");
+			expect(await (await createDevApp({ dev: "false" as any }).handle(mockRequest("/users/7"))).text()).toBe("Internal Server Error");
+
+			const previous = process.env.NODE_ENV;
+			const warn = spyOn(console, "warn").mockImplementation(() => {});
+			process.env.NODE_ENV = "production";
+			try {
+				const app = createDevApp();
+				expect(await (await app.handle(mockRequest("/users/7"))).text()).toBe("Internal Server Error");
+				expect(warn).toHaveBeenCalledWith('Ignoring the "dev" option because NODE_ENV is "production"');
+			} finally {
+				process.env.NODE_ENV = previous;
+				warn.mockRestore();
+			}
+		});
+
+		it("should treat an unset NODE_ENV as production", async () => {
+			const previous = process.env.NODE_ENV;
+			const warn = spyOn(console, "warn").mockImplementation(() => {});
+			delete process.env.NODE_ENV;
+			try {
+				expect(await (await createDevApp().handle(mockRequest("/users/7"))).text()).toBe("Internal Server Error");
+				expect(warn).toHaveBeenCalledWith('Ignoring the "dev" option because NODE_ENV is not set; pass { allowInProduction: true } to enable it anyway');
+
+				const res = await createDevApp({ dev: { allowInProduction: true } }).handle(mockRequest("/users/7"));
+				expect((await res.json()).errors[0].message).toBe("dev <boom>");
+			} finally {
+				process.env.NODE_ENV = previous;
+				warn.mockRestore();
+			}
+		});
+	});
+
+	describe("Request Pipeline", () => {
+		it("should pass env and execution context from app.fetch() to the context", async () => {
+			const app = new Web<{}, { DB: string }>();
+			const waiting: Promise<unknown>[] = [];
+			app.get("/", (ctx) => {
+				ctx.info.executionCtx?.waitUntil(Promise.resolve("done"));
+				return ctx.json({ db: ctx.env.DB, runtime: ctx.info.runtime });
+			});
+
+			const res = await app.fetch(mockRequest("/"), { DB: "main" }, { waitUntil: (promise) => waiting.push(promise) });
+			expect(await res.json()).toEqual({ db: "main", runtime: "fetch" });
+			expect(waiting).toHaveLength(1);
+		});
+
+		it("should default env to an empty object", async () => {
+			const app = new Web();
+			app.get("/", (ctx) => ctx.json({ env: ctx.env, clientIp: ctx.clientIp ?? null }));
+
+			expect(await (await app.handle(mockRequest("/"))).json()).toEqual({ env: {}, clientIp: null });
+			expect(await (await app.fetch(mockRequest("/"))).json()).toEqual({ env: {}, clientIp: null });
+		});
+
+		it("should be usable as a detached fetch handler", async () => {
+			const app = new Web();
+			app.get("/", (ctx) => ctx.text("ok"));
+
+			const { fetch } = app;
+			expect(await (await fetch(mockRequest("/"))).text()).toBe("ok");
+		});
+
+		it("should expose runtime information from each adapter", async () => {
+			const app = new Web<{}, { KV: string }>();
+			app.get("/", (ctx) =>
+				ctx.json({ runtime: ctx.info.runtime, clientIp: ctx.clientIp ?? null, env: ctx.env, hasServer: ctx.info.server !== undefined })
+			);
+			app.onError((err, ctx) => ctx.json({ error: err.message, runtime: ctx.info.runtime, env: ctx.env }, 500));
+			app.get("/fail", () => {
+				throw new Error("boom");
+			});
+
+			const server = { requestIP: () => ({ address: "10.0.0.1" }) };
+			expect(await (await app.handleBun(mockRequest("/"), server as any)).json()).toEqual({
+				runtime: "bun",
+				clientIp: "10.0.0.1",
+				env: {},
+				hasServer: true,
+			});
+
+			const cfRequest = mockRequest("/", "GET", { "CF-Connecting-IP": "1.2.3.4" });
+			expect(await (await app.handleCloudflare(cfRequest, { KV: "cache" })).json()).toEqual({
+				runtime: "cloudflare",
+				clientIp: "1.2.3.4",
+				env: { KV: "cache" },
+				hasServer: false,
+			});
+
+			const failed = await app.handleCloudflare(mockRequest("/fail"), { KV: "cache" });
+			expect(await failed.json()).toEqual({ error: "boom", runtime: "cloudflare", env: { KV: "cache" } });
+		});
+
+		it("should pass env to not found handlers", async () => {
+			const app = new Web<{}, { REGION: string }>();
+			app.onNotFound((ctx) => ctx.text(`missing in ${ctx.env.REGION}`, 404));
+
+			expect(await (await app.fetch(mockRequest("/nope"), { REGION: "eu" })).text()).toBe("missing in eu");
+		});
+	});
+
+	describe("Lifecycle Hooks", () => {
+		it("should rewrite or answer requests in onRequest before routing", async () => {
+			const app = new Web();
+			app.onRequest((req) => {
+				const url = new URL(req.url);
+				if (url.pathname.startsWith("/v1/")) {
+					url.pathname = url.pathname.slice(3);
+					return new Request(url, req);
+				}
+			});
+			app.onRequest((req) => {
+				if (req.headers.get("X-Blocked")) return new Response("blocked", { status: 403 });
+			});
+			app.get("/users", (c) => c.text(new URL(c.req.url).pathname));
+
+			expect(await (await app.handle(mockRequest("/v1/users"))).text()).toBe("/users");
+			const blocked = await app.handle(mockRequest("/missing", "GET", { "X-Blocked": "1" }));
+			expect(blocked.status).toBe(403);
+		});
+
+		it("should run beforeHandle with the matched route before middleware", async () => {
+			const app = new Web();
+			const calls: string[] = [];
+			app.beforeHandle((c) => {
+				calls.push(`hook ${c.routePath} ${c.params.id}`);
+				if (c.params.id === "0") return c.text("denied", 403);
+			});
+			app.use(async (c, next) => {
+				calls.push("middleware");
+				return next();
+			});
+			app.get("/users/:id", (c) => c.text("user"));
+
+			expect((await app.handle(mockRequest("/users/1"))).status).toBe(200);
+			expect((await app.handle(mockRequest("/users/0"))).status).toBe(403);
+			expect((await app.handle(mockRequest("/missing"))).status).toBe(404);
+			expect(calls).toEqual(["hook /users/:id 1", "middleware", "hook /users/:id 0"]);
+		});
+
+		it("should transform every response in onResponse", async () => {
+			const app = new Web();
+			app.onResponse((res) => {
+				const headers = new Headers(res.headers);
+				headers.set("X-Status", String(res.status));
+				return new Response(res.body, { status: res.status, headers });
+			});
+			app.get("/", (c) => c.text("home"));
+
+			const ok = await app.handle(mockRequest("/"));
+			expect(ok.headers.get("X-Status")).toBe("200");
+			expect(await ok.text()).toBe("home");
+			expect((await app.handle(mockRequest("/missing"))).headers.get("X-Status")).toBe("404");
+		});
+
+		it("should run onFinish after the body has been read, with timing and errors", async () => {
+			const app = new Web();
+			const events: FinishEvent[] = [];
+			app.onFinish((event) => {
+				events.push(event);
+			});
+			app.onError((err, c) => c.text(err.message, 500));
+			app.get("/", (c) => c.text("home"));
+			app.get("/fail", () => {
+				throw new Error("boom");
+			});
+
+			const res = await app.handle(mockRequest("/"));
+			expect(events).toHaveLength(0);
+			expect(await res.text()).toBe("home");
+			await Bun.sleep(0);
+			expect(events).toHaveLength(1);
+			expect(events[0]!.res.status).toBe(200);
+			expect(events[0]!.error).toBeUndefined();
+			expect(events[0]!.duration).toBeGreaterThanOrEqual(0);
+
+			await (await app.handle(mockRequest("/fail"))).text();
+			await Bun.sleep(0);
+			expect(events[1]!.res.status).toBe(500);
+			expect((events[1]!.error as Error).message).toBe("boom");
+		});
+
+		it("should pass errors thrown by hooks to the error handler", async () => {
+			const app = new Web();
+			app.onError((err, c) => c.text(`handled ${err.message}`, 500));
+			app.onRequest(() => {
+				throw new Error("hook");
+			});
+			app.get("/", (c) => c.text("home"));
+
+			expect(await (await app.handle(mockRequest("/"))).text()).toBe("handled hook");
+		});
+
+		it("should run hooks in runtime adapters", async () => {
+			const app = new Web();
+			const seen: string[] = [];
+			app.onRequest((req) => {
+				seen.push(new URL(req.url).pathname);
+			});
+			app.get("/", (c) => c.text(c.clientIp ?? "none"));
+
+			await app.handleCloudflare(new Request("http://localhost/", { headers: { "CF-Connecting-IP": "1.2.3.4" } }));
+			await app.handleDeno(new Request("http://localhost/deno"), { remoteAddr: { hostname: "5.6.7.8" } });
+			expect(seen).toEqual(["/", "/deno"]);
+		});
+
+		it("should not mount applications with hooks", () => {
+			const sub = new Web().onRequest(() => {});
+			expect(() => new Web().route("/sub", sub)).toThrow("Cannot mount an application with lifecycle hooks");
+		});
 	});
 
 	describe("Route Groups", () => {
@@ -1308,6 +3353,188 @@ describe("Web Framework", () => {
 			const res = await app.handle(mockRequest("/api/test"));
 			expect(await res.text()).toBe("123");
 		});
+
+		it("should use the sub-application's error and not-found handlers under its prefix", async () => {
+			const app = new Web();
+			app.onError((err, c) => c.text(`app: ${err.message}`, 500));
+			app.onNotFound((c) => c.text("app not found", 404));
+			app.get("/fail", () => {
+				throw new Error("boom");
+			});
+
+			const api = new Web();
+			api.onError((err, c) => c.json({ error: err.message }, 500));
+			api.onNotFound((c) => c.json({ error: "Not Found" }, 404));
+			api.get("/fail", () => {
+				throw new Error("api boom");
+			});
+			app.route("/api", api);
+
+			expect(await (await app.handle(mockRequest("/api/fail"))).json()).toEqual({ error: "api boom" });
+			expect(await (await app.handle(mockRequest("/api/missing"))).json()).toEqual({ error: "Not Found" });
+			expect(await (await app.handle(mockRequest("/fail"))).text()).toBe("app: boom");
+			expect(await (await app.handle(mockRequest("/missing"))).text()).toBe("app not found");
+		});
+
+		it("should fall back to the nearest application with a handler", async () => {
+			const app = new Web();
+			app.onNotFound((c) => c.text("app not found", 404));
+
+			const v1 = new Web();
+			v1.get("/fail", () => {
+				throw new Error("v1 boom");
+			});
+
+			const api = new Web();
+			api.onError((err, c) => c.text(`api: ${err.message}`, 500));
+			api.route("/v1", v1);
+			app.route("/api", api);
+
+			// Handlers set after mounting are used as well
+			v1.onNotFound((c) => c.text("v1 not found", 404));
+
+			expect(await (await app.handle(mockRequest("/api/v1/fail"))).text()).toBe("api: v1 boom");
+			expect(await (await app.handle(mockRequest("/api/v1/missing"))).text()).toBe("v1 not found");
+			expect(await (await app.handle(mockRequest("/api/missing"))).text()).toBe("app not found");
+		});
+
+		it("should run parent middleware before sub-application middleware", async () => {
+			const app = new Web();
+			const order: string[] = [];
+
+			const api = new Web();
+			api.use(async (_, next) => {
+				order.push("api");
+				await next();
+			});
+			api.get("/test", (c) => c.text("ok"));
+
+			app.use(async (_, next) => {
+				order.push("app before");
+				await next();
+			});
+			app.route("/api", api);
+			app.use(async (_, next) => {
+				order.push("app after");
+				await next();
+			});
+
+			await app.handle(mockRequest("/api/test"));
+			expect(order).toEqual(["app before", "app after", "api"]);
+		});
+
+		it("should refuse changes to a mounted sub-application", () => {
+			const app = new Web();
+			const api = new Web();
+			const id = api.addRoute("GET", "/users", (c) => c.text("users"));
+			app.route("/api", api);
+
+			expect(() => api.get("/posts", (c) => c.text("posts"))).toThrow("Cannot add routes after the application has been mounted");
+			expect(() => api.use(async (_, next) => next())).toThrow("Cannot add middleware after the application has been mounted");
+			expect(() => api.removeRoute(id)).toThrow("Cannot remove routes after the application has been mounted");
+			expect(() => api.route("/v1", new Web())).toThrow("Cannot mount applications after the application has been mounted");
+		});
+
+		it("should adopt the sub-application's WebSocket handlers", () => {
+			const app = new Web();
+			const handlers = { message: () => {} };
+			const ws = new Web().websocket(handlers);
+			app.route("/ws", ws);
+
+			expect((app as any).bunWebSocket).toBe(handlers);
+			expect(() => new Web().websocket({ message: () => {} }).route("/ws", new Web().websocket(handlers))).toThrow(
+				"Cannot mount an application with its own WebSocket handlers"
+			);
+		});
+	});
+
+	describe("Mounted Fetch Handlers", () => {
+		const legacy = async (req: Request) => {
+			const url = new URL(req.url);
+			return Response.json({ method: req.method, path: url.pathname, search: url.search, body: req.body ? await req.text() : null });
+		};
+
+		it("should forward requests under the prefix with the prefix stripped", async () => {
+			const app = new Web();
+			app.mount("/legacy", legacy);
+
+			expect(await (await app.handle(mockRequest("/legacy/users/1?tab=posts"))).json()).toEqual({
+				method: "GET",
+				path: "/users/1",
+				search: "?tab=posts",
+				body: null,
+			});
+			expect((await (await app.handle(mockRequest("/legacy"))).json()).path).toBe("/");
+			expect((await app.handle(mockRequest("/legacyx"))).status).toBe(404);
+		});
+
+		it("should strip the full prefix of handlers mounted in sub-applications and scopes", async () => {
+			const app = new Web();
+			const sub = new Web();
+			sub.mount("/legacy", legacy);
+			app.route("/v1", sub);
+			app.scope("/api", (api) => {
+				api.mount("/old", legacy);
+			});
+
+			expect((await (await app.handle(mockRequest("/v1/legacy/users"))).json()).path).toBe("/users");
+			expect((await (await app.handle(mockRequest("/v1/legacy"))).json()).path).toBe("/");
+			expect((await (await app.handle(mockRequest("/api/old/x/y"))).json()).path).toBe("/x/y");
+			expect((await (await app.handle(mockRequest("/api/old/read%20me"))).json()).path).toBe("/read%20me");
+		});
+
+		it("should forward the prefix with a trailing slash when trailing slashes are strict", async () => {
+			const app = new Web({ trailingSlash: "strict" });
+			app.mount("/legacy", legacy);
+			app.scope("/api", (api) => {
+				api.mount("/old", legacy);
+			});
+
+			expect((await (await app.handle(mockRequest("/legacy"))).json()).path).toBe("/");
+			expect((await (await app.handle(mockRequest("/legacy/"))).json()).path).toBe("/");
+			expect((await (await app.handle(mockRequest("/legacy/x/"))).json()).path).toBe("/x/");
+			expect((await (await app.handle(mockRequest("/api/old/"))).json()).path).toBe("/");
+			expect(app.validateRoutes()).toEqual([]);
+		});
+
+		it("should keep the prefix when stripPrefix is false", async () => {
+			const app = new Web();
+			app.mount("/legacy", legacy, { stripPrefix: false });
+
+			expect((await (await app.handle(mockRequest("/legacy/users"))).json()).path).toBe("/legacy/users");
+		});
+
+		it("should forward any method with its body", async () => {
+			const app = new Web();
+			app.mount("/legacy", legacy);
+
+			const res = await app.handle(new Request("http://localhost/legacy/items", { method: "PATCH", body: "payload" }));
+			expect(await res.json()).toEqual({ method: "PATCH", path: "/items", search: "", body: "payload" });
+		});
+
+		it("should run parent middleware before the handler", async () => {
+			const app = new Web();
+			app.use(async (_, next) => {
+				const res = await next();
+				res?.headers.set("X-Parent", "yes");
+				return res;
+			});
+			app.use("/legacy/admin", (c) => c.text("Forbidden", 403));
+			app.mount("/legacy", legacy);
+
+			const res = await app.handle(mockRequest("/legacy/users"));
+			expect(res.headers.get("X-Parent")).toBe("yes");
+			expect((await app.handle(mockRequest("/legacy/admin"))).status).toBe(403);
+		});
+
+		it("should pass env and execution context to the handler", async () => {
+			const app = new Web<{}, { TOKEN: string }>();
+			const executionCtx = { waitUntil: () => {} };
+			app.mount("/legacy", (_req, env, ctx) => Response.json({ env, sameCtx: ctx === executionCtx }));
+
+			const res = await app.fetch(mockRequest("/legacy/users"), { TOKEN: "secret" }, executionCtx);
+			expect(await res.json()).toEqual({ env: { TOKEN: "secret" }, sameCtx: true });
+		});
 	});
 
 	describe("State Management", () => {
@@ -1417,7 +3644,7 @@ describe("Web Framework", () => {
 			app.removeRoute(getId);
 
 			// GET should be gone, others should remain
-			expect((await app.handle(mockRequest("/users", "GET"))).status).toBe(404);
+			expect((await app.handle(mockRequest("/users", "GET"))).status).toBe(405);
 			expect(await (await app.handle(mockRequest("/users", "POST"))).text()).toBe("POST");
 			expect(await (await app.handle(mockRequest("/users", "PUT"))).text()).toBe("PUT");
 		});